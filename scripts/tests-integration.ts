@@ -1,6 +1,28 @@
 #!/usr/bin/env tsx
+import crypto from 'node:crypto';
+import fs from 'node:fs';
 import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
 import { runWithFallback } from '../src/router.js';
+import { RouterError } from '../src/util/errors.js';
+import { createServer } from '../src/server.js';
+import { resetMockCalls } from '../src/mock.js';
+import { resetCircuit } from '../src/circuit.js';
+import { replayPrompt } from '../src/replay.js';
+import { streamSSEToBufferAndStdout, streamSSEToWriterWithGate } from '../src/util/stream.js';
+import { countTokens } from '../src/util/tokenizer.js';
+import db from '../src/db.js';
+import { loadSessionHistory } from '../src/memory.js';
+import { loadPolicy } from '../src/policy.js';
+import { createAgent } from '../src/agents.js';
+import { runAgent } from '../src/agent.js';
+import { usageSummary } from '../src/quotas.js';
+import { runSubAgent } from '../src/subagents/controller.js';
+import { runChainSpec } from '../src/subagents/chains.js';
+import { ChainSpec } from '../src/subagents/types.js';
+import { registerAgentSpec } from '../src/subagents/registry.js';
+import { registerTool } from '../src/subagents/tools/registry.js';
 
 function sse(res: http.ServerResponse, chunks: string[], opts?: { delayFirstMs?: number; usage?: { prompt?: number; completion?: number }}) {
   res.statusCode = 200;
@@ -20,6 +42,50 @@ function sse(res: http.ServerResponse, chunks: string[], opts?: { delayFirstMs?:
 async function main() {
   const port = 33333;
   const srv = http.createServer((req, res) => {
+    if (req.method === 'POST' && req.url === '/v1/messages') {
+      // Anthropic Messages dialect stub; with `tools` it answers with a tool_use block
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        const j = JSON.parse(body || '{}');
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'text/event-stream');
+        const ev = (type: string, data: any) => res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+        ev('message_start', { message: { usage: { input_tokens: 11 } } });
+        if (j.tools?.[0]?.input_schema) {
+          ev('content_block_start', { index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: j.tools[0].name, input: {} } });
+          ev('content_block_delta', { index: 0, delta: { type: 'input_json_delta', partial_json: '{"order_id":' } });
+          ev('content_block_delta', { index: 0, delta: { type: 'input_json_delta', partial_json: '"A-1001"}' } });
+          ev('content_block_stop', { index: 0 });
+          ev('message_delta', { delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } });
+        } else {
+          ev('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'an' } });
+          ev('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'thropic' } });
+          ev('message_delta', { delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } });
+        }
+        ev('message_stop', {});
+        res.end();
+      });
+      return;
+    }
+    if (req.method === 'POST' && req.url === '/api/chat') {
+      // Ollama NDJSON dialect stub; with `tools` it answers with a whole tool call
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        const j = JSON.parse(body || '{}');
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        if (j.tools?.length) {
+          res.write(JSON.stringify({ message: { role: 'assistant', content: '', tool_calls: [{ function: { name: j.tools[0].function.name, arguments: { order_id: 'A-1001' } } }] }, done: false }) + '\n');
+        } else {
+          res.write(JSON.stringify({ message: { role: 'assistant', content: 'olla' }, done: false }) + '\n');
+          res.write(JSON.stringify({ message: { role: 'assistant', content: 'ma' }, done: false }) + '\n');
+        }
+        res.end(JSON.stringify({ message: { role: 'assistant', content: '' }, done: true, prompt_eval_count: 7, eval_count: 2 }) + '\n');
+      });
+      return;
+    }
     if (req.method === 'POST' && req.url === '/v1/chat/completions') {
       let body = '';
       req.on('data', (c) => (body += c));
@@ -33,8 +99,20 @@ async function main() {
           } else if (model === 'stub/primary-5xx') {
             res.statusCode = 503;
             res.end('Service Unavailable');
+          } else if (model === 'stub/primary-400') {
+            res.statusCode = 400;
+            res.end('Bad Request');
           } else if (model === 'stub/slow') {
             sse(res, ['x'], { delayFirstMs: 800, usage: { prompt: 10, completion: 5 } });
+          } else if (model === 'stub/usage-chunk') {
+            // OpenAI-style trailing usage chunk, only when requested; headers disagree so the source is visible
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'text/event-stream');
+            res.setHeader('x-usage-prompt-tokens', '1');
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'cut' } }] })}\n\n`);
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'length' }] })}\n\n`);
+            if (j.stream_options?.include_usage) res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 21, completion_tokens: 64, total_tokens: 85 } })}\n\n`);
+            res.end('data: [DONE]\n\n');
           } else if (model === 'stub/fast') {
             sse(res, ['y'], { delayFirstMs: 10, usage: { prompt: 10, completion: 5 } });
           } else {
@@ -100,6 +178,22 @@ async function main() {
     }
   }
 
+  // Test non-retryable error stops before trying backups
+  {
+    let err: any;
+    try {
+      await runWithFallback(
+        { primary: ['stub/primary-400'], backups: ['stub/backup'] },
+        200, 10, [{ role: 'user', content: 'hi' }], 64, 500, 3, [0], 0, 0, {}, undefined, undefined, undefined, false,
+        { retryOn: ['5xx', 'rate_limit'] }
+      );
+    } catch (e) { err = e; }
+    if (!(err instanceof RouterError) || err.attempts.length !== 1 || err.meta.nonRetryable?.[0]?.reason !== 'http_400') {
+      console.error('retry_on fail-fast failed', err);
+      process.exit(1);
+    }
+  }
+
   // Test external abort via early-stop (simulate fan-out slow/fast)
   {
     const ac = new AbortController();
@@ -118,6 +212,510 @@ async function main() {
     await Promise.allSettled([slow, fast]);
   }
 
+  // Test serve: OpenAI-compatible endpoint (non-stream + stream) with receipt header
+  {
+    const api = createServer({ port: 0, host: '127.0.0.1', defaultPolicy: 'cheap-fast', keysFile: 'config/does-not-exist.yaml', anonymousUser: 'tester-serve' });
+    await new Promise<void>((resolve) => api.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(api.address() as any).port}`;
+    const body = { model: 'routepilot/cheap-fast', messages: [{ role: 'user', content: 'hi' }] };
+    const r1 = await fetch(`${base}/v1/chat/completions`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+    const j1: any = await r1.json();
+    if (r1.status !== 200 || j1.choices?.[0]?.message?.content !== 'ok' || !r1.headers.get('x-routepilot-receipt')) {
+      console.error('serve non-stream failed', r1.status, j1);
+      process.exit(1);
+    }
+    const r2 = await fetch(`${base}/v1/chat/completions`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ ...body, stream: true }) });
+    const text = await r2.text();
+    if (r2.status !== 200 || !r2.headers.get('x-routepilot-receipt') || !text.includes('"content":"ok"') || !text.trim().endsWith('[DONE]')) {
+      console.error('serve stream failed', r2.status, text);
+      process.exit(1);
+    }
+    const r3 = await fetch(`${base}/v1/chat/completions`, { method: 'POST', headers: { 'Content-Type': 'application/json', 'x-routepilot-policy': 'nope' }, body: JSON.stringify(body) });
+    if (r3.status !== 400) { console.error('serve unknown policy should be 400', r3.status); process.exit(1); }
+    const r4 = await fetch(`${base}/v1/chat/completions`, { method: 'POST', headers: { 'Content-Type': 'application/json', 'x-routepilot-policy': '../config/x' }, body: JSON.stringify(body) });
+    if (r4.status !== 400) { console.error('serve policy path should be rejected', r4.status); process.exit(1); }
+
+    // Text still held by the first-chunk gate when the primary fails is dropped; only the backup's reply reaches the client
+    resetMockCalls();
+    resetCircuit();
+    const mockHeaders = { 'Content-Type': 'application/json', 'x-routepilot-policy': 'offline-mock' };
+    const r5 = await fetch(`${base}/v1/chat/completions`, { method: 'POST', headers: mockHeaders, body: JSON.stringify({ ...body, stream: true }) });
+    const t5 = await r5.text();
+    await new Promise((r) => setTimeout(r, 250)); // past the gate: nothing from the failed attempt is flushed late
+    if (t5.includes('this rep') || !/recovered|Hello/.test(t5) || !t5.trim().endsWith('[DONE]')) {
+      console.error('serve stream should only carry the backup reply', t5);
+      process.exit(1);
+    }
+    // Every chunk names the model that served the stream, not the primary that failed
+    const models5 = new Set(t5.split('\n').filter((l) => l.startsWith('data: {')).map((l) => JSON.parse(l.slice(6)).model));
+    if ([...models5].join(',') !== 'mock/fast') {
+      console.error('serve stream chunks should name the serving model', [...models5]);
+      process.exit(1);
+    }
+    // Without a stream nothing was sent yet, so the backups still run
+    resetMockCalls();
+    resetCircuit();
+    const r6 = await fetch(`${base}/v1/chat/completions`, { method: 'POST', headers: mockHeaders, body: JSON.stringify(body) });
+    const j6: any = await r6.json();
+    if (r6.status !== 200 || !/recovered|Hello/.test(j6.choices?.[0]?.message?.content)) { console.error('serve non-stream should fail over', r6.status, j6); process.exit(1); }
+    // A failure after routing (here the trace row) still settles the hold instead of leaving it until its TTL
+    const before7 = usageSummary('tester-serve').tokensToday;
+    db.exec(`CREATE TEMP TRIGGER fail_trace BEFORE INSERT ON traces BEGIN SELECT RAISE(ABORT, 'trace insert failed'); END`);
+    const r7 = await fetch(`${base}/v1/chat/completions`, { method: 'POST', headers: mockHeaders, body: JSON.stringify(body) });
+    db.exec('DROP TRIGGER temp.fail_trace');
+    const after7 = usageSummary('tester-serve');
+    if (r7.status !== 500 || after7.reserved.tokens !== 0 || !(after7.tokensToday > before7)) {
+      console.error('serve should settle the hold when post-routing work fails', r7.status, await r7.text(), after7);
+      process.exit(1);
+    }
+    api.close();
+  }
+
+  // Test committed streams: once the handler has passed text on, a failure ends the call instead of failing over
+  {
+    resetMockCalls();
+    let sent = '';
+    try {
+      await runWithFallback(
+        { primary: ['mock/flaky'], backups: ['mock/fast'] },
+        1000, 10, [{ role: 'user', content: 'hi' }], 64, 1500, 3, [0], 0, 0, {}, undefined,
+        async (res, onFirst, signal) => { await streamSSEToWriterWithGate(res, onFirst, 0, () => signal.aborted, (t) => { sent += t; }); },
+        undefined, false, { committed: () => sent.length > 0 }
+      );
+      console.error('committed stream should not fail over', sent);
+      process.exit(1);
+    } catch (e: any) {
+      if (!(e instanceof RouterError) || !/not failing over/.test(e.message) || sent !== 'this rep' || e.meta.fallbackCount !== 1) {
+        console.error('committed stream failure', e?.message, e?.meta, sent);
+        process.exit(1);
+      }
+    }
+  }
+
+  // Test serve API keys: policy overrides need allow_policy_override on the key
+  {
+    const keysFile = path.join(os.tmpdir(), `routepilot-keys-${process.pid}.yaml`);
+    fs.writeFileSync(keysFile, [
+      'keys:',
+      '  k-fixed: { user: fixed, policy: cheap-fast }',
+      '  k-some: { user: some, policy: cheap-fast, allow_policy_override: [offline-mock] }',
+    ].join('\n'));
+    const api = createServer({ port: 0, host: '127.0.0.1', defaultPolicy: 'cheap-fast', keysFile });
+    await new Promise<void>((resolve) => api.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(api.address() as any).port}`;
+    const ask = (key: string, extra: Record<string, string>, model = 'gpt') =>
+      fetch(`${base}/v1/chat/completions`, { method: 'POST', headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}`, ...extra }, body: JSON.stringify({ model, messages: [{ role: 'user', content: 'hi' }] }) });
+    const denied = await ask('k-fixed', { 'x-routepilot-policy': 'offline-mock' });
+    const notListed = await ask('k-some', { 'x-routepilot-policy': 'offline-tools' });
+    const listed = await ask('k-some', { 'x-routepilot-policy': 'offline-mock' });
+    const alias = await ask('k-fixed', {}, 'routepilot/offline-mock');
+    if (denied.status !== 403 || notListed.status !== 403 || listed.headers.get('x-routepilot-policy') !== 'offline-mock'
+      || alias.headers.get('x-routepilot-policy') !== 'cheap-fast') {
+      console.error('policy override should follow allow_policy_override', denied.status, notListed.status, listed.headers.get('x-routepilot-policy'), alias.headers.get('x-routepilot-policy'));
+      process.exit(1);
+    }
+    api.close();
+    fs.rmSync(keysFile, { force: true });
+  }
+
+  // Test provider registry: anthropic + ollama dialects translated to OpenAI-style streams
+  {
+    const file = path.join(os.tmpdir(), `routepilot-providers-${process.pid}.yaml`);
+    fs.writeFileSync(file, [
+      'providers:',
+      '  anthropic:',
+      '    match: ["stubanthropic/"]',
+      '    dialect: anthropic',
+      `    base_url: http://127.0.0.1:${port}`,
+      '    strip_prefix: true',
+      '  ollama:',
+      '    match: ["stubollama/"]',
+      '    dialect: ollama',
+      `    base_url: http://127.0.0.1:${port}`,
+      '    strip_prefix: true',
+    ].join('\n'));
+    process.env.ROUTEPILOT_PROVIDERS = file;
+    for (const [model, expected] of [['stubanthropic/claude', 'anthropic'], ['stubollama/llama3', 'ollama']]) {
+      let text = '';
+      await runWithFallback(
+        { primary: [model], backups: [] },
+        1000, 10, [{ role: 'system', content: 'sys' }, { role: 'user', content: 'hi' }], 64, 1500, 1, [0], 0, 0, {}, undefined,
+        async (res, onFirst) => { text = await streamSSEToBufferAndStdout(res, onFirst); },
+        undefined, false
+      );
+      if (text !== expected) { console.error('provider dialect failed', model, text); process.exit(1); }
+    }
+
+    // Tool calls: the failing primary falls over to backups speaking other dialects; each assembles the same call
+    const tools = [{ type: 'function' as const, function: { name: 'lookup_order', description: 'Find an order', parameters: { type: 'object', properties: { order_id: { type: 'string' } } } } }];
+    for (const backup of ['stubanthropic/claude', 'stubollama/llama3', 'mock/tool']) {
+      let text = '';
+      const r = await runWithFallback(
+        { primary: ['stub/primary-5xx'], backups: [backup] },
+        1000, 10, [{ role: 'user', content: 'where is my order?' }], 64, 1500, 2, [0], 0, 0, {}, undefined,
+        async (res, onFirst) => { text = await streamSSEToBufferAndStdout(res, onFirst); },
+        undefined, false, { tools, toolChoice: 'auto' }
+      );
+      const call = r.toolCalls[0];
+      if (r.routeFinal !== backup || r.fallbackCount !== 1 || r.toolCalls.length !== 1 || text !== ''
+        || call.function.name !== 'lookup_order' || JSON.parse(call.function.arguments).order_id !== 'A-1001' || !call.id
+        || r.finishReason !== 'tool_calls') {
+        console.error('tool call failover failed', backup, r, text);
+        process.exit(1);
+      }
+    }
+    delete process.env.ROUTEPILOT_PROVIDERS;
+    fs.rmSync(file);
+  }
+
+  // Test usage and finish_reason from the final stream chunk (stream_options.include_usage), headers as fallback
+  {
+    const route = (model: string) => runWithFallback(
+      { primary: [model], backups: [] },
+      1000, 10, [{ role: 'user', content: 'hi' }], 64, 1000, 1, [0], 0, 0, {}, undefined,
+      async (res, onFirst) => { await streamSSEToBufferAndStdout(res, onFirst); },
+      undefined, false
+    );
+    const chunk = await route('stub/usage-chunk');
+    if (chunk.usageVia !== 'stream' || chunk.usagePrompt !== 21 || chunk.usageCompletion !== 64 || chunk.finishReason !== 'length') {
+      console.error('stream usage chunk failed', chunk);
+      process.exit(1);
+    }
+    const header = await route('stub/fast');
+    if (header.usageVia !== 'header' || header.usagePrompt !== 10 || header.finishReason !== undefined) {
+      console.error('header usage fallback failed', header);
+      process.exit(1);
+    }
+  }
+
+  // Test built-in mock provider (fixtures/mock/scenarios.yaml): no HTTP stub involved
+  {
+    resetMockCalls();
+    const route = (primary: string[], backups: string[], fallbackOnMs = 300) => {
+      let text = '';
+      return runWithFallback(
+        { primary, backups },
+        1000, 10, [{ role: 'user', content: 'hi' }], 64, fallbackOnMs, 3, [0], 0, 0, {}, undefined,
+        async (res, onFirst) => { text = await streamSSEToBufferAndStdout(res, onFirst); },
+        undefined, false
+      ).then((r) => ({ ...r, text }));
+    };
+    const dropped = await route(['mock/flaky'], ['mock/fast']);
+    if (dropped.routeFinal !== 'mock/fast' || dropped.reasons[0] !== 'error' || dropped.text !== 'Hello from the mock provider.' || dropped.usagePrompt !== 12 || dropped.usageVia !== 'stream' || dropped.finishReason !== 'stop') {
+      console.error('mock mid-stream disconnect fallback failed', dropped);
+      process.exit(1);
+    }
+    const stalled = await route(['mock/stall'], ['mock/down', 'mock/fast'], 150);
+    if (stalled.routeFinal !== 'mock/fast' || stalled.reasons.join(',') !== 'stall,5xx') {
+      console.error('mock stall/5xx fallback failed', stalled);
+      process.exit(1);
+    }
+    // 429 burst: two rate-limited calls, then the scripted recovery
+    const burst: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      burst.push(await route(['mock/rate-limited'], []).then((r) => r.text, (e) => (e instanceof RouterError ? e.meta.reasons.join(',') : String(e))));
+    }
+    if (burst.join('|') !== 'rate_limit|rate_limit|recovered after a 429 burst') {
+      console.error('mock 429 burst failed', burst);
+      process.exit(1);
+    }
+  }
+
+  // Test hedged requests: a silent primary races the next route, the loser is aborted and billed
+  {
+    const route = (primary: string, backup: string) => {
+      let text = '';
+      return runWithFallback(
+        { primary: [primary], backups: [backup] },
+        1000, 10, [{ role: 'user', content: 'hi' }], 64, 1000, 3, [0], 0, 0, {}, undefined,
+        async (res, onFirst) => { text = await streamSSEToBufferAndStdout(res, onFirst); },
+        undefined, false,
+        { hedgeAfterMs: 50 }
+      ).then((r) => ({ ...r, text }));
+    };
+    countTokens('warm-up', 'mock/slow'); // the one-time tokenizer load is not what this timing checks
+    const t0 = Date.now();
+    const backupWins = await route('mock/slow', 'mock/fast');
+    const outcomes = backupWins.hedge?.attempts.map((a) => `${a.model}:${a.outcome}`).join(',');
+    if (backupWins.routeFinal !== 'mock/fast' || backupWins.text !== 'Hello from the mock provider.' || outcomes !== 'mock/slow:lost,mock/fast:won'
+      || !(backupWins.hedge!.loser_cost_usd > 0) || !backupWins.reasons.includes('hedge') || Date.now() - t0 > 350) {
+      console.error('hedge (backup wins) failed', backupWins);
+      process.exit(1);
+    }
+    const primaryWins = await route('mock/fast', 'mock/stall');
+    if (primaryWins.routeFinal !== 'mock/fast' || primaryWins.hedge) {
+      console.error('hedge should not launch when the primary streams in time', primaryWins);
+      process.exit(1);
+    }
+  }
+
+  // Test replay --judge: outputs captured, judge model scores them, failures rank last
+  {
+    const out = await replayPrompt('offline-mock', 'hi', ['mock/slow', 'mock/fast'], { judge: true });
+    const byModel = Object.fromEntries(out.results.map((r) => [r.model, r]));
+    if (typeof out.judge !== 'object' || out.judge.model !== 'mock/judge' || !byModel['mock/flaky']?.error
+      || byModel['mock/fast'].output !== 'Hello from the mock provider.' || byModel['mock/fast'].quality !== 0.778
+      || out.suggestedPatch.routing.backups.join(',') !== 'mock/fast,mock/slow') {
+      console.error('replay judge failed', JSON.stringify(out));
+      process.exit(1);
+    }
+    // Judge calls are reported: 60/12 tokens per verdict, and the total sums the results
+    const judgeTotal = out.results.reduce((s, r) => s + (r.judge_cost_usd ?? 0), 0);
+    if (byModel['mock/fast'].judge_tokens !== 72 || !(byModel['mock/fast'].judge_cost_usd! > 0)
+      || byModel['mock/flaky'].judge_cost_usd != null || Math.abs((out as any).judge_cost_usd - judgeTotal) > 1e-6) {
+      console.error('replay judge cost failed', JSON.stringify(out));
+      process.exit(1);
+    }
+  }
+
+  // Test summarize memory: older turns are folded into a stored summary through the summary policy, then reused
+  {
+    const sid = crypto.randomUUID();
+    db.prepare(`INSERT INTO sessions(id, created_at, user_ref, agent, policy) VALUES(?,?,?,?,?)`).run(sid, new Date().toISOString(), 'mem-test', 'support-bot', 'offline-mock');
+    const add = db.prepare(`INSERT INTO messages(id, session_id, role, content, ts) VALUES(?,?,?,?,?)`);
+    for (let i = 0; i < 6; i++) add.run(crypto.randomUUID(), sid, i % 2 ? 'assistant' : 'user', `message ${i} ${'word '.repeat(i * 20)}`, new Date().toISOString());
+    const memory = { strategy: 'summarize' as const, max_messages: 50, max_tokens: 300, keep_recent: 2, summary_policy: 'offline-mock', summary_max_tokens: 100 };
+    const tenancy = (await loadPolicy('offline-mock')).tenancy;
+
+    // A user whose limit cannot cover the summary's worst case gets no summary call
+    const broke = `mem-broke-${crypto.randomUUID().slice(0, 8)}`;
+    const refused = await loadSessionHistory(sid, memory, 'openai/gpt-4o-mini', false, { userRef: broke, tenancy: { ...tenancy, per_user_daily_tokens: 50 } });
+    const none = db.prepare(`SELECT COUNT(*) AS n FROM messages WHERE session_id=? AND role='summary'`).get(sid) as { n: number };
+    if (refused.record.summary || !/token cap/.test(refused.record.summary_error ?? '') || none.n !== 0 || usageSummary(broke).tokensToday !== 0) {
+      console.error('summary should be refused before the call when over quota', refused, none);
+      process.exit(1);
+    }
+
+    const user = `mem-test-${crypto.randomUUID().slice(0, 8)}`;
+    const first = await loadSessionHistory(sid, memory, 'openai/gpt-4o-mini', false, { userRef: user, tenancy });
+    const stored = db.prepare(`SELECT content FROM messages WHERE session_id=? AND role='summary'`).all(sid) as Array<{ content: string }>;
+    const charged = usageSummary(user);
+    if (first.record.summary?.summarized !== 4 || first.messages.length !== 3 || first.messages[0].role !== 'system'
+      || stored.length !== 1 || !first.messages[0].content.endsWith(stored[0].content)
+      || charged.tokensToday !== first.record.summary.prompt_tokens + first.record.summary.completion_tokens || charged.reserved.tokens !== 0) {
+      console.error('summarize memory failed', first, stored);
+      process.exit(1);
+    }
+    const again = await loadSessionHistory(sid, memory, 'openai/gpt-4o-mini');
+    if (again.record.summary || again.messages.length !== 3 || again.messages[0].content !== first.messages[0].content) {
+      console.error('stored summary should be reused without a new call', again);
+      process.exit(1);
+    }
+  }
+
+  // Test circuit breaker: repeated 5xx opens mock/down, later routes skip it
+  {
+    resetCircuit('mock/down');
+    const breaker = { failure_rate: 0.5, min_calls: 2, window: 10, cool_down_ms: 60_000 };
+    const route = () => runWithFallback(
+      { primary: ['mock/down'], backups: ['mock/fast'] },
+      1000, 10, [{ role: 'user', content: 'hi' }], 64, 500, 3, [0], 0, 0, {}, undefined,
+      async (res) => { await res.text(); }, undefined, false,
+      { circuitBreaker: breaker }
+    );
+    await route();
+    await route();
+    const skipped = await route();
+    if (skipped.reasons[0] !== 'circuit_open' || skipped.circuitOpen[0] !== 'mock/down' || skipped.fallbackCount !== 0 || skipped.routeFinal !== 'mock/fast') {
+      console.error('circuit breaker skip failed', skipped);
+      process.exit(1);
+    }
+    // Past the cool-down, a backup that is never attempted keeps its state: its probe is not used up
+    db.prepare("UPDATE circuit_state SET since=0 WHERE model='mock/down'").run();
+    await runWithFallback(
+      { primary: ['mock/fast'], backups: ['mock/down'] },
+      1000, 10, [{ role: 'user', content: 'hi' }], 64, 500, 3, [0], 0, 0, {}, undefined,
+      async (res) => { await res.text(); }, undefined, false,
+      { circuitBreaker: breaker }
+    );
+    const untouched = db.prepare("SELECT state, since FROM circuit_state WHERE model='mock/down'").get() as any;
+    if (untouched?.state !== 'open' || untouched.since !== 0) {
+      console.error('unused backup should keep its open circuit', untouched);
+      process.exit(1);
+    }
+    resetCircuit('mock/down');
+  }
+
+  // Test the sub-agent tool loop: mock/tool asks for lookup_order, gets the result, then answers with JSON
+  {
+    resetMockCalls();
+    const seen: any[] = [];
+    registerTool({
+      name: 'lookup_order',
+      description: 'Order status by id',
+      parameters: { type: 'object', properties: { order_id: { type: 'string' } }, required: ['order_id'] },
+      async run(args) { seen.push(args); return { id: args.order_id, status: 'shipped' }; },
+    });
+    registerAgentSpec({ name: 'OrderStatusTest', policy: 'offline-tools', tools: ['lookup_order'], output_schema: { type: 'object', required: ['records'] } });
+    const taskId = crypto.randomUUID();
+    const r = await runSubAgent({ envelopeVersion: '1', taskId, agent: 'OrderStatusTest', policy: '', budget: { tokens: 800, costUsd: 0.01, timeMs: 5000 }, input: { text: 'where is A-1001?' } });
+    const hop = JSON.parse((db.prepare('SELECT payload_json FROM receipts WHERE id=?').get(r.receiptId) as any).payload_json);
+    const children = db.prepare('SELECT route_final, payload_json FROM receipts WHERE parent_id=?').all(r.receiptId) as any[];
+    const child = children[0] && JSON.parse(children[0].payload_json);
+    if (r.output?.records?.[0]?.status !== 'shipped' || seen.length !== 1 || seen[0].order_id !== 'A-1001'
+      || hop.meta.tool_loop?.steps !== 2 || hop.meta.tool_loop.stopped !== 'answer' || hop.meta.tool_results?.[0]?.receipt_id !== child?.id
+      || hop.meta.tool_calls?.[0]?.name !== 'lookup_order' || children.length !== 1 || children[0].route_final !== 'tool/lookup_order'
+      || child.task_id !== taskId || child.meta.ok !== true) {
+      console.error('sub-agent tool loop failed', r, hop.meta, children);
+      process.exit(1);
+    }
+
+    // A failing tool is reported back to the model; max_tool_steps: 1 leaves one tool round, then a tool-less answer
+    registerTool({ name: 'lookup_order', description: 'Order status by id', parameters: { type: 'object' }, async run() { throw new Error('backend down'); } });
+    registerAgentSpec({ name: 'OrderStatusTest', policy: 'offline-tools', tools: ['lookup_order'], max_tool_steps: 1 });
+    const failed = await runSubAgent({ envelopeVersion: '1', taskId, agent: 'OrderStatusTest', policy: '', budget: { tokens: 800, costUsd: 0.01, timeMs: 5000 }, input: { text: 'where is A-1001?' } });
+    const failedHop = JSON.parse((db.prepare('SELECT payload_json FROM receipts WHERE id=?').get(failed.receiptId) as any).payload_json);
+    if (failedHop.meta.tool_results?.[0]?.ok !== false || !/backend down/.test(failedHop.meta.tool_results[0].error) || failedHop.meta.tool_loop.steps !== 2) {
+      console.error('failing tool should be reported, not thrown', failedHop.meta);
+      process.exit(1);
+    }
+
+    // Chat agents run the same loop: the turn's receipt records it and the session keeps the final reply
+    const contexts: any[] = [];
+    registerTool({ name: 'lookup_order', description: 'Order status by id', parameters: { type: 'object' }, async run(args, ctx) { contexts.push(ctx.context); return { id: args.order_id, status: 'shipped' }; } });
+    const agentName = `tools-agent-${crypto.randomUUID().slice(0, 8)}`;
+    const agentFile = createAgent(agentName, 'offline-tools', 'Answer order questions.', { tools: ['lookup_order'], tool_context: { region: 'eu' } });
+    try {
+      resetMockCalls();
+      const { sessionId } = await runAgent({ agentName, userRef: 'tools-agent', input: 'where is A-1001?', receiptsPerMessage: true });
+      const turn = JSON.parse((db.prepare('SELECT payload_json FROM receipts WHERE task_id=? ORDER BY seq DESC LIMIT 1').get(sessionId) as any).payload_json);
+      const reply = db.prepare(`SELECT content FROM messages WHERE session_id=? AND role='assistant'`).all(sessionId) as any[];
+      if (turn.meta.tool_loop?.steps !== 2 || turn.meta.tool_loop.stopped !== 'answer' || turn.meta.tool_results?.[0]?.ok !== true
+        || turn.meta.tool_calls?.[0]?.name !== 'lookup_order' || contexts[0]?.region !== 'eu' || reply.length !== 1 || !/A-1001/.test(reply[0].content)) {
+        console.error('agent tool loop failed', turn.meta, contexts, reply);
+        process.exit(1);
+      }
+    } finally {
+      fs.rmSync(agentFile, { force: true });
+    }
+  }
+
+  // Test output repair: an invalid reply goes back with the validation errors, and every attempt is in the receipt
+  {
+    resetMockCalls();
+    const budget = { tokens: 800, costUsd: 0.01, timeMs: 5000 };
+    const schema = { type: 'object', properties: { records: { type: 'array', items: { type: 'object', required: ['id'] } } }, required: ['records'] };
+    // offline-mock answers with plain text; the repair goes through offline-tools (mock/tool's JSON)
+    registerAgentSpec({ name: 'RepairTest', policy: 'offline-mock', output_schema: schema, repair: { max_attempts: 2, model: 'same', policy: 'offline-tools' } });
+    const fixed = await runSubAgent({ envelopeVersion: '1', taskId: crypto.randomUUID(), agent: 'RepairTest', policy: '', budget, input: {} });
+    const fixedRow = db.prepare('SELECT route_final, payload_json FROM receipts WHERE id=?').get(fixed.receiptId) as any;
+    const fixedHop = JSON.parse(fixedRow.payload_json);
+    if (fixed.output?.records?.[0]?.id !== 'A-1001' || fixedHop.meta.repairs?.length !== 1 || fixedHop.meta.repairs[0].model !== 'mock/tool'
+      || !fixedHop.meta.repairs[0].ok || !fixedHop.meta.output_schema?.ok || fixedRow.route_final !== 'mock/tool' || fixed.model !== 'mock/tool') {
+      console.error('repair should fix the output', fixed, fixedHop.meta);
+      process.exit(1);
+    }
+
+    // Same model, same (still invalid) reply: both attempts recorded, output kept with a failed check
+    const strict = { ...schema, properties: { records: { type: 'array', items: { type: 'object', properties: { status: { enum: ['delivered'] } } } } } };
+    registerAgentSpec({ name: 'RepairTest', policy: 'offline-tools', output_schema: strict, repair: { max_attempts: 2, model: 'same' } });
+    const stuck = await runSubAgent({ envelopeVersion: '1', taskId: crypto.randomUUID(), agent: 'RepairTest', policy: '', budget, input: {} });
+    const stuckHop = JSON.parse((db.prepare('SELECT payload_json FROM receipts WHERE id=?').get(stuck.receiptId) as any).payload_json);
+    if (stuckHop.meta.repairs?.length !== 2 || stuckHop.meta.repairs.some((r: any) => r.ok || !/status/.test(r.errors?.[0]))
+      || stuckHop.meta.output_schema?.ok !== false || stuck.output?.records?.[0]?.status !== 'shipped') {
+      console.error('failed repairs should be recorded', stuckHop.meta);
+      process.exit(1);
+    }
+
+    // A hop whose budget is spent by the first reply (mock/fast: 12+6 tokens) is not repaired
+    registerAgentSpec({ name: 'RepairTest', policy: 'offline-mock', output_schema: schema, repair: { max_attempts: 2, model: 'same', policy: 'offline-tools' } });
+    const spent = await runSubAgent({ envelopeVersion: '1', taskId: crypto.randomUUID(), agent: 'RepairTest', policy: '', budget: { ...budget, tokens: 18 }, input: {} });
+    const spentHop = JSON.parse((db.prepare('SELECT payload_json FROM receipts WHERE id=?').get(spent.receiptId) as any).payload_json);
+    if (spentHop.meta.repairs || spentHop.meta.output_schema?.ok !== false) {
+      console.error('repairs should stop once the hop budget is used up', spentHop.meta);
+      process.exit(1);
+    }
+  }
+
+  // Test the task budget: hops draw from it, a short step is downgraded or skipped, and running out aborts the chain
+  {
+    resetMockCalls();
+    // offline-mock answers in plain text; the output schema turns that into a failed check instead of a throw
+    registerAgentSpec({ name: 'BudgetTest', policy: 'offline-tools', output_schema: { type: 'object' } });
+    const hop = { tokens: 5000, costUsd: 0.01, timeMs: 5000 };
+    const spec = ChainSpec.parse({
+      chain: 'budget-test',
+      budget: { tokens: 5040, costUsd: 0.05, timeMs: 30000 }, // covers one hop, not two
+      steps: [
+        { id: 'first', agent: 'BudgetTest', budget: hop, input: { text: '$input.text' } },
+        { id: 'second', agent: 'BudgetTest', parent: 'first', budget: hop, downgrade: 'offline-mock' },
+        { id: 'third', agent: 'BudgetTest', budget: hop, default: { skipped: true } },
+      ],
+    });
+    const res: any = await runChainSpec(spec, { text: 'where is A-1001?' });
+    const rows = db.prepare('SELECT policy, prompt_tokens + completion_tokens AS tokens, payload_json FROM receipts WHERE task_id=? ORDER BY seq').all(res.taskId) as any[];
+    const metas = rows.map((r) => JSON.parse(r.payload_json).meta);
+    if (rows.length !== 2 || rows[0].policy !== 'offline-tools' || rows[1].policy !== 'offline-mock'
+      || metas[0].task_budget?.remaining?.tokens !== 5040 || metas[1].budget_downgrade?.policy !== 'offline-mock'
+      || metas[1].task_budget?.remaining?.tokens !== 5040 - rows[0].tokens || res.budget.used.tokens !== rows[0].tokens + rows[1].tokens
+      || res.outputs.first?.records?.[0]?.id !== 'A-1001' || res.outputs.third?.skipped !== true
+      || res.budget.downgraded?.[0] !== 'second' || res.budget.skipped?.[0] !== 'third' || res.aborted) {
+      console.error('task budget should downgrade and skip short steps', res, rows);
+      process.exit(1);
+    }
+
+    // A budget smaller than one hop's prompt: the first step runs capped, then the chain stops with a partial result
+    const tight = ChainSpec.parse({ ...spec, budget: { tokens: 20, costUsd: 0.05, timeMs: 30000 }, steps: spec.steps.slice(0, 2).map((s) => ({ ...s, downgrade: undefined })) });
+    const partial: any = await runChainSpec(tight, { text: 'where is A-1001?' });
+    if (partial.aborted?.step !== 'second' || partial.aborted.reason !== 'budget' || !(partial.aborted.remaining.tokens <= 0)
+      || partial.outputs.first?.records?.[0]?.id !== 'A-1001' || 'second' in partial.outputs) {
+      console.error('exhausted task budget should abort with a partial result', partial);
+      process.exit(1);
+    }
+
+    // A hop that fails to route ends the chain cleanly: earlier outputs are kept and the failure is charged.
+    // Its own 5 ms first-chunk limit is below every offline-tools route's first chunk (mock/tool 10 ms, mock/fast 20 ms)
+    const failing = ChainSpec.parse({ ...spec, steps: [spec.steps[0], { ...spec.steps[1], downgrade: undefined, budget: { tokens: 1000, costUsd: 0.01, timeMs: 5 } }] });
+    const failed: any = await runChainSpec(failing, { text: 'where is A-1001?' });
+    if (failed.aborted?.step !== 'second' || failed.aborted.reason !== 'error' || !failed.aborted.error
+      || failed.outputs.first?.records?.[0]?.id !== 'A-1001' || 'second' in failed.outputs) {
+      console.error('a failed hop should abort the chain with a partial result', failed);
+      process.exit(1);
+    }
+    // Capped to a remainder too small to route: the same clean stop, reported as a budget abort
+    const capped = ChainSpec.parse({ ...spec, budget: { tokens: 5040, costUsd: 0.05, timeMs: 8 }, steps: [{ ...spec.steps[1], parent: undefined, downgrade: undefined }] });
+    const short: any = await runChainSpec(capped, { text: 'where is A-1001?' });
+    if (short.aborted?.step !== 'second' || short.aborted.reason !== 'budget' || !short.aborted.error) {
+      console.error('a hop capped below what it needs should abort on budget', short);
+      process.exit(1);
+    }
+
+    // Fan-out: branches split what is left by their budgets, an early-stopped loser's spend is charged too,
+    // and branches that use up the task budget stop the chain before the reducer
+    const fanSpec = (tokens: number) => ChainSpec.parse({
+      chain: 'budget-fan',
+      budget: { tokens, costUsd: 0.05, timeMs: 30000 },
+      steps: [{
+        id: 'fan',
+        input: { text: '$input.text' },
+        fan_out: {
+          early_stop: true,
+          branches: [
+            { agent: 'BudgetTest', budget: { tokens: 300, costUsd: 0.01, timeMs: 5000 } },
+            { agent: 'BudgetTest', budget: { tokens: 100, costUsd: 0.01, timeMs: 5000 } },
+          ],
+        },
+        reducer: { agent: 'BudgetTest', budget: { tokens: 100, costUsd: 0.01, timeMs: 5000 } },
+      }],
+    });
+    const fan: any = await runChainSpec(fanSpec(500), { text: 'where is A-1001?' });
+    const fanRows = db.prepare('SELECT prompt_tokens + completion_tokens AS tokens, parent_id, payload_json FROM receipts WHERE task_id=?').all(fan.taskId) as any[];
+    const shares = fanRows.map((r) => JSON.parse(r.payload_json).meta.task_budget?.remaining?.tokens).sort((a, b) => a - b);
+    const spent = fanRows.reduce((n, r) => n + r.tokens, 0);
+    // The fan-out starts the chain, so its hops have no parent
+    if (fanRows.length !== 3 || shares[0] !== 100 || shares[1] !== 300 || fan.budget.used.tokens !== spent || fan.aborted
+      || fanRows.some((r) => r.parent_id != null)) {
+      console.error('fan-out should split the task budget and charge every branch', fan, shares, spent);
+      process.exit(1);
+    }
+    const fanShort: any = await runChainSpec(fanSpec(60), { text: 'where is A-1001?' });
+    const shortRows = db.prepare('SELECT COUNT(*) AS n FROM receipts WHERE task_id=?').get(fanShort.taskId) as any;
+    if (fanShort.aborted?.step !== 'fan' || shortRows.n !== 2 || !(fanShort.budget.used.tokens > 60)) {
+      console.error('fan-out that uses up the task budget should skip the reducer', fanShort, shortRows);
+      process.exit(1);
+    }
+  }
+
   srv.close();
   console.log('integration OK');
 }
@@ -1,12 +1,33 @@
 #!/usr/bin/env tsx
 import assert from "node:assert";
 import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { loadPolicy } from "../src/policy.js";
 import db, { p95LatencyFor } from "../src/db.js";
-import { assertWithinRpm } from "../src/quotas.js";
-import { parseUsageFromHeaders } from "../src/util/usage.js";
-import { writeReceipt, getReceipt } from "../src/receipts.js";
+import { assertWithinRpm, reserveQuota, settleQuota, releaseQuota, usageSummary } from "../src/quotas.js";
+import { parseUsageFromHeaders, resolveUsage } from "../src/util/usage.js";
+import { countTokens, countChatTokens, encodingForModel } from "../src/util/tokenizer.js";
+import { writeReceipt, getReceipt, verifyReceipt, verifyAllReceipts } from "../src/receipts.js";
 import { recentSampleCount } from "../src/db.js";
+import { loadChain, planChainSpec } from "../src/subagents/chains.js";
+import { expandEnv } from "../src/util/env.js";
+import { applyCostCeiling, isRetryable } from "../src/router.js";
+import { normalizeRates } from "../src/rates.js";
+import { toAnthropicRequest, toOllamaRequest } from "../src/providers.js";
+import { circuitAllows, claimCircuit, recordCircuitOutcome, resetCircuit } from "../src/circuit.js";
+import { rotateSigningKey, exportPublicKeys } from "../src/signing.js";
+import { exportReceipts } from "../src/export.js";
+import { buildReport } from "../src/report.js";
+import { loadSessionHistory } from "../src/memory.js";
+import { createAgent, loadAgent, describeAgents } from "../src/agents.js";
+import { runAgent } from "../src/agent.js";
+import Database from "better-sqlite3";
+import { getTool } from "../src/subagents/tools/registry.js";
+import { evaluateJsonPath } from "../src/subagents/tools/json_path.js";
+import { validateAgainstSchema } from "../src/subagents/validate.js";
+import { createSession, addMessage, listSessions, showSession, exportSession, forkSession, deleteSessions, staleSessionIds } from "../src/sessions.js";
 
 function hmacSha256Hex(text: string, secret = process.env.JWT_SECRET ?? "dev-secret") {
   const h = crypto.createHmac("sha256", secret);
@@ -18,6 +39,13 @@ async function testPolicyParsing() {
   const p = await loadPolicy("advanced-controls");
   assert(p.routing.params && p.routing.params["openai/gpt-4o-mini"], "routing.params parsed");
   assert(p.strategy.first_chunk_gate_ms >= 0, "strategy gate present");
+  assert.strictEqual(p.strategy.cost_ceiling, "clamp", "cost ceiling opted in");
+  assert.strictEqual((await loadPolicy("cheap-fast")).strategy.cost_ceiling, "off", "cost ceiling is opt-in");
+  // Network failures (DNS, refused connections, gateway down) must fail over in every shipped policy
+  for (const f of fs.readdirSync("policies").filter((n) => n.endsWith(".yaml"))) {
+    const pol = await loadPolicy(f.replace(/\.yaml$/, ""));
+    assert(isRetryable("error", pol.strategy.retry_on) && isRetryable("5xx", pol.strategy.retry_on), `${f} fails over on network errors`);
+  }
 }
 
 function testP95Calc() {
@@ -108,6 +136,464 @@ function testRecentSampleCount() {
   assert.strictEqual(c10, 7, "recentSampleCount caps at available rows (7)");
 }
 
+function testChainPlan() {
+  const plan = planChainSpec(loadChain("helpdesk-parallel"));
+  assert.deepStrictEqual(plan.map((s: any) => s.agent), ["TriageAgent", "RetrieverFast", "RetrieverAccurate", "AggregatorAgent", "WriterAgent"], "plan agents follow chain file");
+  assert(plan[1].parallel && plan[1].branch === "A" && plan[2].branch === "B", "fan-out branches marked parallel");
+  assert.strictEqual(plan[3].step, 3, "reducer gets its own step");
+  assert(/triage\.fields non-empty/.test(plan[1].conditional), "condition rendered in plan");
+  const single = loadChain("helpdesk");
+  assert(single.budget && single.budget.tokens > 0, "task budget parsed");
+  assert.strictEqual(planChainSpec(single)[2].downgrade, "cheap-fast", "downgrade policy shown in plan");
+}
+
+function testExpandEnv() {
+  const prev = process.env.HTTP_FETCH_URL_TEMPLATE;
+  const tpl = "${HTTP_FETCH_URL_TEMPLATE:-https://jsonplaceholder.typicode.com/posts/{id}}";
+  try {
+    delete process.env.HTTP_FETCH_URL_TEMPLATE;
+    assert.strictEqual(expandEnv(tpl), "https://jsonplaceholder.typicode.com/posts/{id}", "default keeps nested braces");
+    process.env.HTTP_FETCH_URL_TEMPLATE = "https://api.local/items/{id}";
+    assert.strictEqual(expandEnv(tpl), "https://api.local/items/{id}", "set variable replaces the whole default");
+    assert.strictEqual(expandEnv("a ${HTTP_FETCH_URL_TEMPLATE} b ${ROUTEPILOT_UNSET_VAR} c"), "a https://api.local/items/{id} b  c");
+    assert.strictEqual(expandEnv("${ROUTEPILOT_UNSET_VAR:-x{y"), "${ROUTEPILOT_UNSET_VAR:-x{y", "unbalanced braces left as written");
+    const chain = loadChain("helpdesk-http");
+    assert.strictEqual(chain.steps[1].context?.http_fetch.url_template, tpl, "chain keeps the template until run time");
+  } finally {
+    if (prev === undefined) delete process.env.HTTP_FETCH_URL_TEMPLATE; else process.env.HTTP_FETCH_URL_TEMPLATE = prev;
+  }
+}
+
+function testRetryOn() {
+  const retryOn = ["5xx", "rate_limit", "connect_timeout"];
+  assert(isRetryable("5xx", retryOn) && isRetryable("rate_limit", retryOn), "listed reasons retry");
+  assert(isRetryable("stall", retryOn) && isRetryable("error", retryOn), "connect_timeout covers stall/error");
+  assert(!isRetryable("http_400", retryOn), "4xx not retried unless listed");
+  assert(isRetryable("http_404", ["http_4xx"]) && isRetryable("http_400", []), "http_4xx wildcard; empty list retries all");
+}
+
+function testCostCeiling() {
+  // gpt-4o-mini default rates: 0.00015 in / 0.0006 out per 1K
+  const models = ["openai/gpt-4o-mini", "anthropic/claude-3-haiku"];
+  const fits = applyCostCeiling(models, 1000, 1000, 0.01, "clamp");
+  assert.deepStrictEqual(fits.models, models, "cheap calls pass untouched");
+  const clamp = applyCostCeiling(models, 1000, 1000, 0.0003, "clamp");
+  assert.strictEqual(clamp.preflight.clamped["openai/gpt-4o-mini"], 250, "max_tokens clamped to fit ceiling");
+  assert(clamp.preflight.skipped.includes("anthropic/claude-3-haiku"), "model that cannot fit is skipped");
+  const skip = applyCostCeiling(models, 1000, 1000, 0.0003, "skip");
+  assert.strictEqual(skip.models.length, 0, "skip mode drops over-ceiling models");
+  // Rate files: per_1k as written, per_1m scaled down, and no `unit:` read per 1K without guessing from magnitudes
+  const per1k = { "x/m": { input: 0.00015, output: 0.0006 } };
+  assert.deepStrictEqual(normalizeRates(per1k), per1k, "per-1K rates kept");
+  assert.deepStrictEqual(normalizeRates({ unit: "per_1m", "x/m": { input: 0.15, output: 0.6 } }), { "x/m": { input: 0.00015, output: 0.0006 } });
+  const pricey = { "o1-pro/x": { input: 0.15, output: 0.6 }, "x/cheap": { input: 0.00015, output: 0.0006 } };
+  assert.deepStrictEqual(normalizeRates(pricey), pricey, "no unit: per 1K, even with one expensive model");
+  assert.deepStrictEqual(normalizeRates({ unit: "per_1k", "x/m": { input: 0.15, output: 0.6 } }), { "x/m": { input: 0.15, output: 0.6 } }, "explicit unit wins");
+}
+
+function testProviderTranslation() {
+  const a = toAnthropicRequest({
+    model: "claude-3-haiku",
+    messages: [{ role: "system", content: "sys" }, { role: "user", content: "q" }, { role: "user", content: "attachment" }],
+    max_tokens: 50, temperature: 1.5, stop: ["END"], stream: true,
+  });
+  assert.strictEqual(a.system, "sys", "system lifted out of messages");
+  assert.deepStrictEqual(a.messages, [{ role: "user", content: "q\n\nattachment" }], "consecutive user turns merged");
+  assert(a.temperature === 1 && (a as any).stop_sequences[0] === "END", "temperature clamped, stop mapped");
+  const o = toOllamaRequest({ model: "llama3", messages: [{ role: "user", content: "q" }], max_tokens: 20, response_format: { type: "json_object" } });
+  assert(o.options?.num_predict === 20 && o.format === "json", "ollama options/format mapped");
+
+  // Tool round trip: assistant tool_calls -> tool_use blocks, tool results -> a user turn of tool_result blocks
+  const call = { id: "call_1", type: "function" as const, function: { name: "lookup_order", arguments: '{"order_id":"A-1"}' } };
+  const t = toAnthropicRequest({
+    model: "claude-3-haiku",
+    messages: [
+      { role: "user", content: "where is A-1?" },
+      { role: "assistant", content: "", tool_calls: [call] },
+      { role: "tool", content: '{"status":"shipped"}', tool_call_id: "call_1" },
+    ],
+    tools: [{ type: "function", function: { name: "lookup_order", parameters: { type: "object", properties: { order_id: { type: "string" } } } } }],
+    tool_choice: "required",
+  });
+  assert.deepStrictEqual(t.messages[1], { role: "assistant", content: [{ type: "tool_use", id: "call_1", name: "lookup_order", input: { order_id: "A-1" } }] });
+  assert.deepStrictEqual(t.messages[2], { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: '{"status":"shipped"}' }] });
+  assert(t.tools?.[0].input_schema && (t as any).tool_choice?.type === "any", "tools and tool_choice mapped");
+  const ot = toOllamaRequest({ model: "llama3", messages: [{ role: "assistant", content: "", tool_calls: [call] }] });
+  assert.deepStrictEqual((ot.messages[0] as any).tool_calls[0].function.arguments, { order_id: "A-1" }, "ollama takes argument objects");
+}
+
+function testCircuitBreaker() {
+  const model = `test/circuit-${Date.now()}`;
+  const cfg = { failure_rate: 0.5, min_calls: 4, window: 10, cool_down_ms: 1000 };
+  const t0 = 1_000_000;
+  recordCircuitOutcome(model, true, cfg, t0);
+  recordCircuitOutcome(model, false, cfg, t0 + 1);
+  assert.strictEqual(recordCircuitOutcome(model, true, cfg, t0 + 2), "closed", "below min_calls stays closed");
+  assert.strictEqual(recordCircuitOutcome(model, false, cfg, t0 + 3), "open", "2/4 failures opens");
+  assert(!circuitAllows(model, cfg, t0 + 500), "open circuit is skipped during cool-down");
+  assert(circuitAllows(model, cfg, t0 + 1100) && circuitAllows(model, cfg, t0 + 1100), "checking does not use up the probe");
+  assert(claimCircuit(model, cfg, t0 + 1100), "first caller after cool-down gets the probe");
+  assert(!claimCircuit(model, cfg, t0 + 1101) && !circuitAllows(model, cfg, t0 + 1101), "only one half-open probe");
+  assert.strictEqual(recordCircuitOutcome(model, false, cfg, t0 + 1200), "open", "failed probe re-opens");
+  assert(claimCircuit(model, cfg, t0 + 2300));
+  assert.strictEqual(recordCircuitOutcome(model, true, cfg, t0 + 2400), "closed", "successful probe closes");
+  assert.strictEqual(recordCircuitOutcome(model, false, cfg, t0 + 2500), "closed", "old failures no longer count");
+  resetCircuit(model);
+}
+
+function testReceiptChain() {
+  const base = { policy: "test-chain", route_primary: "a", route_final: "a", fallback_count: 0, latency_ms: 5, usage: { prompt: 1, completion: 1, cost: 0.0001 } };
+  const ids = [writeReceipt(base), writeReceipt(base), writeReceipt(base)];
+  const rows = ids.map((id) => getReceipt(id) as any);
+  assert.strictEqual(rows[1].prev_hash, rows[0].hash, "each receipt links to the previous hash");
+  assert.strictEqual(rows[2].seq, rows[1].seq + 1);
+  const ours = () => verifyAllReceipts().issues.filter((i) => ids.includes(i.id));
+  assert.strictEqual(ours().length, 0, "untouched log verifies");
+
+  db.prepare("UPDATE receipts SET cost_usd=0 WHERE id=?").run(ids[1]);
+  assert(verifyReceipt(ids[1])!.issues[0].problems.some((p) => p.includes("cost_usd")), "edited column is flagged");
+  db.prepare("UPDATE receipts SET cost_usd=? WHERE id=?").run(rows[1].cost_usd, ids[1]);
+
+  const saved = db.prepare("SELECT * FROM receipts WHERE id=?").get(ids[1]) as Record<string, any>;
+  db.prepare("DELETE FROM receipts WHERE id=?").run(ids[1]);
+  const broken = ours().find((i) => i.id === ids[2]);
+  assert(broken?.problems.some((p) => p.includes("missing")), "deleted receipt breaks the chain");
+  const cols = Object.keys(saved);
+  db.prepare(`INSERT INTO receipts(${cols.join(",")}) VALUES(${cols.map(() => "?").join(",")})`).run(...cols.map((c) => saved[c]));
+  assert.strictEqual(ours().length, 0, "restored log verifies again");
+}
+
+function testReceiptSigningKeys() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rp-keys-"));
+  const pubDir = path.join(dir, "public");
+  const prev = process.env.ROUTEPILOT_KEYS_DIR;
+  process.env.ROUTEPILOT_KEYS_DIR = dir;
+  try {
+    const base = { policy: "test-keys", route_primary: "a", route_final: "a", fallback_count: 0, latency_ms: 5, usage: { prompt: 1, completion: 1, cost: 0.0001 } };
+    const first = rotateSigningKey();
+    const a = writeReceipt(base);
+    const second = rotateSigningKey({ dropOldPrivate: true });
+    const b = writeReceipt(base);
+    const rowA = getReceipt(a) as any;
+    assert.strictEqual(rowA.sig_alg, "ed25519");
+    assert.strictEqual(rowA.key_id, first.kid);
+    assert.strictEqual((getReceipt(b) as any).key_id, second.kid, "new receipts use the rotated key");
+    assert(!fs.existsSync(path.join(dir, `${first.kid}.key`)), "old private key dropped");
+
+    exportPublicKeys(pubDir);
+    assert(!fs.readdirSync(pubDir).some((f) => f.endsWith(".key")), "export holds public keys only");
+    for (const id of [a, b]) {
+      assert.strictEqual(verifyReceipt(id)!.issues.length, 0, "verifies with the key ring");
+      assert.strictEqual(verifyReceipt(id, { publicKeysDir: pubDir })!.issues.length, 0, "verifies with public keys only");
+    }
+
+    db.prepare("UPDATE receipts SET payload_json=replace(payload_json, '\"test-keys\"', '\"test-keyz\"'), policy='test-keyz' WHERE id=?").run(a);
+    assert(verifyReceipt(a, { publicKeysDir: pubDir })!.issues[0].problems.some((p) => p.includes("signature")), "tampered payload fails Ed25519 check");
+    db.prepare("UPDATE receipts SET payload_json=?, policy=? WHERE id=?").run(rowA.payload_json, rowA.policy, a);
+  } finally {
+    if (prev === undefined) delete process.env.ROUTEPILOT_KEYS_DIR;
+    else process.env.ROUTEPILOT_KEYS_DIR = prev;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function testReceiptExport() {
+  const task = `export-${crypto.randomUUID()}`;
+  const base = { policy: "test-export", route_primary: "a", route_final: "b", fallback_count: 1, latency_ms: 40, first_token_ms: 10, task_id: task, reasons: ["5xx"], usage: { prompt: 3, completion: 4, cost: 0.001 } };
+  const root = writeReceipt({ ...base, extras: { note: 'has "quotes", commas' } });
+  const child = writeReceipt({ ...base, parent_id: root });
+  const tool = writeReceipt({ ...base, route_primary: "tool/sql_query", route_final: "tool/sql_query", fallback_count: 0, reasons: [], parent_id: child, usage: { prompt: 0, completion: 0, cost: 0 }, extras: { tool: "sql_query", tool_call_id: "call_1", ok: true } });
+
+  const jsonl = exportReceipts("jsonl", { task }).body.trim().split("\n").map((l) => JSON.parse(l));
+  assert.deepStrictEqual(jsonl.map((r) => r.id), [root, child, tool]);
+  assert(jsonl[0].signature && jsonl[0].hash, "jsonl carries signature and chain hash");
+
+  const csv = exportReceipts("csv", { task, policy: "test-export" }).body.trim().split("\n");
+  assert.strictEqual(csv.length, 4, "header + 3 rows");
+  assert(csv[1].includes(",5xx,40,10,3,4,0.001,0,"), "csv row has metrics");
+
+  const otlp = JSON.parse(exportReceipts("otlp-json", { task }).body);
+  const spans = otlp.resourceSpans[0].scopeSpans[0].spans;
+  assert.strictEqual(spans.length, 3);
+  assert.strictEqual(spans[0].traceId, spans[1].traceId, "one trace per task");
+  assert.strictEqual(spans[1].parentSpanId, spans[0].spanId, "hop parented via parent_id");
+  assert.strictEqual(spans[0].parentSpanId, undefined);
+  const latency = spans[0].attributes.find((a: any) => a.key === "routepilot.latency_ms");
+  assert.strictEqual(latency.value.intValue, "40");
+  assert.strictEqual(BigInt(spans[0].endTimeUnixNano) - BigInt(spans[0].startTimeUnixNano), 40_000_000n, "span covers latency");
+  const keys = spans[2].attributes.map((a: any) => a.key);
+  assert.deepStrictEqual([spans[2].name, spans[2].kind, spans[2].parentSpanId], ["tool sql_query", 1, spans[1].spanId], "tool calls are internal spans");
+  assert(keys.includes("gen_ai.tool.name") && !keys.includes("gen_ai.response.model"), "tool spans carry no model attributes");
+
+  assert.strictEqual(exportReceipts("jsonl", { task, since: "2999-01-01T00:00:00Z" }).count, 0, "since filter");
+}
+
+async function testReport() {
+  const policy = `test-report-${crypto.randomUUID().slice(0, 8)}`;
+  const trace = db.prepare(`INSERT INTO traces(id, ts, user_ref, policy, route_primary, route_final, latency_ms, tokens, cost_usd) VALUES(?,?,?,?,?,?,?,?,?)`);
+  const hop = (model: string, latency: number, reasons: string[], user: string) => {
+    const id = writeReceipt({ policy, route_primary: "m1", route_final: model, fallback_count: reasons.length, latency_ms: latency, first_token_ms: latency / 10, reasons, usage: { prompt: 10, completion: 5, cost: 0.01 } });
+    trace.run(id, new Date().toISOString(), user, policy, "m1", model, latency, 15, 0.01);
+  };
+  hop("m1", 100, [], "alice");
+  hop("m1", 300, [], "bob");
+  hop("m2", 900, ["5xx"], "alice");
+  // sub-agent tool call: a receipt, but not a model call
+  writeReceipt({ policy, route_primary: "tool/sql_query", route_final: "tool/sql_query", fallback_count: 0, latency_ms: 5000, usage: { prompt: 0, completion: 0, cost: 0 } });
+  // shadow marker: a receipt for traffic mirrored to another model, not a served call
+  writeReceipt({ policy, route_primary: "m1", route_final: "m3", fallback_count: 0, latency_ms: 0, reasons: ["shadow"], usage: { prompt: 10, completion: 0, cost: 0 }, extras: { shadow: true } });
+  // agent turn without a receipt: traces only
+  trace.run(crypto.randomUUID(), new Date().toISOString(), "alice", policy, "m1", "m1", 200, 40, 0.02);
+
+  const r = buildReport(["model"], { policy });
+  assert.strictEqual(r.total.calls, 4);
+  assert.strictEqual(r.total.cost_usd, 0.05);
+  assert.strictEqual(r.total.tokens, 85);
+  assert.strictEqual(r.total.fallback_rate, 0.25);
+  assert.deepStrictEqual(r.total.fallback_reasons, { "5xx": 0.25 });
+  const m1 = r.groups.find((g) => g.key.model === "m1")!;
+  assert.strictEqual(m1.calls, 3);
+  assert.strictEqual(m1.latency_p50_ms, 200);
+  assert.strictEqual(m1.first_token_p95_ms, 10, "first-token only from receipts");
+
+  const byUser = buildReport(["user"], { policy, user: "alice" });
+  assert.deepStrictEqual(byUser.groups.map((g) => [g.key.user, g.calls]), [["alice", 3]]);
+  assert.strictEqual(buildReport(["day"], { policy }, "Asia/Kolkata").groups.length, 1);
+  assert(!r.groups.some((g) => g.key.model === "m3"), "shadow markers are not calls");
+
+  // A receipted agent turn writes its receipt and trace under one id: one call, not two
+  const agentName = `test-report-${crypto.randomUUID().slice(0, 8)}`;
+  const agentFile = createAgent(agentName, "offline-mock", "Answer briefly.");
+  const user = `report-${crypto.randomUUID().slice(0, 8)}`;
+  try {
+    await runAgent({ agentName, userRef: user, input: "hi", receiptsPerMessage: true });
+  } finally {
+    fs.rmSync(agentFile, { force: true });
+  }
+  const turn = buildReport(["model"], { policy: "offline-mock", user });
+  assert.strictEqual(turn.total.calls, 1, "agent turn counted once");
+}
+
+function testQuotaBudgets() {
+  const tag = crypto.randomUUID().slice(0, 8);
+  const alice = `alice-${tag}`, bob = `bob-${tag}`;
+  const tenancy = {
+    per_user_daily_tokens: 1000,
+    per_user_monthly_tokens: 1500,
+    per_user_daily_usd: 0.5,
+    timezone: "UTC",
+    teams: { [`team-${tag}`]: { members: [alice, bob], monthly_usd: 0.7 } },
+  };
+  const charge = (user: string, tokens: number, usd: number) => settleQuota(reserveQuota(user, { tokens, usd }, tenancy), tokens, usd);
+  charge(alice, 400, 0.3);
+  assert.throws(() => reserveQuota(alice, { tokens: 10, usd: 0.25 }, tenancy), (e: any) => e?.tag === "QUOTA" && e.kind === "daily_usd" && !e.team, "user USD budget");
+  assert.throws(() => reserveQuota(alice, { tokens: 700, usd: 0 }, tenancy), (e: any) => e.kind === "daily", "worst case over the daily cap is refused up front");
+
+  charge(bob, 100, 0.35);
+  assert.throws(() => reserveQuota(bob, { tokens: 1, usd: 0.1 }, tenancy), (e: any) => e.kind === "monthly_usd" && e.team === `team-${tag}`, "shared team budget");
+
+  const u = usageSummary(alice, "UTC", tenancy);
+  assert.strictEqual(u.usdToday, 0.3);
+  const team = u.budgets!.find((b) => b.scope === "team")!;
+  assert.deepStrictEqual([team.used, team.remaining], [0.65, 0.05]);
+  assert.strictEqual(u.budgets!.find((b) => b.kind === "monthly")!.remaining, 1100);
+
+  // Holds count until settled or released
+  const hold = reserveQuota(bob, { tokens: 0, usd: 0.05 }, tenancy);
+  assert.strictEqual(usageSummary(bob, "UTC").reserved.usd, 0.05);
+  assert.throws(() => reserveQuota(alice, { tokens: 0, usd: 0.01 }, tenancy), (e: any) => e.kind === "monthly_usd", "in-flight hold blocks teammates");
+  releaseQuota(hold);
+  releaseQuota(reserveQuota(alice, { tokens: 0, usd: 0.01 }, tenancy));
+
+  // Settles to actual usage, even above the hold
+  settleQuota(reserveQuota(alice, { tokens: 100, usd: 0 }, tenancy), 250, 0);
+  assert.deepStrictEqual([usageSummary(alice, "UTC").tokensToday, usageSummary(alice, "UTC").reserved.tokens], [650, 0]);
+}
+
+function testTokenizer() {
+  assert.strictEqual(encodingForModel("openai/gpt-4o-mini"), "o200k_base");
+  assert.strictEqual(encodingForModel("gpt-4-turbo"), "cl100k_base");
+  assert.strictEqual(encodingForModel("anthropic/claude-3-haiku"), "cl100k_base", "non-OpenAI families approximate with cl100k");
+  assert.strictEqual(countTokens("Hello world", "openai/gpt-4o-mini"), 2);
+  assert.strictEqual(countTokens("<|endoftext|>", "openai/gpt-4"), 7, "special tokens in text are counted, not rejected");
+  const messages = [{ role: "user", content: "Hello world" }];
+  assert.strictEqual(countChatTokens(messages, "openai/gpt-4o-mini"), 9);
+
+  const fromHeaders = resolveUsage("openai/gpt-4o-mini", messages, "Hi there!", { prompt: 11, completion: 4 });
+  assert.deepStrictEqual(fromHeaders, { prompt: 11, completion: 4, source: { prompt: "header", completion: "header" } });
+  const local = resolveUsage("openai/gpt-4o-mini", messages, "Hi there!", {}, { prompt: 10 });
+  assert.deepStrictEqual(local, { prompt: 10, completion: 3, source: { prompt: "probe", completion: "tokenized" } });
+  const noText = resolveUsage("openai/gpt-4o-mini", messages, undefined, {});
+  assert.deepStrictEqual(noText.source, { prompt: "tokenized", completion: "estimated" });
+}
+
+async function testSessionMemory() {
+  const sid = crypto.randomUUID();
+  db.prepare(`INSERT INTO sessions(id, created_at, user_ref, agent, policy) VALUES(?,?,?,?,?)`).run(sid, new Date().toISOString(), "mem-test", "support-bot", "cheap-fast");
+  const add = db.prepare(`INSERT INTO messages(id, session_id, role, content, ts) VALUES(?,?,?,?,?)`);
+  for (let i = 0; i < 6; i++) add.run(crypto.randomUUID(), sid, i % 2 ? "assistant" : "user", `message ${i} ${"word ".repeat(i * 20)}`, new Date().toISOString());
+  const base = { strategy: "window" as const, max_messages: 4, max_tokens: 4096, keep_recent: 2, summary_policy: "cheap-fast", summary_max_tokens: 100 };
+
+  const win = await loadSessionHistory(sid, base, "openai/gpt-4o-mini");
+  assert.deepStrictEqual(win.messages.map((m) => m.content.split(" ")[1]), ["2", "3", "4", "5"]);
+  assert.strictEqual(win.record.dropped, 2);
+
+  // Messages 5 and 4 take 108 + 88 tokens; message 3 no longer fits
+  const budget = await loadSessionHistory(sid, { ...base, strategy: "token_budget", max_tokens: 200 }, "openai/gpt-4o-mini");
+  assert.deepStrictEqual(budget.messages.map((m) => m.content.split(" ")[1]), ["4", "5"]);
+  assert.deepStrictEqual([budget.record.history_tokens, budget.record.dropped], [196, 4]);
+}
+
+function testSessions() {
+  const user = `sess-${crypto.randomUUID().slice(0, 8)}`;
+  const sid = createSession(user, "support-bot", "cheap-fast");
+  ["hi", "hello", "reset my password", "done"].forEach((c, i) => addMessage(sid, i % 2 ? "assistant" : "user", c));
+  writeReceipt({ policy: "cheap-fast", route_primary: "m", route_final: "m", fallback_count: 0, latency_ms: 5, usage: { prompt: 1, completion: 1, cost: 0 }, task_id: sid });
+  const listed = listSessions({ user });
+  assert.deepStrictEqual(listed.map((r) => [r.id, r.messages]), [[sid, 4]]);
+  const view = showSession(sid);
+  assert.strictEqual(view.receipts.length, 1, "receipts linked by task_id");
+  assert(exportSession(sid, "md").includes("## Assistant\n\n_"), "markdown transcript");
+  assert.strictEqual(JSON.parse(exportSession(sid, "json")).messages.length, 4);
+
+  const fork = forkSession(sid, view.messages[1].id);
+  assert.strictEqual(fork.messages, 2);
+  assert.deepStrictEqual(showSession(fork.id).messages.map((m) => m.content), ["hi", "hello"]);
+  assert.strictEqual(showSession(fork.id).session.forked_from, sid);
+  assert.throws(() => forkSession(sid, "nope"), (e: any) => e?.tag === "CONFIG");
+
+  assert.throws(() => staleSessionIds("yesterday"), /Invalid --before/, "unparseable --before is rejected");
+  assert(staleSessionIds("2000-01-01").every((id) => id !== sid), "normalized date only matches older sessions");
+  assert(staleSessionIds("2999-01-01T00:00:00+05:00").includes(sid), "offsets are normalized to ISO");
+  assert.deepStrictEqual(deleteSessions([sid, fork.id]), { sessions: 2, messages: 6 });
+  assert.strictEqual((db.prepare(`SELECT COUNT(*) AS n FROM messages WHERE session_id IN (?, ?)`).get(sid, fork.id) as any).n, 0);
+  assert.strictEqual(getReceipt(view.receipts[0].id) != null, true, "receipts are kept");
+}
+
+function testAgentDefinitions() {
+  const name = `test-agent-${crypto.randomUUID().slice(0, 8)}`;
+  const file = createAgent(name, "cheap-fast", "Classify.", {
+    gen: { temperature: 0, stop: ["END"] },
+    output_schema: { type: "object", required: ["intent"] },
+    attachments: { paths: ["README.md"] },
+    memory: { strategy: "token_budget", max_tokens: 1000 },
+    tools: ["sql_query"],
+  });
+  try {
+    const a = loadAgent(name);
+    assert.deepStrictEqual(a.gen, { temperature: 0, stop: ["END"] });
+    assert.deepStrictEqual([a.memory.strategy, a.memory.max_tokens, a.memory.max_messages], ["token_budget", 1000, 50], "memory defaults filled in");
+    assert.deepStrictEqual([a.attachments?.paths, a.tools], [["README.md"], ["sql_query"]]);
+    assert(describeAgents().some((d) => d.name === name && d.agent?.output_schema), "listed with its definition");
+    assert.throws(() => createAgent(name, "cheap-fast", "x", { force: true, memory: { strategy: "forever" as any } }), (e: any) => e?.tag === "CONFIG");
+    assert.strictEqual(loadAgent(name).memory.strategy, "token_budget", "invalid definitions are not written");
+    assert.throws(() => createAgent(name, "cheap-fast", "x", { force: true, tools: ["sql_qurey"] }), (e: any) => e?.tag === "CONFIG" && /unknown tool\(s\) sql_qurey/.test(e.message));
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+async function testSubAgentTools() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "routepilot-tools-"));
+  const ctx = (context: Record<string, any> = {}) => ({ taskId: "t", agent: "ToolTest", context, calls: 0 });
+  try {
+    // sql_query: read-only, single statement, row cap
+    const file = path.join(dir, "orders.db");
+    const seed = new Database(file);
+    seed.exec("CREATE TABLE orders(id TEXT, status TEXT); INSERT INTO orders VALUES ('A-1','shipped'),('A-2','open'),('A-3','open');");
+    seed.close();
+    const sql = getTool("sql_query");
+    process.env.SQL_QUERY_MAX_ROWS = "2";
+    const r: any = await sql.run({ sql: "SELECT id FROM orders WHERE status = ? OR 1", params: ["open"] }, ctx({ sql_query: { db: file } }));
+    assert.deepStrictEqual([r.rows.length, r.truncated, r.columns], [2, true, ["id"]], "row cap applied");
+    delete process.env.SQL_QUERY_MAX_ROWS;
+    await assert.rejects(sql.run({ sql: "DELETE FROM orders" }, ctx({ sql_query: { db: file } })), /read-only/);
+    await assert.rejects(sql.run({ sql: "SELECT 1; DROP TABLE orders" }, ctx({ sql_query: { db: file } })), /Invalid SQL/);
+    await assert.rejects(sql.run({ sql: "SELECT 1" }, ctx()), /no database configured/);
+
+    // file_read: only under FILE_READ_ALLOWLIST, symlinks resolved first
+    const docs = path.join(dir, "docs");
+    fs.mkdirSync(docs);
+    fs.writeFileSync(path.join(docs, "faq.md"), "Returns are free within 30 days.");
+    fs.writeFileSync(path.join(dir, "secret.txt"), "nope");
+    fs.symlinkSync(path.join(dir, "secret.txt"), path.join(docs, "link.txt"));
+    process.env.FILE_READ_ALLOWLIST = docs;
+    const read = getTool("file_read");
+    const f: any = await read.run({ path: "faq.md" }, ctx());
+    assert(/30 days/.test(f.text) && f.bytes > 0, "relative path resolved against the allowlist");
+    await assert.rejects(read.run({ path: path.join(docs, "..", "secret.txt") }, ctx()), /outside the allowed/);
+    await assert.rejects(read.run({ path: "link.txt" }, ctx()), /outside the allowed/, "symlink out of the sandbox rejected");
+    // Paths outside the sandbox fail alike whether or not they exist, and relative paths never fall back to the cwd
+    await assert.rejects(read.run({ path: path.join(dir, "missing.txt") }, ctx()), /outside the allowed/);
+    await assert.rejects(read.run({ path: "../secret.txt" }, ctx()), /outside the allowed/);
+    await assert.rejects(read.run({ path: "README.md" }, ctx()), /not found/, "cwd is not searched");
+    process.env.FILE_READ_MAX_BYTES = "5";
+    await assert.rejects(read.run({ path: "faq.md" }, ctx()), /maxBytes/);
+    delete process.env.FILE_READ_MAX_BYTES;
+    delete process.env.FILE_READ_ALLOWLIST;
+    await assert.rejects(read.run({ path: "faq.md" }, ctx()), /disabled/);
+
+    // json_path
+    const data = { orders: [{ id: "A-1", total: 10, tags: ["gift"] }, { id: "A-2", total: 25 }, { id: "A-3", total: 40, status: "open" }] };
+    assert.deepStrictEqual(evaluateJsonPath(data, "$.orders[?(@.total > 20)].id"), ["A-2", "A-3"]);
+    assert.deepStrictEqual(evaluateJsonPath(data, "$.orders[-1]['id']"), ["A-3"]);
+    assert.deepStrictEqual(evaluateJsonPath(data, "$.orders[0:2].total"), [10, 25]);
+    assert.deepStrictEqual(evaluateJsonPath(data, "$..tags[*]"), ["gift"]);
+    assert.deepStrictEqual(evaluateJsonPath(data, "$.orders[?(@.status)].id"), ["A-3"]);
+    const jp: any = await getTool("json_path").run({ data: JSON.stringify(data), path: "$.orders[*].id" }, ctx());
+    assert.deepStrictEqual([jp.matches, jp.truncated], [["A-1", "A-2", "A-3"], false], "string data parsed");
+    // Repeated `..*` stays bounded: containers are expanded once per step, and the node cap stops the rest
+    const nested = JSON.parse(JSON.stringify(Array.from({ length: 12 }, (_, i) => [i, [i, [i, [i, { v: [i, i] }]]]])));
+    const t0 = Date.now();
+    assert(evaluateJsonPath(nested, "$..*..*..*..*..*..*").length < 2000, "descendant sets deduped");
+    assert(Date.now() - t0 < 1000, "repeated ..* evaluates quickly");
+    assert.throws(() => evaluateJsonPath(nested, "$..*..*..*", 500), /JSON_PATH_MAX_NODES/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function testSchemaValidation() {
+  const schema = {
+    type: "object",
+    $defs: { record: { type: "object", properties: { id: { type: "string", pattern: "^A-\\d+$" }, qty: { type: "integer", minimum: 1 } }, required: ["id"], additionalProperties: false } },
+    properties: {
+      records: { type: "array", items: { $ref: "#/$defs/record" }, minItems: 1, uniqueItems: true },
+      status: { enum: ["open", "closed"] },
+      email: { type: "string", format: "email" },
+      when: { type: "string", format: "date-time" },
+      pair: { type: "array", prefixItems: [{ type: "string" }, { type: "number" }], items: false },
+    },
+    required: ["records"],
+  };
+  const ok = validateAgainstSchema(schema, { records: [{ id: "A-1", qty: 2 }], status: "open", email: "a@b.co", when: "2026-01-02T03:04:05Z", pair: ["x", 1] });
+  assert(ok.ok, ok.errors.join("; "));
+  const bad = validateAgainstSchema(schema, { records: [{ id: "B-1", qty: 0, extra: true }, { qty: 1.5 }], status: "pending", email: "nope", when: "yesterday", pair: ["x", 1, 2] });
+  assert.deepStrictEqual(bad.errors, [
+    "$.records[0].id: must match pattern ^A-\\d+$",
+    "$.records[0].qty: must be >= 1",
+    "$.records[0]: unexpected property 'extra'",
+    "$.records[1]: missing required property 'id'",
+    "$.records[1].qty: expected integer, got non-integer number",
+    "$.status: must be one of [\"open\",\"closed\"]",
+    "$.email: must be a valid email",
+    "$.when: must be a valid date-time",
+    "$.pair[2]: no value is allowed here",
+  ]);
+  assert.deepStrictEqual(validateAgainstSchema(schema, { records: [] }).errors, ["$.records: must have at least 1 items"]);
+
+  // Combinators, conditionals and unevaluatedProperties
+  const shape = {
+    oneOf: [{ properties: { kind: { const: "a" } }, required: ["kind"] }, { properties: { kind: { const: "b" }, size: { type: "number" } }, required: ["kind", "size"] }],
+    if: { properties: { kind: { const: "b" } } }, then: { properties: { size: { maximum: 10 } } },
+    unevaluatedProperties: false,
+  };
+  assert(validateAgainstSchema(shape, { kind: "b", size: 3 }).ok, "size is evaluated by the matching oneOf branch");
+  assert.deepStrictEqual(validateAgainstSchema(shape, { kind: "a", size: 3 }).errors, ["$: unexpected property 'size'"]);
+  assert.deepStrictEqual(validateAgainstSchema(shape, { kind: "b", size: 30 }).errors, ["$.size: must be <= 10"]);
+  assert(/exactly one/.test(validateAgainstSchema(shape, { kind: "c" }).errors[0]));
+}
+
 async function main() {
   await testPolicyParsing();
   testP95Calc();
@@ -116,6 +602,23 @@ async function main() {
   testUsageHeaders();
   testRecentSampleCount();
   testRedaction();
+  testChainPlan();
+  testExpandEnv();
+  testRetryOn();
+  testCostCeiling();
+  testProviderTranslation();
+  testCircuitBreaker();
+  testReceiptChain();
+  testReceiptSigningKeys();
+  testReceiptExport();
+  await testReport();
+  testQuotaBudgets();
+  testTokenizer();
+  await testSessionMemory();
+  testSessions();
+  testAgentDefinitions();
+  await testSubAgentTools();
+  testSchemaValidation();
   console.log("tests OK");
 }
 
@@ -1,42 +1,39 @@
 import crypto from "node:crypto";
 import db from "./db.js";
 import { loadAgent } from "./agents.js";
+import { loadSessionHistory } from "./memory.js";
+import { createSession, getSession, addMessage } from "./sessions.js";
 import { loadPolicy } from "./policy.js";
-import { addDailyTokens, assertWithinRpm } from "./quotas.js";
+import { assertWithinRpm, reserveQuota, reservationAmount, settleQuota, releaseQuota } from "./quotas.js";
 import { estimateCost } from "./rates.js";
-import { runWithFallback } from "./router.js";
+import { runWithFallback, routeOptionsFor } from "./router.js";
 import { streamSSEToBufferAndStdout } from "./util/stream.js";
 import { buildAttachmentMessage, AttachOpts } from "./util/files.js";
-import { writeReceipt } from "./receipts.js";
+import { writeReceipt, writeFailureReceipt, routeExtras } from "./receipts.js";
 import { sha256Hex } from "./util/hash.js";
+import { estimatePromptTokens, probeUsageFromJSON, resolveUsage, ResolvedUsage, UsageCounts } from "./util/usage.js";
+import { RouterError } from "./util/errors.js";
+import { safeLastJson } from "./util/json.js";
+import { validateAgainstSchema } from "./subagents/validate.js";
+import { executeToolCall, toolDefinitions } from "./subagents/tools/registry.js";
+import type { ChatMessage, ToolCall } from "./gateway.js";
 
-function uuid() { return crypto.randomUUID(); }
+const DEFAULT_MAX_TOOL_STEPS = 4;
+const TOOL_INSTRUCTION = "Call the provided tools when you need data you do not have, then answer the user.";
 
-function createSession(userRef: string, agentName: string, policy: string) {
-  const id = uuid();
-  db.prepare(
-    `INSERT INTO sessions(id, created_at, user_ref, agent, policy) VALUES(?,?,?,?,?)`
-  ).run(id, new Date().toISOString(), userRef, agentName, policy);
-  return id;
-}
-
-function getSession(sessionId: string) {
-  return db.prepare(`SELECT * FROM sessions WHERE id=?`).get(sessionId);
-}
+function uuid() { return crypto.randomUUID(); }
 
-function listMessages(sessionId: string, limit = 50) {
-  return db
-    .prepare(
-      `SELECT role, content FROM messages WHERE session_id=? ORDER BY ts DESC LIMIT ?`
-    )
-    .all(sessionId, limit)
-    .reverse() as { role: string; content: string }[];
+function schemaInstruction(schema: Record<string, unknown>): string {
+  return `Reply with a single JSON object (no markdown fences) that matches this JSON Schema:\n${JSON.stringify(schema)}`;
 }
 
-function addMessage(sessionId: string, role: string, content: string) {
-  db.prepare(
-    `INSERT INTO messages(id, session_id, role, content, ts) VALUES(?,?,?,?,?)`
-  ).run(uuid(), sessionId, role, content, new Date().toISOString());
+// Light check of a reply against the agent's output_schema (warn only, as for sub-agents)
+function checkOutput(schema: Record<string, unknown>, text: string): { ok: boolean; errors: string[] } {
+  try {
+    return validateAgainstSchema(schema, safeLastJson(text));
+  } catch {
+    return { ok: false, errors: ["reply is not JSON"] };
+  }
 }
 
 export async function runAgent({
@@ -76,19 +73,41 @@ export async function runAgent({
   // RPM check
   assertWithinRpm(userRef, policy.tenancy.per_user_rpm);
 
-  // Build message history
-  const history = listMessages(sessionId!, 50);
-  const messages: { role: "system" | "user" | "assistant"; content: string }[] = [
-    { role: "system", content: agent.system },
-    ...history.map((m) => ({ role: m.role as any, content: m.content })),
+  // Build message history per the agent's memory strategy (may write a summary through the summary policy;
+  // that call reserves and settles its own quota)
+  const history = await loadSessionHistory(sessionId!, agent.memory, policy.routing.primary[0], debug, { userRef, tenancy: policy.tenancy });
+  // Tools named in the agent YAML, offered on each call of the turn's tool loop
+  const toolDefs = toolDefinitions(agent.tools);
+  const maxSteps = agent.max_tool_steps ?? DEFAULT_MAX_TOOL_STEPS;
+  const system = agent.output_schema ? `${agent.system}\n\n${schemaInstruction(agent.output_schema)}` : agent.system;
+  const messages: ChatMessage[] = [
+    { role: "system", content: toolDefs.length ? `${system}\n${TOOL_INSTRUCTION}` : system },
+    ...history.messages,
     { role: "user", content: input },
   ];
+  // Agent default attachments come first; CLI flags override their options
+  const defaults = agent.attachments;
+  const paths = [...(defaults?.paths ?? []), ...(attach ?? [])];
   let attachmentBlock: string | undefined;
-  if (attach && attach.length) {
-    attachmentBlock = await buildAttachmentMessage(attach, attachOpts ?? {});
+  if (paths.length) {
+    attachmentBlock = await buildAttachmentMessage(paths, {
+      maxChars: attachOpts?.maxChars ?? defaults?.max_chars,
+      pdfPages: attachOpts?.pdfPages ?? defaults?.pdf_pages,
+      csvMaxRows: attachOpts?.csvMaxRows ?? defaults?.csv_max_rows,
+      csvCols: attachOpts?.csvCols ?? defaults?.csv_cols,
+    });
     messages.push({ role: "user", content: attachmentBlock });
   }
 
+  // Agent gen over policy gen; an output schema implies JSON mode
+  const { max_tokens: agentMaxTokens, ...agentGen } = agent.gen ?? {};
+  const gen = { ...(policy.gen || {}), ...agentGen, ...(agent.output_schema ? { json_mode: true } : {}) };
+  const maxTokens = Math.min(agentMaxTokens ?? policy.objectives.max_tokens ?? 1024, policy.objectives.max_tokens ?? 1024, 2048);
+  // With tools a turn may take up to max_tool_steps + 1 model calls; the reservation holds the worst case of each
+  const modelCalls = toolDefs.length ? maxSteps + 1 : 1;
+  const perCall = reservationAmount([...policy.routing.primary, ...policy.routing.backups], estimatePromptTokens(messages, policy.routing.primary[0]), maxTokens);
+  const reservation = reserveQuota(userRef, { tokens: perCall.tokens * modelCalls, usd: perCall.usd * modelCalls }, policy.tenancy);
+
   addMessage(sessionId!, "user", input);
 
   let captured = "";
@@ -96,55 +115,110 @@ export async function runAgent({
     captured = await streamSSEToBufferAndStdout(res, onFirstChunk);
   };
 
+  // Tool loop, as for sub-agents: while the model asks for tools (and steps remain) the calls run, their results
+  // are appended as `tool` messages and the model is called again; the last step goes out without tools.
+  const totals = { prompt: 0, completion: 0, cost: 0, fallbacks: 0 };
+  const reasons: string[] = [];
+  const allToolCalls: ToolCall[] = [];
+  const toolResults: Array<{ name: string; call_id: string; ok: boolean; error?: string; result?: Record<string, unknown> }> = [];
+  const callsByTool = new Map<string, number>();
+  let step = 0;
+  let firstTokenMs: number | null | undefined;
+  let source: ResolvedUsage["source"] = { prompt: "estimated", completion: "estimated" };
+  let routed: Awaited<ReturnType<typeof runWithFallback>>;
+
   const start = Date.now();
-  const { routeFinal, fallbackCount, latency, firstTokenMs, reasons, usagePrompt, usageCompletion } = await runWithFallback(
-    { primary: policy.routing.primary, backups: policy.routing.backups },
-    policy.objectives.p95_latency_ms,
-    policy.routing.p95_window_n,
-    messages,
-    Math.min(policy.objectives.max_tokens ?? 1024, 2048),
-    policy.strategy.fallback_on_latency_ms ?? 1500,
-    policy.strategy.max_attempts,
-    policy.strategy.backoff_ms,
-    policy.strategy.first_chunk_gate_ms,
-    policy.strategy.escalate_after_fallbacks,
-    policy.gen ?? undefined,
-    policy.routing.params ?? undefined,
-    handler,
-    undefined,
-    !!debug
-  );
+  while (true) {
+    const offerTools = toolDefs.length > 0 && step < maxSteps;
+    const sent = [...messages];
+    routed = await runWithFallback(
+      { primary: policy.routing.primary, backups: policy.routing.backups },
+      policy.objectives.p95_latency_ms,
+      policy.routing.p95_window_n,
+      sent,
+      maxTokens,
+      policy.strategy.fallback_on_latency_ms ?? 1500,
+      policy.strategy.max_attempts,
+      policy.strategy.backoff_ms,
+      policy.strategy.first_chunk_gate_ms,
+      policy.strategy.escalate_after_fallbacks,
+      gen,
+      policy.routing.params ?? undefined,
+      handler,
+      undefined,
+      !!debug,
+      { ...routeOptionsFor(policy), ...(offerTools ? { tools: toolDefs, toolChoice: "auto" as const } : {}) }
+    ).catch((e) => {
+      // Earlier steps of the loop already ran and are charged; a failed first call holds nothing
+      if (step) settleQuota(reservation, totals.prompt + totals.completion, totals.cost);
+      else releaseQuota(reservation);
+      if (receiptsPerMessage && e instanceof RouterError) {
+        const last = db.prepare("SELECT id FROM receipts WHERE task_id=? ORDER BY ts DESC LIMIT 1").get(sessionId!) as { id: string } | undefined;
+        writeFailureReceipt({
+          policy: policy.policy,
+          route_primary: policy.routing.primary[0],
+          task_id: sessionId!,
+          parent_id: last?.id || undefined,
+          prompt_hash: sha256Hex(input + (attachmentBlock ? `\n\n${attachmentBlock}` : "")),
+          policy_hash: sha256Hex(JSON.stringify(policy)),
+          ...(toolResults.length ? { extras: { tool_results: toolResults, tool_loop: { steps: step } } } : {}),
+        }, e);
+      }
+      throw e;
+    });
+    step++;
+    if (firstTokenMs === undefined) firstTokenMs = routed.firstTokenMs;
+    totals.fallbacks += routed.fallbackCount;
+    reasons.push(...routed.reasons);
 
-  addMessage(sessionId!, "assistant", captured);
+    // Optional usage probe for prompt tokens if missing
+    let probe: UsageCounts | null = null;
+    if (usageProbe && routed.usagePrompt == null) {
+      const perModel = (policy.routing.params || {})[routed.routeFinal] || {};
+      const merged = { ...gen, ...perModel } as any;
+      probe = await probeUsageFromJSON({ model: routed.routeFinal, messages: sent, max_tokens: 1, ...(merged.temperature != null ? { temperature: merged.temperature } : {}), ...(merged.top_p != null ? { top_p: merged.top_p } : {}), ...(merged.stop ? { stop: merged.stop } : {}), ...(merged.json_mode ? { response_format: { type: "json_object" } } : {}) });
+    }
+    const usage = resolveUsage(routed.routeFinal, sent, captured + routed.toolCalls.map((c) => c.function.arguments).join(""), { prompt: routed.usagePrompt, completion: routed.usageCompletion, via: routed.usageVia }, { prompt: probe?.prompt });
+    totals.prompt += usage.prompt;
+    totals.completion += usage.completion;
+    totals.cost += estimateCost(routed.routeFinal, usage.prompt, usage.completion) + (routed.hedge?.loser_cost_usd ?? 0);
+    source = usage.source;
 
-  const usage = { prompt: usagePrompt ?? 300, completion: usageCompletion ?? 200 };
-  // Optional usage probe for prompt tokens if missing
-  if (usageProbe && usagePrompt == null) {
-    const perModel = (policy.routing.params || {})[routeFinal] || {};
-    const merged = { ...(policy.gen || {}), ...perModel } as any;
-    const { probeUsageFromJSON } = await import("./util/usage.js");
-    const probe = await probeUsageFromJSON({ model: routeFinal, messages, max_tokens: 1, ...(merged.temperature != null ? { temperature: merged.temperature } : {}), ...(merged.top_p != null ? { top_p: merged.top_p } : {}), ...(merged.stop ? { stop: merged.stop } : {}), ...(merged.json_mode ? { response_format: { type: "json_object" } } : {}) });
-    if (probe?.prompt != null) usage.prompt = probe.prompt;
-    if (usage.completion == null && probe?.completion != null) usage.completion = probe.completion;
+    if (!offerTools || !routed.toolCalls.length) break;
+    allToolCalls.push(...routed.toolCalls);
+    messages.push({ role: "assistant", content: captured, tool_calls: routed.toolCalls });
+    for (const call of routed.toolCalls) {
+      const r = await executeToolCall(call, agent.tools, { taskId: sessionId!, agent: agent.agent, context: agent.tool_context ?? {} }, callsByTool);
+      toolResults.push({ name: call.function.name, call_id: call.id, ok: !r.error, ...(r.error ? { error: r.error } : {}), ...(r.summary ? { result: r.summary } : {}) });
+      messages.push({ role: "tool", tool_call_id: call.id, content: r.content });
+      if (process.stderr.isTTY) process.stderr.write(`\n[tool] ${agent.agent} → ${call.function.name} ${r.error ? `failed: ${r.error}` : "ok"}\n`);
+    }
   }
-  const cost = estimateCost(routeFinal, usage.prompt, usage.completion);
-  addDailyTokens(
-    userRef,
-    usage.prompt + usage.completion,
-    policy.tenancy.per_user_daily_tokens,
-    policy.tenancy.timezone
-  );
+  const { routeFinal, finishReason, preflight, circuitOpen, hedge } = routed;
+  // One call: its route latency; with tool steps, the whole turn
+  const latency = step === 1 ? routed.latency : Date.now() - start;
+  const fallbackCount = totals.fallbacks;
+  const cost = totals.cost;
+  const usage = { prompt: totals.prompt, completion: totals.completion, source };
+  const stopped = toolDefs.length && step > maxSteps ? "max_steps" : "answer";
+
+  addMessage(sessionId!, "assistant", captured);
+  const outputCheck = agent.output_schema ? checkOutput(agent.output_schema, captured) : undefined;
+  if (outputCheck && !outputCheck.ok) process.stderr.write(`\n[validate] ${agent.agent} output schema warnings: ${outputCheck.errors.join("; ")}\n`);
+
+  settleQuota(reservation, usage.prompt + usage.completion, cost);
 
   process.stderr.write(
-    `\n[session ${sessionId}] route=${routeFinal} fallbacks=${fallbackCount} latency=${latency}ms\n`
+    `\n[session ${sessionId}] route=${routeFinal} fallbacks=${fallbackCount} latency=${latency}ms memory=${history.record.strategy}\n`
   );
 
   // Optional per-message receipt for session turns
+  let rid: string | undefined;
   if (receiptsPerMessage) {
     const includeSnapshot = process.env.ROUTEPILOT_SNAPSHOT_INPUT === '1';
     const last = db.prepare("SELECT id FROM receipts WHERE task_id=? ORDER BY ts DESC LIMIT 1").get(sessionId!) as { id: string } | undefined;
     const policyHash = sha256Hex(JSON.stringify(policy));
-    const rid = writeReceipt({
+    rid = writeReceipt({
       policy: policy.policy,
       route_primary: policy.routing.primary[0],
       route_final: routeFinal,
@@ -153,23 +227,29 @@ export async function runAgent({
       latency_ms: latency,
       first_token_ms: firstTokenMs ?? null,
       reasons,
-      usage: { prompt: usage.prompt, completion: usage.completion, cost: estimateCost(routeFinal, usage.prompt, usage.completion) },
+      usage: { prompt: usage.prompt, completion: usage.completion, cost, source: usage.source },
       task_id: sessionId!,
       parent_id: last?.id || undefined,
       prompt_hash: sha256Hex(input + (attachmentBlock ? `\n\n${attachmentBlock}` : "")),
       policy_hash: policyHash,
-      extras: includeSnapshot ? { input_snapshot: input, attachments_snapshot: attachmentBlock, assistant_snapshot: captured } : undefined,
+      extras: {
+        ...(includeSnapshot ? { input_snapshot: input, attachments_snapshot: attachmentBlock, assistant_snapshot: captured } : {}),
+        ...routeExtras({ preflight, circuitOpen, hedge, finishReason, toolCalls: allToolCalls }, cost, policy.objectives.max_cost_usd),
+        ...(toolDefs.length ? { tool_loop: { steps: step, stopped }, ...(toolResults.length ? { tool_results: toolResults } : {}) } : {}),
+        memory: history.record,
+        ...(outputCheck ? { output_schema: { ok: outputCheck.ok, errors: outputCheck.errors } } : {}),
+      },
     });
     // Print receipt id for visibility
     process.stderr.write(` [receipt ${rid}]`);
   }
 
-  // Record trace for p95 routing decisions (per model)
+  // Record trace for p95 routing decisions (per model); it shares the receipt's id so `report` counts the turn once
   db.prepare(
     `INSERT INTO traces(id, ts, user_ref, policy, route_primary, route_final, latency_ms, tokens, cost_usd)
      VALUES(?,?,?,?,?,?,?,?,?)`
   ).run(
-    uuid(),
+    rid ?? uuid(),
     new Date(start).toISOString(),
     userRef,
     policy.policy,
@@ -2,19 +2,76 @@ import fs from "node:fs";
 import path from "node:path";
 import * as yaml from "yaml";
 import { z } from "zod";
+import { ConfigError } from "./util/errors.js";
+import { listTools } from "./subagents/tools/registry.js";
+
+// How much session history each turn sends (see src/memory.ts)
+const MemorySchema = z.object({
+  strategy: z.enum(["window", "token_budget", "summarize"]).default("window"),
+  max_messages: z.number().int().positive().default(50),   // window: most recent messages sent verbatim
+  max_tokens: z.number().int().positive().default(4096),   // token_budget/summarize: history budget (summary included)
+  keep_recent: z.number().int().nonnegative().default(6),  // summarize: newest messages never folded into the summary
+  summary_policy: z.string().default("cheap-fast"),        // summarize: policy that writes the summary
+  summary_max_tokens: z.number().int().positive().default(400),
+});
 
 const AgentSchema = z.object({
   agent: z.string(),
   policy: z.string(),
   system: z.string(),
+  // Merged over the policy's `gen` for this agent's calls; max_tokens is capped by objectives.max_tokens
+  gen: z
+    .object({
+      temperature: z.number().min(0).max(2).optional(),
+      top_p: z.number().min(0).max(1).optional(),
+      stop: z.array(z.string()).optional(),
+      json_mode: z.boolean().optional(),
+      max_tokens: z.number().int().positive().optional(),
+    })
+    .optional(),
+  // JSON Schema for replies: turns on JSON mode, is appended to the system prompt and checked after each turn
+  output_schema: z.record(z.any()).optional(),
+  // Files attached to every turn, before any --attach paths; options are overridden by the CLI flags
+  attachments: z
+    .object({
+      paths: z.array(z.string()).default([]),
+      max_chars: z.number().int().positive().optional(),
+      pdf_pages: z.string().optional(),
+      csv_max_rows: z.number().int().positive().optional(),
+      csv_cols: z.string().optional(),
+    })
+    .optional(),
+  memory: MemorySchema.default({}),
+  // Registered tools the model may call during a turn (see src/subagents/tools/registry.ts)
+  tools: z.array(z.string()).default([]),
+  max_tool_steps: z.number().int().positive().optional(), // model calls that may request tools (default 4)
+  tool_context: z.record(z.any()).optional(),              // handed to tools as their context (e.g. sql_query.db)
 });
 
 export type AgentDef = z.infer<typeof AgentSchema>;
+export type MemoryConfig = AgentDef["memory"];
+// What an agent YAML may set besides agent/policy/system, as written (defaults not filled in)
+export type AgentOptions = Partial<Pick<z.input<typeof AgentSchema>, "gen" | "output_schema" | "attachments" | "memory" | "tools" | "max_tool_steps" | "tool_context">>;
+
+function parseAgent(doc: unknown, file: string): AgentDef {
+  const parsed = AgentSchema.safeParse(doc);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new ConfigError(`Invalid agent ${file}: ${issues}`);
+  }
+  const known = listTools().map((t) => t.name);
+  const unknown = parsed.data.tools.filter((t) => !known.includes(t));
+  if (unknown.length) {
+    throw new ConfigError(`Invalid agent ${file}: tools: unknown tool(s) ${unknown.join(", ")}`, `Registered tools: ${known.join(", ") || "none"}.`);
+  }
+  return parsed.data;
+}
 
 export function loadAgent(name: string): AgentDef {
   const file = path.join("agents", `${name}.yaml`);
+  if (!fs.existsSync(file)) throw new ConfigError(`Unknown agent '${name}' (no ${file})`, "Run `routepilot agents:list` to see available agents.");
   const raw = fs.readFileSync(file, "utf8");
-  return AgentSchema.parse(yaml.parse(raw));
+  return parseAgent(yaml.parse(raw), file);
 }
 
 export function listAgents(): string[] {
@@ -23,14 +80,27 @@ export function listAgents(): string[] {
   return fs
     .readdirSync(dir)
     .filter((f) => f.endsWith(".yaml"))
-    .map((f) => f.replace(/\.yaml$/, ""));
+    .map((f) => f.replace(/\.yaml$/, ""))
+    // agents/agents.yaml is the sub-agent registry, not a chat agent
+    .filter((name) => name !== "agents");
+}
+
+// One line of `agents:list` per agent; files that fail to parse are reported instead of hidden
+export function describeAgents(): Array<{ name: string; agent?: AgentDef; error?: string }> {
+  return listAgents().map((name) => {
+    try {
+      return { name, agent: loadAgent(name) };
+    } catch (e: any) {
+      return { name, error: e?.message ?? String(e) };
+    }
+  });
 }
 
 export function createAgent(
   name: string,
   policy: string,
   system: string,
-  opts?: { force?: boolean }
+  opts?: { force?: boolean } & AgentOptions
 ) {
   const dir = "agents";
   if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
@@ -38,7 +108,10 @@ export function createAgent(
   if (fs.existsSync(file) && !opts?.force) {
     throw new Error(`agents/${name}.yaml already exists (use --force to overwrite)`);
   }
-  const doc = { agent: name, policy, system };
+  const { force: _force, ...extras } = opts ?? {};
+  const doc: Record<string, unknown> = { agent: name, policy, system };
+  for (const [k, v] of Object.entries(extras)) if (v !== undefined) doc[k] = v;
+  parseAgent(doc, file);
   fs.writeFileSync(file, yaml.stringify(doc));
   return file;
 }
@@ -0,0 +1,82 @@
+import db from "./db.js";
+
+// Per-model circuit breaker. State lives in SQLite so separate CLI invocations share it.
+// closed: calls flow, outcomes are counted; open: model is skipped until cool_down_ms passes;
+// half_open: a single probe is let through and its outcome closes or re-opens the circuit.
+
+export type CircuitConfig = {
+  failure_rate: number;
+  min_calls: number;
+  window: number;
+  cool_down_ms: number;
+};
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+type Row = { model: string; state: CircuitState; since: number };
+
+function stateRow(model: string): Row | undefined {
+  return db.prepare("SELECT model, state, since FROM circuit_state WHERE model=?").get(model) as Row | undefined;
+}
+
+function setState(model: string, state: CircuitState, now: number) {
+  db.prepare(
+    "INSERT INTO circuit_state(model, state, since) VALUES(?,?,?) ON CONFLICT(model) DO UPDATE SET state=excluded.state, since=excluded.since"
+  ).run(model, state, now);
+}
+
+// True when the model may be tried: closed, or open/half_open past its cool-down. Read-only, so building
+// a route list never uses up a probe for a model that may not be attempted.
+export function circuitAllows(model: string, cfg: CircuitConfig, now = Date.now()): boolean {
+  const row = stateRow(model);
+  return !row || row.state === "closed" || row.since <= now - cfg.cool_down_ms;
+}
+
+// Call just before an attempt runs. Closed circuits pass; past the cool-down the circuit moves to half_open and
+// only the caller that wins that transition gets the probe (a stale probe is re-issued after another cool-down).
+export function claimCircuit(model: string, cfg: CircuitConfig, now = Date.now()): boolean {
+  const row = stateRow(model);
+  if (!row || row.state === "closed") return true;
+  const claimed = db
+    .prepare("UPDATE circuit_state SET state='half_open', since=? WHERE model=? AND state IN ('open','half_open') AND since<=?")
+    .run(now, model, now - cfg.cool_down_ms);
+  return claimed.changes === 1;
+}
+
+// Record one attempt outcome; returns the state after the transition (if any)
+export function recordCircuitOutcome(model: string, ok: boolean, cfg: CircuitConfig, now = Date.now()): CircuitState {
+  db.prepare("INSERT INTO circuit_events(model, ts, ok) VALUES(?,?,?)").run(model, now, ok ? 1 : 0);
+  db.prepare(
+    "DELETE FROM circuit_events WHERE model=? AND rowid NOT IN (SELECT rowid FROM circuit_events WHERE model=? ORDER BY ts DESC, rowid DESC LIMIT ?)"
+  ).run(model, model, cfg.window);
+
+  const row = stateRow(model);
+  if (row?.state === "half_open") {
+    const next: CircuitState = ok ? "closed" : "open";
+    setState(model, next, now);
+    return next;
+  }
+  if (row?.state === "open") return "open"; // late result from a call started before the circuit opened
+
+  // Only outcomes since the circuit last closed count towards the failure rate
+  const stats = db
+    .prepare(
+      "SELECT COUNT(*) as n, COALESCE(SUM(CASE WHEN ok=0 THEN 1 ELSE 0 END),0) as failures FROM circuit_events WHERE model=? AND ts>=?"
+    )
+    .get(model, row?.since ?? 0) as { n: number; failures: number };
+  if (stats.n >= cfg.min_calls && stats.failures / stats.n >= cfg.failure_rate) {
+    setState(model, "open", now);
+    return "open";
+  }
+  if (!row) setState(model, "closed", 0);
+  return "closed";
+}
+
+export function resetCircuit(model?: string) {
+  if (model) {
+    db.prepare("DELETE FROM circuit_state WHERE model=?").run(model);
+    db.prepare("DELETE FROM circuit_events WHERE model=?").run(model);
+  } else {
+    db.exec("DELETE FROM circuit_state; DELETE FROM circuit_events;");
+  }
+}
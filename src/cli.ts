@@ -2,14 +2,20 @@
 import "dotenv/config";
 import { Command } from "commander";
 import fs from "node:fs";
+import * as yaml from "yaml";
 import { createRequire } from "node:module";
 import { infer } from "./infer.js";
 import { usageSummary } from "./quotas.js";
-import { getReceipt, listReceipts, timelineForTask, listTasks } from "./receipts.js";
+import { loadPolicy } from "./policy.js";
+import { getReceipt, listReceipts, timelineForTask, listTasks, verifyReceipt, verifyAllReceipts } from "./receipts.js";
 import { runAgent } from "./agent.js";
-import { listAgents, createAgent } from "./agents.js";
+import { describeAgents, createAgent } from "./agents.js";
+import { getSession, listSessions, showSession, formatSessionTranscript, exportSession, forkSession, deleteSessions, staleSessionIds, SessionExportFormat } from "./sessions.js";
 import { planChain, runChain } from "./subagents/run.js";
-import { printFriendlyError } from "./util/errors.js";
+import { printFriendlyError, ConfigError } from "./util/errors.js";
+import { exportReceipts, ExportFormat } from "./export.js";
+import { buildReport, formatReport, REPORT_DIMENSIONS, ReportDimension } from "./report.js";
+import { rotateSigningKey, listSigningKeys, exportPublicKeys, keysDir } from "./signing.js";
 const require = createRequire(import.meta.url);
 const pkg = require("../package.json");
 
@@ -73,21 +79,29 @@ program
 
 program
   .command("usage")
-  .description("Show per-user usage totals (today and month to date)")
+  .description("Show per-user usage totals (today and month to date) and, with a policy, remaining budgets")
   .requiredOption("-u, --user <userRef>")
-  .option("--tz <zone>", "IANA timezone for windowing (defaults to env TZ or Asia/Kolkata)")
+  .option("-p, --policy <name>", "show remaining budget for each cap in this policy's tenancy (user and teams)")
+  .option("--tz <zone>", "IANA timezone for windowing (defaults to the policy's tenancy.timezone, env TZ or Asia/Kolkata)")
   .option("--reset", "reset today's token count for the user", false)
   .option("--json", "output JSON", false)
   .action((opts) => {
     try {
-      const tz = opts.tz || process.env.TZ || "Asia/Kolkata";
+      const tenancy = opts.policy ? loadPolicy(opts.policy).tenancy : undefined;
+      const tz = opts.tz || tenancy?.timezone || process.env.TZ || "Asia/Kolkata";
       if (opts.reset) {
         const { resetDailyTokens } = require("./quotas.js");
         resetDailyTokens(opts.user, tz);
       }
-      const u = usageSummary(opts.user, tz);
+      const u = usageSummary(opts.user, tz, tenancy);
       if (opts.json) console.log(JSON.stringify(u));
-      else console.log(`user=${opts.user} today=${u.tokensToday} month=${u.tokensMonth} (day=${u.day}, tz=${tz}) resetsAt=${u.resetsAt}`);
+      else {
+        console.log(`user=${opts.user} today=${u.tokensToday} ($${u.usdToday}) month=${u.tokensMonth} ($${u.usdMonth}) (day=${u.day}, tz=${tz}) resetsAt=${u.resetsAt}`);
+        for (const b of u.budgets ?? []) {
+          const fmt = (n: number) => (b.kind.endsWith("_usd") ? `$${n}` : `${n}`);
+          console.log(`  ${b.scope === "team" ? `team:${b.name}` : "user"} ${b.kind.padEnd(11)} used=${fmt(b.used)} limit=${fmt(b.limit)} remaining=${fmt(b.remaining)} resets=${b.resetsAt}`);
+        }
+      }
     } catch (e) {
       const code = printFriendlyError(e);
       process.exitCode = code;
@@ -95,6 +109,32 @@ program
   });
 
 program
+  .command("report")
+  .description("Aggregate cost, tokens, latency and fallbacks from receipts and traces")
+  .option("--by <dims>", `comma-separated grouping: ${REPORT_DIMENSIONS.join(", ")}`, "policy,model")
+  .option("--since <iso>", "only calls at or after this ISO timestamp")
+  .option("--until <iso>", "only calls before this ISO timestamp")
+  .option("--policy <name>", "only this policy")
+  .option("--model <id>", "only this final model")
+  .option("-u, --user <userRef>", "only this user")
+  .option("--tz <zone>", "IANA timezone for hour/day/week/month buckets", "UTC")
+  .option("--json", "output JSON", false)
+  .action((opts) => {
+    try {
+      const by = String(opts.by).split(",").map((d) => d.trim()).filter(Boolean);
+      const unknown = by.filter((d) => !(REPORT_DIMENSIONS as readonly string[]).includes(d));
+      if (unknown.length) throw new ConfigError(`Unknown report dimension(s): ${unknown.join(", ")}`, `Use any of: ${REPORT_DIMENSIONS.join(", ")}.`);
+      const report = buildReport(by as ReportDimension[], { since: opts.since, until: opts.until, policy: opts.policy, model: opts.model, user: opts.user }, opts.tz);
+      if (opts.json) { console.log(JSON.stringify(report)); return; }
+      if (!report.total.calls) { console.log("No calls found."); return; }
+      console.log(formatReport(report));
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+const receiptsCmd = program
   .command("receipts")
   .description("List recent receipts or open one by id")
   .option("--open <id>")
@@ -192,13 +232,121 @@ program
     }
   });
 
+receiptsCmd
+  .command("verify")
+  .description("Recompute receipt signatures and check the hash chain")
+  .option("--id <id>", "verify one receipt and its link to the previous one")
+  .option("--all", "verify every receipt and the whole chain", false)
+  .option("--public-keys <dir>", "verify Ed25519 receipts with only the public keys in <dir> (no JWT_SECRET)")
+  .option("--json", "output JSON", false)
+  .action((opts) => {
+    try {
+      if (!opts.id && !opts.all) throw new Error("Provide --id <id> or --all");
+      const verifyOpts = { publicKeysDir: opts.publicKeys };
+      const report = opts.id ? verifyReceipt(opts.id, verifyOpts) : verifyAllReceipts(verifyOpts);
+      if (!report) {
+        console.error(`No receipt ${opts.id}`);
+        process.exitCode = 1;
+        return;
+      }
+      if (opts.json) console.log(JSON.stringify(report));
+      else {
+        for (const issue of report.issues) {
+          console.log(`FAIL ${issue.id}${issue.seq != null ? ` (seq ${issue.seq})` : ""}`);
+          issue.problems.forEach((p) => console.log(`  - ${p}`));
+        }
+        console.log(`${report.issues.length ? "TAMPERED" : "OK"}: ${report.ok}/${report.checked} receipts verified${report.unchained ? ` (${report.unchained} written before chaining)` : ""}`);
+        if (report.head) console.log(`chain head: seq=${report.head.seq} hash=${report.head.hash}`);
+      }
+      if (report.issues.length) process.exitCode = 2;
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+receiptsCmd
+  .command("export")
+  .description("Export receipts as JSONL, CSV or OTLP/JSON spans (one trace per task)")
+  .option("--format <fmt>", "jsonl | csv | otlp-json", "jsonl")
+  .option("--since <iso>", "only receipts at or after this ISO timestamp")
+  .option("--until <iso>", "only receipts before this ISO timestamp")
+  .option("--policy <name>", "only receipts for this policy")
+  .option("--task <taskId>", "only receipts for this taskId")
+  .option("--out <file>", "write to a file instead of stdout")
+  .action((opts) => {
+    try {
+      if (!["jsonl", "csv", "otlp-json"].includes(opts.format)) throw new ConfigError(`Unknown export format '${opts.format}'`, "Use --format jsonl, csv or otlp-json.");
+      const { count, body } = exportReceipts(opts.format as ExportFormat, { since: opts.since, until: opts.until, policy: opts.policy, task: opts.task }, pkg.version);
+      if (opts.out) {
+        fs.writeFileSync(opts.out, body);
+        console.error(`exported ${count} receipt(s) to ${opts.out}`);
+      } else process.stdout.write(body);
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+program
+  .command("keys:rotate")
+  .description("Create a new Ed25519 receipt signing key and make it active (old public keys are kept)")
+  .option("--drop-old-private", "delete the previous private key after rotating", false)
+  .action((opts) => {
+    try {
+      const { kid, previous } = rotateSigningKey({ dropOldPrivate: !!opts.dropOldPrivate });
+      console.log(`active signing key: ${kid}${previous ? ` (was ${previous})` : " (receipts were HMAC-signed until now)"}`);
+      console.log(`key ring: ${keysDir()}`);
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+program
+  .command("keys:list")
+  .description("List receipt signing keys")
+  .option("--json", "output JSON", false)
+  .action((opts) => {
+    try {
+      const keys = listSigningKeys();
+      if (opts.json) { console.log(JSON.stringify(keys)); return; }
+      if (!keys.length) { console.log(`No signing keys in ${keysDir()}; receipts are HMAC-signed with JWT_SECRET.`); return; }
+      keys.forEach((k) => console.log(`${k.kid}${k.active ? "  active" : ""}${k.private ? "" : "  (public only)"}  created=${k.created}`));
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+program
+  .command("keys:export")
+  .description("Copy public signing keys to a directory for auditors")
+  .requiredOption("--out <dir>", "destination directory")
+  .action((opts) => {
+    try {
+      const kids = exportPublicKeys(opts.out);
+      console.log(`exported ${kids.length} public key(s) to ${opts.out}`);
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+function formatReplayResult(r: any): string {
+  if (r.error) return `- ${r.model}  failed: ${r.error}`;
+  const judged = r.score != null ? `  score=${r.score}${r.quality != null ? ` quality=${r.quality}` : ""}${r.judge_cost_usd != null ? `  judge_cost=$${r.judge_cost_usd}` : ""}` : "";
+  const reason = r.judge_reason ? `\n    ${r.judge_reason}` : "";
+  return `- ${r.model}  latency=${r.latency_ms}ms  tokens=${r.prompt_tokens + r.completion_tokens}  cost=$${r.cost_usd}${judged}${reason}`;
+}
+
 program
   .command("replay")
   .description("Run a prompt across alternate models and compare latency/cost")
   .option("-p, --policy <name>")
   .option("--text <input>")
   .option("--alts <models>", "comma-separated alt routes, e.g. 'anthropic/claude-3-haiku' or 'openai/gpt-4o-mini,anthropic/claude-3-haiku'")
-  .option("--judge", "score outputs using a heuristic judge", false)
+  .option("--judge", "score outputs with the policy's quality.judge model (latency/cost heuristic if none)", false)
   .option("--json", "output JSON", false)
   .option("--open <id>", "replay a specific receipt id (requires snapshots)")
   .option("--last <n>", "replay the last N receipts with snapshots", (v) => parseInt(v, 10))
@@ -221,34 +369,32 @@ program
         console.log(JSON.stringify(out));
         return;
       }
-      if (opts.open || opts.last) {
-        if (out.results) {
-          console.log(`Replayed ${out.count} receipts with snapshots`);
-          out.results.forEach((res: any) => {
-            console.log(`
+      if (opts.last) {
+        console.log(`Replayed ${out.count} receipts with snapshots`);
+        out.results.forEach((res: any) => {
+          console.log(`
 Receipt ${res.receipt}
 Policy: ${res.policy}
 Primary: ${res.primary}
 Results:`);
-            res.results.forEach((r: any) => {
-              console.log(`- ${r.model}  latency=${r.latency_ms}ms  tokens=${r.prompt_tokens + r.completion_tokens}  cost=$${r.cost_usd}`);
-            });
-            console.log("Suggested routing backups:", res.suggestedPatch.routing.backups.join(", "));
+          res.results.forEach((r: any) => {
+            console.log(formatReplayResult(r));
           });
-        } else {
-          console.log(`Policy: ${out.policy}`);
-          console.log(`Primary: ${out.primary}`);
-          console.log("\nResults:");
-          out.results.forEach((r: any) => {
-            console.log(`- ${r.model}  latency=${r.latency_ms}ms  tokens=${r.prompt_tokens + r.completion_tokens}  cost=$${r.cost_usd}`);
-          });
-          console.log("\nSuggested patch (routing):");
-          console.log(`primary: [\"${out.primary}\"]`);
-          console.log(`backups: [${out.suggestedPatch.routing.backups.map((m: string) => `\"${m}\"`).join(", ")}]`);
-        }
-      }
+          console.log("Suggested routing backups:", res.suggestedPatch.routing.backups.join(", "));
+        });
+      } else {
+        console.log(`Policy: ${out.policy}`);
+        console.log(`Primary: ${out.primary}`);
+        if (out.judge) console.log(`Judge: ${typeof out.judge === "string" ? out.judge : `${out.judge.model} (${out.judge.mode}) cost=$${out.judge_cost_usd}`}`);
+        console.log("\nResults:");
+        out.results.forEach((r: any) => {
+          console.log(formatReplayResult(r));
+        });
+        console.log("\nSuggested patch (routing):");
+        console.log(`primary: [\"${out.primary}\"]`);
+        console.log(`backups: [${out.suggestedPatch.routing.backups.map((m: string) => `\"${m}\"`).join(", ")}]`);
       }
-      catch (e) {
+    } catch (e) {
       const code = printFriendlyError(e);
       process.exitCode = code;
     }
@@ -257,7 +403,7 @@ Results:`);
 program
   .command("agents:plan")
   .description("Print the sub-agent execution plan")
-  .requiredOption("--name <chain>", "chain name (e.g., helpdesk)")
+  .requiredOption("--name <chain>", "chain name from chains/*.yaml (e.g., helpdesk)")
   .option("--text <input>", "input text for helpdesk chain")
   .option("--json", "output JSON", false)
   .action(async (opts) => {
@@ -274,7 +420,7 @@ program
 program
   .command("agents:run")
   .description("Run a sub-agent chain (streams per step)")
-  .requiredOption("--name <chain>", "chain name (e.g., helpdesk)")
+  .requiredOption("--name <chain>", "chain name from chains/*.yaml (e.g., helpdesk)")
   .requiredOption("--text <input>", "input text for the chain")
   .option("--json", "print a JSON summary at the end", false)
   .option("--usage-probe", "probe prompt tokens for sub-agents when headers are absent (via env)", false)
@@ -286,6 +432,7 @@ program
       if (opts["dryRun"]) process.env.ROUTEPILOT_DRY_RUN = "1";
       const res = await runChain(opts.name, { text: opts.text, earlyStop: !!opts["earlyStop"] });
       if (opts.json) console.log(JSON.stringify(res));
+      else if (res.aborted) console.error(`\n[chain ${opts.name}] aborted at step '${res.aborted.step}': ${res.aborted.reason === "budget" ? "task budget exhausted" : `hop failed (${res.aborted.error})`} task=${res.taskId}`);
       else console.error(`\n[chain ${opts.name}] done task=${res.taskId}`);
     } catch (e) {
       const code = printFriendlyError(e);
@@ -401,40 +548,54 @@ program
     rl.close();
   });
 
+function printAgents(opts: { json?: boolean }) {
+  const agents = describeAgents();
+  if (opts.json) {
+    console.log(JSON.stringify(agents.map((a) => (a.agent ? { name: a.name, ...a.agent } : a))));
+    return;
+  }
+  if (!agents.length) {
+    console.log("No agents found. Add YAML files under agents/.");
+    return;
+  }
+  for (const { name, agent, error } of agents) {
+    if (!agent) { console.log(`${name}  (invalid: ${error})`); continue; }
+    const gen = Object.entries(agent.gen ?? {}).map(([k, v]) => `${k}=${Array.isArray(v) ? v.join("|") : v}`);
+    const parts = [
+      `policy=${agent.policy}`,
+      `memory=${agent.memory.strategy}`,
+      ...(gen.length ? [`gen[${gen.join(" ")}]`] : []),
+      ...(agent.output_schema ? ["output_schema"] : []),
+      ...(agent.attachments?.paths.length ? [`attach=${agent.attachments.paths.join(",")}`] : []),
+      ...(agent.tools.length ? [`tools=${agent.tools.join(",")}`] : []),
+    ];
+    console.log(`${name}  ${parts.join("  ")}`);
+  }
+}
+
 program
   .command("agents:list")
-  .description("List available agents (from agents/*.yaml)")
+  .description("List available agents (from agents/*.yaml) with their policy, memory, gen, schema, attachments and tools")
   .option("--json", "output JSON", false)
-  .action((opts) => {
-    const agents = listAgents();
-    if (opts.json) {
-      console.log(JSON.stringify(agents));
-      return;
-    }
-    if (!agents.length) {
-      console.log("No agents found. Add YAML files under agents/.");
-      return;
-    }
-    agents.forEach((a) => console.log(a));
-  });
+  .action((opts) => printAgents(opts));
 
 // Alias: `agents` behaves like `agents:list` for convenience
 program
   .command("agents")
   .description("Alias for agents:list")
   .option("--json", "output JSON", false)
-  .action((opts) => {
-    const agents = listAgents();
-    if (opts.json) {
-      console.log(JSON.stringify(agents));
-      return;
-    }
-    if (!agents.length) {
-      console.log("No agents found. Add YAML files under agents/.");
-      return;
-    }
-    agents.forEach((a) => console.log(a));
-  });
+  .action((opts) => printAgents(opts));
+
+// --output-schema takes a JSON/YAML file or inline JSON
+function readSchemaOption(value: string): Record<string, unknown> {
+  try {
+    const parsed = fs.existsSync(value) ? yaml.parse(fs.readFileSync(value, "utf8")) : JSON.parse(value);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+  } catch {}
+  throw new ConfigError(`--output-schema must be a JSON Schema object (file or inline JSON): ${value}`);
+}
+
+const parseNumber = (v: string) => Number(v);
 
 program
   .command("agents:create")
@@ -446,19 +607,170 @@ program
     "system prompt",
     "You are an assistant. Be concise and helpful."
   )
+  .option("--temperature <n>", "gen.temperature (overrides the policy)", parseNumber)
+  .option("--top-p <n>", "gen.top_p", parseNumber)
+  .option("--stop <seqs...>", "gen.stop sequences")
+  .option("--json-mode", "gen.json_mode")
+  .option("--max-tokens <n>", "gen.max_tokens (capped by the policy's objectives.max_tokens)", (v) => parseInt(v, 10))
+  .option("--output-schema <fileOrJson>", "JSON Schema for replies (enables JSON mode)")
+  .option("--attach <paths...>", "files attached to every turn")
+  .option("--memory <strategy>", "window | token_budget | summarize")
+  .option("--memory-max-tokens <n>", "history budget for token_budget/summarize", (v) => parseInt(v, 10))
+  .option("--summary-policy <name>", "policy that writes summaries (summarize)")
+  .option("--tools <names...>", "tools the agent may call")
   .option("--force", "overwrite if exists", false)
   .action((opts) => {
     try {
+      const gen = { temperature: opts.temperature, top_p: opts.topP, stop: opts.stop, json_mode: opts.jsonMode, max_tokens: opts.maxTokens };
+      const memory = { strategy: opts.memory, max_tokens: opts.memoryMaxTokens, summary_policy: opts.summaryPolicy };
+      const defined = <T extends object>(o: T) => {
+        const out = Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined));
+        return Object.keys(out).length ? (out as T) : undefined;
+      };
       const file = createAgent(opts.name, opts.policy, opts.system, {
         force: !!opts.force,
+        gen: defined(gen),
+        output_schema: opts.outputSchema ? readSchemaOption(opts.outputSchema) : undefined,
+        attachments: opts.attach ? { paths: opts.attach } : undefined,
+        memory: defined(memory),
+        tools: opts.tools,
       });
       console.log(`Created ${file}`);
     } catch (e: any) {
+      if (e instanceof ConfigError) { process.exitCode = printFriendlyError(e); return; }
       console.error(e.message || String(e));
       process.exitCode = 1;
     }
   });
 
+const sessionsCmd = program
+  .command("sessions")
+  .description("Find, inspect, export, fork and delete agent sessions");
+
+sessionsCmd
+  .command("list")
+  .description("List sessions, most recently active first")
+  .option("-u, --user <ref>", "only sessions for this user")
+  .option("-a, --agent <name>", "only sessions for this agent")
+  .option("--limit <n>", "list last N", (v) => parseInt(v, 10), 20)
+  .option("--json", "output JSON", false)
+  .action((opts) => {
+    try {
+      const rows = listSessions({ user: opts.user, agent: opts.agent, limit: opts.limit });
+      if (opts.json) { console.log(JSON.stringify(rows)); return; }
+      if (!rows.length) { console.log("No sessions found."); return; }
+      rows.forEach((r) => console.log(`${r.id} user=${r.user_ref} agent=${r.agent} messages=${r.messages} last=${r.last_ts ?? r.created_at}${r.forked_from ? ` (fork of ${r.forked_from})` : ""}`));
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+sessionsCmd
+  .command("show <id>")
+  .description("Print a session transcript with timestamps and linked receipts")
+  .option("--json", "output JSON", false)
+  .action((id, opts) => {
+    try {
+      const view = showSession(id);
+      if (opts.json) console.log(JSON.stringify(view));
+      else console.log(formatSessionTranscript(view));
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+sessionsCmd
+  .command("export <id>")
+  .description("Export a session as Markdown or JSON")
+  .option("--format <fmt>", "md | json", "md")
+  .option("--out <file>", "write to a file instead of stdout")
+  .action((id, opts) => {
+    try {
+      if (!["md", "json"].includes(opts.format)) throw new ConfigError(`Unknown export format '${opts.format}'`, "Use --format md or json.");
+      const body = exportSession(id, opts.format as SessionExportFormat);
+      if (opts.out) {
+        fs.writeFileSync(opts.out, body);
+        console.error(`exported session ${id} to ${opts.out}`);
+      } else process.stdout.write(body);
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+sessionsCmd
+  .command("fork <id>")
+  .description("Copy a session (up to a message) into a new session to branch the conversation")
+  .option("--at <messageId>", "last message to copy (default: all)")
+  .action((id, opts) => {
+    try {
+      const fork = forkSession(id, opts.at);
+      console.log(`forked ${id} -> ${fork.id} (${fork.messages} message(s))`);
+      const s = getSession(fork.id)!;
+      console.error(`resume with: routepilot agent -a ${s.agent} -u ${s.user_ref} --session ${fork.id}`);
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+sessionsCmd
+  .command("delete [ids...]")
+  .description("Delete sessions and their messages (receipts are kept)")
+  .option("--before <iso>", "delete every session with no activity since this ISO timestamp")
+  .option("-u, --user <ref>", "with --before: only this user's sessions")
+  .option("-a, --agent <name>", "with --before: only this agent's sessions")
+  .option("--dry-run", "list the sessions that would be deleted, delete nothing", false)
+  .action((ids: string[], opts) => {
+    try {
+      if (!ids.length && !opts.before) throw new ConfigError("Nothing to delete", "Pass session ids or --before <iso>.");
+      const unknown = ids.filter((id) => !getSession(id));
+      const targets = [...new Set([...ids.filter((id) => !unknown.includes(id)), ...(opts.before ? staleSessionIds(opts.before, { user: opts.user, agent: opts.agent }) : [])])];
+      if (opts.dryRun) {
+        for (const id of targets) console.log(id);
+        console.error(`would delete ${targets.length} session(s)`);
+        return;
+      }
+      const { sessions, messages } = deleteSessions(targets);
+      console.log(`deleted ${sessions} session(s), ${messages} message(s)`);
+      if (unknown.length) {
+        console.error(`unknown session(s): ${unknown.join(", ")}`);
+        process.exitCode = 1;
+      }
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
+program
+  .command("serve")
+  .description("Serve an OpenAI-compatible API (POST /v1/chat/completions) routed through policies")
+  .option("--port <n>", "listen port", (v) => parseInt(v, 10), 8787)
+  .option("--host <addr>", "listen address", "127.0.0.1")
+  .option("-p, --policy <name>", "default policy when the request names none", "balanced-helpdesk")
+  .option("--keys <path>", "API key → userRef map (YAML)", "config/api-keys.yaml")
+  .option("--anonymous-user <userRef>", "accept requests without a known key as this user (local dev)")
+  .option("--debug", "verbose routing/debug logs", false)
+  .action(async (opts) => {
+    try {
+      const { serve } = await import("./server.js");
+      await serve({
+        port: opts.port,
+        host: opts.host,
+        defaultPolicy: opts.policy,
+        keysFile: opts.keys,
+        anonymousUser: opts.anonymousUser,
+        debug: !!opts.debug,
+      });
+    } catch (e) {
+      const code = printFriendlyError(e);
+      process.exitCode = code;
+    }
+  });
+
 // Workaround: when invoking via some runners (e.g., pnpm + tsx), a standalone "--" may
 // be forwarded in argv and confuse subcommand parsing. Strip it before parsing.
 const argv = process.argv.slice();
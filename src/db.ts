@@ -47,6 +47,14 @@ CREATE TABLE IF NOT EXISTS quotas_daily (
   tokens INTEGER NOT NULL DEFAULT 0,
   PRIMARY KEY (user_ref, day)
 );
+CREATE TABLE IF NOT EXISTS quota_reservations (
+  id TEXT PRIMARY KEY,
+  user_ref TEXT NOT NULL,
+  day TEXT NOT NULL,            -- quota day the hold (and its settlement) counts against
+  tokens INTEGER NOT NULL,
+  cost_usd REAL NOT NULL DEFAULT 0,
+  expires_at INTEGER NOT NULL   -- epoch ms; abandoned holds stop counting after this
+);
 CREATE TABLE IF NOT EXISTS rpm_events (
   user_ref TEXT NOT NULL,
   ts INTEGER NOT NULL           -- epoch ms; prune < now-60s
@@ -61,15 +69,27 @@ CREATE TABLE IF NOT EXISTS sessions (
 CREATE TABLE IF NOT EXISTS messages (
   id TEXT PRIMARY KEY,
   session_id TEXT NOT NULL,
-  role TEXT NOT NULL,           -- system|user|assistant
+  role TEXT NOT NULL,           -- system|user|assistant|summary
   content TEXT NOT NULL,
   ts TEXT NOT NULL,
   FOREIGN KEY(session_id) REFERENCES sessions(id)
 );
+CREATE TABLE IF NOT EXISTS circuit_state (
+  model TEXT PRIMARY KEY,
+  state TEXT NOT NULL,          -- closed|open|half_open
+  since INTEGER NOT NULL        -- epoch ms of the last transition
+);
+CREATE TABLE IF NOT EXISTS circuit_events (
+  model TEXT NOT NULL,
+  ts INTEGER NOT NULL,          -- epoch ms
+  ok INTEGER NOT NULL           -- 1 success, 0 failure
+);
 -- Indices for performance and p95 lookups
 CREATE INDEX IF NOT EXISTS traces_route_ts ON traces(route_final, ts DESC);
 CREATE INDEX IF NOT EXISTS rpm_user_ts     ON rpm_events(user_ref, ts);
 CREATE INDEX IF NOT EXISTS quotas_pk       ON quotas_daily(user_ref, day);
+CREATE INDEX IF NOT EXISTS quota_res_user  ON quota_reservations(user_ref, day);
+CREATE INDEX IF NOT EXISTS circuit_model_ts ON circuit_events(model, ts);
 `);
 
 export default db;
@@ -89,6 +109,21 @@ addColumnIfMissing('receipts', 'reasons', 'reasons TEXT');
 addColumnIfMissing('receipts', 'prompt_hash', 'prompt_hash TEXT');
 addColumnIfMissing('receipts', 'policy_hash', 'policy_hash TEXT');
 addColumnIfMissing('receipts', 'model_path', 'model_path TEXT');
+// Tamper-evident chain: seq orders the log, prev_hash links each receipt to the one before it
+addColumnIfMissing('receipts', 'seq', 'seq INTEGER');
+addColumnIfMissing('receipts', 'prev_hash', 'prev_hash TEXT');
+addColumnIfMissing('receipts', 'hash', 'hash TEXT');
+db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS receipts_seq ON receipts(seq)`);
+// Signature scheme per receipt: hmac-sha256 (JWT_SECRET) or ed25519 with the signing key id
+addColumnIfMissing('receipts', 'sig_alg', 'sig_alg TEXT');
+addColumnIfMissing('receipts', 'key_id', 'key_id TEXT');
+// USD budgets (tenancy.*_usd)
+addColumnIfMissing('quotas_daily', 'cost_usd', 'cost_usd REAL NOT NULL DEFAULT 0');
+// Session memory: a summary row covers every message up to this rowid
+addColumnIfMissing('messages', 'summary_through', 'summary_through INTEGER');
+// `sessions fork`: source session and the last copied message
+addColumnIfMissing('sessions', 'forked_from', 'forked_from TEXT');
+addColumnIfMissing('sessions', 'forked_at', 'forked_at TEXT');
 
 export function p95LatencyFor(model: string, n = 50): number | null {
   const rows = db
@@ -0,0 +1,178 @@
+import db from "./db.js";
+import { sha256Hex } from "./util/hash.js";
+
+// `receipts export`: bulk receipts as JSONL (signed payloads, verifiable offline), CSV, or OTLP/JSON spans
+
+export type ExportFormat = "jsonl" | "csv" | "otlp-json";
+export type ExportFilter = { since?: string; until?: string; policy?: string; task?: string };
+
+type ExportRow = {
+  id: string; ts: string; seq: number | null; policy: string; route_primary: string | null; route_final: string | null;
+  model_path: string | null; fallback_count: number; latency_ms: number | null; first_token_ms: number | null;
+  task_id: string | null; parent_id: string | null; reasons: string | null; prompt_tokens: number | null;
+  completion_tokens: number | null; cost_usd: number | null; signature: string | null; payload_json: string | null;
+  hash: string | null; sig_alg: string | null; key_id: string | null;
+};
+
+function selectRows(filter: ExportFilter): ExportRow[] {
+  const where: string[] = [];
+  const args: string[] = [];
+  if (filter.since) { where.push("ts >= ?"); args.push(filter.since); }
+  if (filter.until) { where.push("ts < ?"); args.push(filter.until); }
+  if (filter.policy) { where.push("policy = ?"); args.push(filter.policy); }
+  if (filter.task) { where.push("task_id = ?"); args.push(filter.task); }
+  return db
+    .prepare(
+      `SELECT id, ts, seq, policy, route_primary, route_final, model_path, fallback_count, latency_ms, first_token_ms, task_id, parent_id,
+              reasons, prompt_tokens, completion_tokens, cost_usd, signature, payload_json, hash, sig_alg, key_id
+       FROM receipts ${where.length ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY ts ASC, seq ASC`
+    )
+    .all(...args) as ExportRow[];
+}
+
+function parsePayload(r: ExportRow): any {
+  try { return r.payload_json ? JSON.parse(r.payload_json) : {}; } catch { return {}; }
+}
+
+function parseReasons(r: ExportRow): string[] {
+  try { return r.reasons ? JSON.parse(r.reasons) : []; } catch { return []; }
+}
+
+// Same shape as the data/receipts mirror plus the chain hash, so `jq`-style tooling and re-verification both work
+function toJsonl(rows: ExportRow[]): string {
+  return rows.map((r) => JSON.stringify({ ...parsePayload(r), signature: r.signature, hash: r.hash })).map((l) => `${l}\n`).join("");
+}
+
+const CSV_COLUMNS = [
+  "id", "ts", "seq", "policy", "task_id", "parent_id", "agent", "route_primary", "route_final", "model_path",
+  "fallback_count", "reasons", "latency_ms", "first_token_ms", "prompt_tokens", "completion_tokens", "cost_usd",
+  "failed", "sig_alg", "key_id", "hash",
+] as const;
+
+function csvCell(v: unknown): string {
+  if (v == null) return "";
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(rows: ExportRow[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const r of rows) {
+    const p = parsePayload(r);
+    const rec: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      ...r,
+      agent: p.agent,
+      reasons: parseReasons(r).join(";"),
+      failed: p.meta?.failed ? 1 : 0,
+    };
+    lines.push(CSV_COLUMNS.map((c) => csvCell(rec[c])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+// OTLP/JSON attribute values
+type AnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean } | { arrayValue: { values: AnyValue[] } };
+
+function attr(key: string, v: unknown): { key: string; value: AnyValue } | null {
+  if (v == null || v === "") return null;
+  if (typeof v === "boolean") return { key, value: { boolValue: v } };
+  if (typeof v === "number") return { key, value: Number.isInteger(v) ? { intValue: String(v) } : { doubleValue: v } };
+  if (Array.isArray(v)) return v.length ? { key, value: { arrayValue: { values: v.map((x) => ({ stringValue: String(x) })) } } } : null;
+  return { key, value: { stringValue: String(v) } };
+}
+
+function attrs(obj: Record<string, unknown>) {
+  return Object.entries(obj).map(([k, v]) => attr(k, v)).filter((a): a is NonNullable<typeof a> => a !== null);
+}
+
+// Deterministic ids so re-exporting the same receipts produces the same trace/span ids
+const traceIdFor = (key: string) => sha256Hex(`trace:${key}`).slice(0, 32);
+const spanIdFor = (receiptId: string) => sha256Hex(`span:${receiptId}`).slice(0, 16);
+const nanos = (ms: number) => (BigInt(Math.round(ms)) * 1_000_000n).toString();
+
+// A sub-agent tool call (`route_final: tool/<name>`): an internal span under its hop, without model or usage attributes
+function toolSpan(r: ExportRow, p: any, ids: Set<string>, start: number, end: number) {
+  const name = r.route_final!.slice("tool/".length);
+  return {
+    traceId: traceIdFor(r.task_id ?? r.id),
+    spanId: spanIdFor(r.id),
+    ...(r.parent_id && ids.has(r.parent_id) ? { parentSpanId: spanIdFor(r.parent_id) } : {}),
+    name: `tool ${name}`,
+    kind: 1, // SPAN_KIND_INTERNAL
+    startTimeUnixNano: nanos(start),
+    endTimeUnixNano: nanos(end),
+    attributes: attrs({
+      "routepilot.receipt_id": r.id,
+      "routepilot.seq": r.seq,
+      "routepilot.policy": r.policy,
+      "routepilot.task_id": r.task_id,
+      "routepilot.parent_id": r.parent_id,
+      "routepilot.latency_ms": r.latency_ms,
+      "gen_ai.operation.name": "execute_tool",
+      "gen_ai.tool.name": name,
+      "gen_ai.tool.call.id": p.meta?.tool_call_id,
+    }),
+    events: [],
+    status: p.meta?.ok === false ? { code: 2, message: String(p.meta?.error ?? "failed") } : { code: 1 },
+  };
+}
+
+// One trace per task (receipts without a task get a trace of their own); hops become spans parented via parent_id.
+// Receipts are written when a call finishes, so a span starts at ts - latency_ms.
+function toOtlp(rows: ExportRow[], serviceVersion: string): string {
+  const ids = new Set(rows.map((r) => r.id));
+  const spans = rows.map((r) => {
+    const p = parsePayload(r);
+    const end = Date.parse(r.ts);
+    const start = end - (r.latency_ms ?? 0);
+    const failed = !!p.meta?.failed;
+    if (r.route_final?.startsWith("tool/")) return toolSpan(r, p, ids, start, end);
+    return {
+      traceId: traceIdFor(r.task_id ?? r.id),
+      spanId: spanIdFor(r.id),
+      // Parents outside the exported window are dropped rather than left dangling
+      ...(r.parent_id && ids.has(r.parent_id) ? { parentSpanId: spanIdFor(r.parent_id) } : {}),
+      name: p.agent ? `${p.agent} ${r.route_final ?? ""}`.trim() : `route ${r.policy}`,
+      kind: 3, // SPAN_KIND_CLIENT
+      startTimeUnixNano: nanos(start),
+      endTimeUnixNano: nanos(end),
+      attributes: attrs({
+        "routepilot.receipt_id": r.id,
+        "routepilot.seq": r.seq,
+        "routepilot.policy": r.policy,
+        "routepilot.task_id": r.task_id,
+        "routepilot.parent_id": r.parent_id,
+        "routepilot.agent": p.agent,
+        "routepilot.route_primary": r.route_primary,
+        "routepilot.route_final": r.route_final,
+        "routepilot.model_path": r.model_path,
+        "routepilot.latency_ms": r.latency_ms,
+        "routepilot.first_token_ms": r.first_token_ms,
+        "routepilot.fallback_count": r.fallback_count,
+        "routepilot.reasons": parseReasons(r),
+        "routepilot.cost_usd": r.cost_usd,
+        "routepilot.over_cost_objective": p.meta?.over_cost_objective,
+        "gen_ai.request.model": r.route_primary,
+        "gen_ai.response.model": r.route_final,
+        "gen_ai.usage.input_tokens": r.prompt_tokens,
+        "gen_ai.usage.output_tokens": r.completion_tokens,
+      }),
+      events: r.first_token_ms != null ? [{ name: "first_token", timeUnixNano: nanos(start + r.first_token_ms) }] : [],
+      status: failed ? { code: 2, message: String(p.meta?.error ?? "failed") } : { code: 1 },
+    };
+  });
+  return JSON.stringify({
+    resourceSpans: [
+      {
+        resource: { attributes: attrs({ "service.name": "routepilot", "service.version": serviceVersion }) },
+        scopeSpans: [{ scope: { name: "routepilot.receipts", version: serviceVersion }, spans }],
+      },
+    ],
+  }) + "\n";
+}
+
+export function exportReceipts(format: ExportFormat, filter: ExportFilter, serviceVersion = "0.0.0"): { count: number; body: string } {
+  const rows = selectRows(filter);
+  const body = format === "jsonl" ? toJsonl(rows) : format === "csv" ? toCsv(rows) : toOtlp(rows, serviceVersion);
+  return { count: rows.length, body };
+}
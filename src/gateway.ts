@@ -1,42 +1,35 @@
-import { ConfigError } from "./util/errors.js";
+import { callProvider, resolveProvider } from "./providers.js";
+
+// Function tools, OpenAI shape. Provider adapters translate them (and tool-call replies) to and from each dialect.
+export type ToolDefinition = { type: "function"; function: { name: string; description?: string; parameters?: Record<string, unknown> } };
+export type ToolChoice = "auto" | "none" | "required" | { type: "function"; function: { name: string } };
+export type ToolCall = { id: string; type: "function"; function: { name: string; arguments: string } };
+
+// `tool` messages carry a tool result for the assistant turn whose tool_calls included tool_call_id
+export type ChatMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+};
 
 export type ChatParams = {
   model: string;
-  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>;
+  messages: ChatMessage[];
   max_tokens?: number;
   stream?: boolean;
+  stream_options?: { include_usage?: boolean };
   temperature?: number;
   top_p?: number;
   stop?: string[];
   response_format?: { type: string };
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
 };
 
-function requireEnv(name: string): string {
-  const v = process.env[name];
-  if (!v || !v.trim()) {
-    throw new ConfigError(
-      `Missing env ${name}. Add it to your .env`,
-      name === "AI_GATEWAY_BASE_URL"
-        ? "Get the OpenAI-compatible base from Vercel AI Gateway (usually ends with /api/openai)."
-        : name === "AI_GATEWAY_API_KEY"
-        ? "Create a Gateway key in your Vercel project and paste it here."
-        : undefined
-    );
-  }
-  return v;
-}
-
+// Sends an OpenAI-shaped chat request to the provider registered for the model's prefix
+// (config/providers.yaml), defaulting to the Vercel AI Gateway from AI_GATEWAY_BASE_URL/AI_GATEWAY_API_KEY.
+// The returned Response is always OpenAI-compatible (SSE when streaming, JSON otherwise).
 export function callGateway(params: ChatParams, signal?: AbortSignal) {
-  const base = requireEnv("AI_GATEWAY_BASE_URL"); // e.g., .../api/openai
-  const url = `${base}/v1/chat/completions`;
-  const key = requireEnv("AI_GATEWAY_API_KEY");
-  return fetch(url, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${key}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(params),
-    signal,
-  });
+  return callProvider(resolveProvider(params.model), params, signal);
 }
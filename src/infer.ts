@@ -1,11 +1,13 @@
-import { runWithFallback } from "./router.js";
-import { writeReceipt } from "./receipts.js";
+import { runWithFallback, routeOptionsFor } from "./router.js";
+import { writeReceipt, writeFailureReceipt, routeExtras } from "./receipts.js";
 import { loadPolicy } from "./policy.js";
-import { addDailyTokens, assertWithinRpm } from "./quotas.js";
+import { assertWithinRpm, reserveQuota, reservationAmount, settleQuota, releaseQuota } from "./quotas.js";
 import db from "./db.js";
 import { estimateCost } from "./rates.js";
 import { buildAttachmentMessage, AttachOpts } from "./util/files.js";
 import { sha256Hex } from "./util/hash.js";
+import { estimatePromptTokens, probeUsageFromJSON, resolveUsage, ResolvedUsage, UsageCounts } from "./util/usage.js";
+import { RouterError } from "./util/errors.js";
 
 export async function infer({
   policyName,
@@ -45,13 +47,18 @@ export async function infer({
   if (policy.gen?.system) {
     messages.unshift({ role: "system", content: policy.gen.system });
   }
+  const promptHash = sha256Hex(input + (attachmentBlock ? `\n\n${attachmentBlock}` : ""));
+  const policyHash = sha256Hex(JSON.stringify(policy));
+  const maxTokens = Math.min(policy.objectives.max_tokens ?? 1024, 2048);
+  // Hold the worst case against quotas before routing; settled to actual usage below
+  const reservation = reserveQuota(userRef, reservationAmount([...policy.routing.primary, ...policy.routing.backups], estimatePromptTokens(messages, policy.routing.primary[0]), maxTokens), policy.tenancy);
   const start = Date.now();
-  const { routeFinal, fallbackCount, latency, firstTokenMs, reasons, usagePrompt, usageCompletion } = await runWithFallback(
+  const { routeFinal, fallbackCount, latency, firstTokenMs, reasons, usagePrompt, usageCompletion, usageVia, finishReason, output, preflight, circuitOpen, hedge } = await runWithFallback(
     { primary: policy.routing.primary, backups: policy.routing.backups },
     policy.objectives.p95_latency_ms,
     policy.routing.p95_window_n,
     messages,
-    Math.min(policy.objectives.max_tokens ?? 1024, 2048),
+    maxTokens,
     policy.strategy.fallback_on_latency_ms ?? 1500,
     policy.strategy.max_attempts,
     policy.strategy.backoff_ms,
@@ -61,67 +68,72 @@ export async function infer({
     policy.routing.params ?? undefined,
     undefined,
     undefined,
-    !!debug
-  );
-
-  // Real usage from headers when available; fallback to estimate
-  const usage = {
-    prompt: usagePrompt ?? 300,
-    completion: usageCompletion ?? 200,
-  };
-  // Optional usage probe to obtain prompt tokens if headers were missing
-  if (usageProbe && usagePrompt == null) {
-    const perModel = (policy.routing.params || {})[routeFinal] || {};
-    const merged = { ...(policy.gen || {}), ...perModel } as any;
-    const { probeUsageFromJSON } = await import("./util/usage.js");
-    const probe = await probeUsageFromJSON({ model: routeFinal, messages, max_tokens: 1, ...(merged.temperature != null ? { temperature: merged.temperature } : {}), ...(merged.top_p != null ? { top_p: merged.top_p } : {}), ...(merged.stop ? { stop: merged.stop } : {}), ...(merged.json_mode ? { response_format: { type: "json_object" } } : {}) });
-    if (probe?.prompt != null) usage.prompt = probe.prompt;
-    if (usage.completion == null && probe?.completion != null) usage.completion = probe.completion;
-  }
-  const cost = estimateCost(routeFinal, usage.prompt, usage.completion);
-
-  const promptHash = sha256Hex(input + (attachmentBlock ? `\n\n${attachmentBlock}` : ""));
-  const policyHash = sha256Hex(JSON.stringify(policy));
-  const includeSnapshot = process.env.ROUTEPILOT_SNAPSHOT_INPUT === '1';
-  const rid = writeReceipt({
-    policy: policy.policy,
-    route_primary: policy.routing.primary[0],
-    route_final: routeFinal,
-    model_path: routeFinal,
-    fallback_count: fallbackCount,
-    latency_ms: latency,
-    first_token_ms: firstTokenMs ?? null,
-    reasons,
-    usage: { ...usage, cost },
-    mirrorJson,
-    prompt_hash: promptHash,
-    policy_hash: policyHash,
-    extras: includeSnapshot ? { input_snapshot: input, attachments_snapshot: attachmentBlock } : undefined,
+    !!debug,
+    routeOptionsFor(policy)
+  ).catch((e) => {
+    releaseQuota(reservation);
+    if (e instanceof RouterError) {
+      writeFailureReceipt({ policy: policy.policy, route_primary: policy.routing.primary[0], prompt_hash: promptHash, policy_hash: policyHash, mirrorJson }, e);
+    }
+    throw e;
   });
 
-  // Update quotas (daily tokens)
-  addDailyTokens(
-    userRef,
-    usage.prompt + usage.completion,
-    policy.tenancy.per_user_daily_tokens,
-    policy.tenancy.timezone
-  );
+  // Settled in `finally`, so a failure after routing (probe, receipt, trace row) cannot hold the reservation until its TTL
+  let usage: ResolvedUsage | undefined;
+  let cost = 0;
+  let rid: string;
+  try {
+    // Optional usage probe to obtain prompt tokens if headers were missing; best effort, like a non-ok answer
+    let probe: UsageCounts | null = null;
+    if (usageProbe && usagePrompt == null) {
+      const perModel = (policy.routing.params || {})[routeFinal] || {};
+      const merged = { ...(policy.gen || {}), ...perModel } as any;
+      probe = await probeUsageFromJSON({ model: routeFinal, messages, max_tokens: 1, ...(merged.temperature != null ? { temperature: merged.temperature } : {}), ...(merged.top_p != null ? { top_p: merged.top_p } : {}), ...(merged.stop ? { stop: merged.stop } : {}), ...(merged.json_mode ? { response_format: { type: "json_object" } } : {}) }).catch(() => null);
+    }
+    // Headers, then the probe (prompt only: it asks for 1 token), then the local tokenizer over prompt and output
+    usage = resolveUsage(routeFinal, messages, output, { prompt: usagePrompt, completion: usageCompletion, via: usageVia }, { prompt: probe?.prompt });
+    cost = estimateCost(routeFinal, usage.prompt, usage.completion) + (hedge?.loser_cost_usd ?? 0);
+
+    const includeSnapshot = process.env.ROUTEPILOT_SNAPSHOT_INPUT === '1';
+    rid = writeReceipt({
+      policy: policy.policy,
+      route_primary: policy.routing.primary[0],
+      route_final: routeFinal,
+      model_path: routeFinal,
+      fallback_count: fallbackCount,
+      latency_ms: latency,
+      first_token_ms: firstTokenMs ?? null,
+      reasons,
+      usage: { ...usage, cost },
+      mirrorJson,
+      prompt_hash: promptHash,
+      policy_hash: policyHash,
+      extras: {
+        ...(includeSnapshot ? { input_snapshot: input, attachments_snapshot: attachmentBlock } : {}),
+        ...routeExtras({ preflight, circuitOpen, hedge, finishReason }, cost, policy.objectives.max_cost_usd),
+      },
+    });
 
-  // Track trace row for p95 decisions
-  db.prepare(
-    `INSERT INTO traces(id, ts, user_ref, policy, route_primary, route_final, latency_ms, tokens, cost_usd)
-     VALUES(?,?,?,?,?,?,?,?,?)`
-  ).run(
-    rid,
-    new Date(start).toISOString(),
-    userRef,
-    policy.policy,
-    policy.routing.primary[0],
-    routeFinal,
-    latency,
-    usage.prompt + usage.completion,
-    cost
-  );
+    // Track trace row for p95 decisions
+    db.prepare(
+      `INSERT INTO traces(id, ts, user_ref, policy, route_primary, route_final, latency_ms, tokens, cost_usd)
+       VALUES(?,?,?,?,?,?,?,?,?)`
+    ).run(
+      rid,
+      new Date(start).toISOString(),
+      userRef,
+      policy.policy,
+      policy.routing.primary[0],
+      routeFinal,
+      latency,
+      usage.prompt + usage.completion,
+      cost
+    );
+  } finally {
+    // Charge what the call used; release only if usage never resolved
+    if (usage) settleQuota(reservation, usage.prompt + usage.completion, cost);
+    else releaseQuota(reservation);
+  }
 
   const summary = {
     receipt: rid,
@@ -0,0 +1,94 @@
+import { callGateway, ChatMessage } from "./gateway.js";
+import { estimateCost } from "./rates.js";
+import { GatewayError } from "./util/errors.js";
+import { safeLastJson } from "./util/json.js";
+import { parseUsageFromHeaders, resolveUsage } from "./util/usage.js";
+
+// Model-graded quality for replay (policy `quality.judge`). Scores are normalized to [0, 1].
+
+export const DEFAULT_RUBRIC = "Correct, complete and follows the instructions; clear and concise; no invented facts.";
+
+// What the judge calls behind one verdict used (pairwise asks twice)
+export type JudgeUsage = { prompt_tokens: number; completion_tokens: number; cost_usd: number };
+export type Verdict = { score: number; reason: string; usage: JudgeUsage };
+
+const NO_USAGE: JudgeUsage = { prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 };
+
+function addUsage(a: JudgeUsage, b: JudgeUsage): JudgeUsage {
+  return { prompt_tokens: a.prompt_tokens + b.prompt_tokens, completion_tokens: a.completion_tokens + b.completion_tokens, cost_usd: a.cost_usd + b.cost_usd };
+}
+
+// A verdict the judge was paid for but did not deliver; the usage rides on the error
+function judgeFailure(message: string, usage: JudgeUsage): Error {
+  return Object.assign(new Error(message), { usage });
+}
+
+async function askJudge(judgeModel: string, system: string, user: string): Promise<{ answer: any; usage: JudgeUsage }> {
+  const messages: ChatMessage[] = [{ role: "system", content: system }, { role: "user", content: user }];
+  const res = await callGateway({
+    model: judgeModel,
+    messages,
+    max_tokens: 200,
+    temperature: 0,
+    response_format: { type: "json_object" },
+    stream: false,
+  });
+  if (!res.ok) {
+    let body = "";
+    try { body = (await res.text()).slice(0, 300); } catch {}
+    throw new GatewayError(`Judge ${judgeModel}: HTTP ${res.status} ${res.statusText}`, res.status, body);
+  }
+  const obj: any = await res.json();
+  const content = String(obj?.choices?.[0]?.message?.content ?? "");
+  // Usage from the response body, else the usage headers, else counted locally
+  const reported = obj?.usage ? { prompt: obj.usage.prompt_tokens, completion: obj.usage.completion_tokens } : parseUsageFromHeaders(res.headers) ?? {};
+  const u = resolveUsage(judgeModel, messages, content, reported);
+  const usage = { prompt_tokens: u.prompt, completion_tokens: u.completion, cost_usd: estimateCost(judgeModel, u.prompt, u.completion) };
+  let answer: any;
+  try { answer = safeLastJson(content); } catch (e: any) { throw judgeFailure(e?.message ?? String(e), usage); }
+  return { answer, usage };
+}
+
+// Absolute score against a rubric: 1-10 from the judge, mapped to 0..1
+export async function judgeRubric(judgeModel: string, prompt: string, output: string, rubric = DEFAULT_RUBRIC): Promise<Verdict> {
+  const { answer: j, usage } = await askJudge(
+    judgeModel,
+    `You grade AI assistant responses.\nRubric: ${rubric}\nReply with JSON only: {"score": <integer 1-10>, "reason": "<one sentence>"}`,
+    `Prompt:\n${prompt}\n\nResponse:\n${output}`
+  );
+  const raw = Number(j?.score);
+  if (!Number.isFinite(raw)) throw judgeFailure(`Judge ${judgeModel} returned no numeric score`, usage);
+  return { score: Math.min(1, Math.max(0, (raw - 1) / 9)), reason: String(j?.reason ?? ""), usage };
+}
+
+// Candidate vs baseline, asked in both orders to cancel position bias: 1 = candidate wins, 0.5 = tie, 0 = baseline wins
+export async function judgePairwise(judgeModel: string, prompt: string, baseline: string, candidate: string, rubric = DEFAULT_RUBRIC): Promise<Verdict> {
+  const ask = (a: string, b: string) => askJudge(
+    judgeModel,
+    `You compare two AI assistant responses to the same prompt.\nCriteria: ${rubric}\nReply with JSON only: {"winner": "A" | "B" | "tie", "reason": "<one sentence>"}`,
+    `Prompt:\n${prompt}\n\nResponse A:\n${a}\n\nResponse B:\n${b}`
+  );
+  let usage = NO_USAGE;
+  const points = (winner: any, candidateLabel: "A" | "B") => {
+    const w = String(winner ?? "").trim().toUpperCase();
+    if (w === "TIE") return 0.5;
+    if (w !== "A" && w !== "B") throw judgeFailure(`Judge ${judgeModel} returned no winner`, usage);
+    return w === candidateLabel ? 1 : 0;
+  };
+  const charge = async (p: Promise<{ answer: any; usage: JudgeUsage }>) => {
+    try {
+      const r = await p;
+      usage = addUsage(usage, r.usage);
+      return r.answer;
+    } catch (e: any) {
+      throw judgeFailure(e?.message ?? String(e), addUsage(usage, e?.usage ?? NO_USAGE));
+    }
+  };
+  const first = await charge(ask(baseline, candidate));
+  const second = await charge(ask(candidate, baseline));
+  return {
+    score: (points(first?.winner, "B") + points(second?.winner, "A")) / 2,
+    reason: [first?.reason, second?.reason].filter(Boolean).join(" / "),
+    usage,
+  };
+}
@@ -0,0 +1,176 @@
+import crypto from "node:crypto";
+import db from "./db.js";
+import type { MemoryConfig } from "./agents.js";
+import { loadPolicy } from "./policy.js";
+import { reserveQuota, reservationAmount, settleQuota, releaseQuota, Tenancy } from "./quotas.js";
+import { estimateCost } from "./rates.js";
+import { runWithFallback, routeOptionsFor } from "./router.js";
+import { streamSSEToWriterWithGate } from "./util/stream.js";
+import { estimatePromptTokens, resolveUsage } from "./util/usage.js";
+
+// Session memory for `agent`: which stored messages a turn sends to the model.
+//   window        the newest `max_messages` messages
+//   token_budget  the newest messages that fit in `max_tokens`
+//   summarize     like token_budget, but older messages are folded into a stored summary (role "summary",
+//                 written through `summary_policy`) instead of being dropped. The summary is sent as a system message.
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+type StoredMessage = { rowid: number; role: string; content: string; summary_through: number | null };
+
+export type MemoryRecord = {
+  strategy: MemoryConfig["strategy"];
+  messages: number;        // history messages sent verbatim
+  dropped: number;         // stored messages neither sent nor covered by a summary
+  history_tokens: number;  // summary + history, counted locally
+  summary?: { id: string; summarized: number; model: string; prompt_tokens: number; completion_tokens: number; cost_usd: number };
+  summary_error?: string;  // summarization failed; the turn fell back to token_budget
+};
+
+export type SessionHistory = { messages: ChatMessage[]; record: MemoryRecord };
+// Whose budgets a summary call is held against (the turn's user and policy tenancy)
+export type SummaryQuota = { userRef: string; tenancy: Tenancy };
+
+const SUMMARY_SYSTEM = [
+  "You maintain a running summary of a conversation between a user and an assistant.",
+  "Merge the previous summary (if any) and the new messages into one concise summary.",
+  "Keep facts, names, decisions, open questions and user preferences. Reply with the summary only.",
+].join("\n");
+
+function loadMessages(sessionId: string, afterRowid: number): StoredMessage[] {
+  return db
+    .prepare(`SELECT rowid, role, content, summary_through FROM messages WHERE session_id=? AND role != 'summary' AND rowid > ? ORDER BY rowid ASC`)
+    .all(sessionId, afterRowid) as StoredMessage[];
+}
+
+function latestSummary(sessionId: string): StoredMessage | undefined {
+  return db
+    .prepare(`SELECT rowid, role, content, summary_through FROM messages WHERE session_id=? AND role='summary' ORDER BY rowid DESC LIMIT 1`)
+    .get(sessionId) as StoredMessage | undefined;
+}
+
+// Per-message share of the chat framing (estimatePromptTokens adds 3 for the reply primer)
+function tokensOf(m: { role: string; content: string }, model: string): number {
+  return estimatePromptTokens([m], model) - 3;
+}
+
+function summaryMessage(content: string): ChatMessage {
+  return { role: "system", content: `Summary of the earlier conversation:\n${content}` };
+}
+
+// Newest-first fill: the longest suffix of `msgs` that fits in `budget`
+function fitSuffix(msgs: StoredMessage[], budget: number, model: string): { kept: StoredMessage[]; tokens: number } {
+  let tokens = 0;
+  let i = msgs.length;
+  while (i > 0) {
+    const t = tokensOf(msgs[i - 1], model);
+    if (tokens + t > budget) break;
+    tokens += t;
+    i--;
+  }
+  return { kept: msgs.slice(i), tokens };
+}
+
+const toChat = (m: StoredMessage): ChatMessage => ({ role: m.role as ChatMessage["role"], content: m.content });
+
+async function summarize(previous: string | undefined, folded: StoredMessage[], memory: MemoryConfig, quota?: SummaryQuota) {
+  const policy = await loadPolicy(memory.summary_policy);
+  const transcript = folded.map((m) => `${m.role}: ${m.content}`).join("\n");
+  const messages: ChatMessage[] = [
+    { role: "system", content: SUMMARY_SYSTEM },
+    { role: "user", content: `${previous ? `Previous summary:\n${previous}\n\n` : ""}New messages:\n${transcript}` },
+  ];
+  const maxTokens = Math.min(memory.summary_max_tokens, policy.objectives.max_tokens ?? memory.summary_max_tokens);
+  // Held before the call, like the turn itself, so a user already at a limit does not pay for a summary
+  const models = [...policy.routing.primary, ...policy.routing.backups];
+  const reservation = quota && reserveQuota(quota.userRef, reservationAmount(models, estimatePromptTokens(messages, models[0]), maxTokens), quota.tenancy);
+  let output = "";
+  const routed = await runWithFallback(
+    { primary: policy.routing.primary, backups: policy.routing.backups },
+    policy.objectives.p95_latency_ms,
+    policy.routing.p95_window_n,
+    messages,
+    maxTokens,
+    policy.strategy.fallback_on_latency_ms ?? 1500,
+    policy.strategy.max_attempts,
+    policy.strategy.backoff_ms,
+    0,
+    policy.strategy.escalate_after_fallbacks,
+    policy.gen ?? undefined,
+    policy.routing.params ?? undefined,
+    async (res, onFirst) => { output = await streamSSEToWriterWithGate(res, onFirst, 0, () => false, () => {}); },
+    undefined,
+    false,
+    routeOptionsFor(policy)
+  ).catch((e) => {
+    if (reservation) releaseQuota(reservation);
+    throw e;
+  });
+  const usage = resolveUsage(routed.routeFinal, messages, output, { prompt: routed.usagePrompt, completion: routed.usageCompletion, via: routed.usageVia });
+  const cost = estimateCost(routed.routeFinal, usage.prompt, usage.completion) + (routed.hedge?.loser_cost_usd ?? 0);
+  if (reservation) settleQuota(reservation, usage.prompt + usage.completion, cost);
+  const text = output.trim();
+  if (!text) throw new Error(`summary policy ${policy.policy} returned no text`);
+  return { text, model: routed.routeFinal, prompt: usage.prompt, completion: usage.completion, cost };
+}
+
+// History for the next turn of `sessionId`, applying the agent's memory strategy. `model` is the primary route,
+// used for token counts. With `quota`, a summary call is reserved and charged against that user's budgets.
+export async function loadSessionHistory(sessionId: string, memory: MemoryConfig, model: string, debug?: boolean, quota?: SummaryQuota): Promise<SessionHistory> {
+  if (memory.strategy === "window") {
+    const all = loadMessages(sessionId, 0);
+    const kept = all.slice(-memory.max_messages);
+    return {
+      messages: kept.map(toChat),
+      record: { strategy: "window", messages: kept.length, dropped: all.length - kept.length, history_tokens: kept.reduce((s, m) => s + tokensOf(m, model), 0) },
+    };
+  }
+
+  if (memory.strategy === "token_budget") {
+    const all = loadMessages(sessionId, 0);
+    const { kept, tokens } = fitSuffix(all, memory.max_tokens, model);
+    return {
+      messages: kept.map(toChat),
+      record: { strategy: "token_budget", messages: kept.length, dropped: all.length - kept.length, history_tokens: tokens },
+    };
+  }
+
+  // summarize: only messages after the latest summary are candidates for verbatim history
+  const prior = latestSummary(sessionId);
+  const pending = loadMessages(sessionId, prior?.summary_through ?? 0);
+  const priorTokens = prior ? tokensOf(summaryMessage(prior.content), model) : 0;
+  const fit = fitSuffix(pending, memory.max_tokens - priorTokens, model);
+  const withPrior = (kept: StoredMessage[], tokens: number, extra: Partial<MemoryRecord> = {}): SessionHistory => ({
+    messages: [...(prior ? [summaryMessage(prior.content)] : []), ...kept.map(toChat)],
+    record: { strategy: "summarize", messages: kept.length, dropped: pending.length - kept.length, history_tokens: priorTokens + tokens, ...extra },
+  });
+  if (fit.kept.length === pending.length) return withPrior(fit.kept, fit.tokens);
+
+  // Over budget: fold everything except the newest keep_recent messages (fewer if those alone do not fit)
+  const recent = fit.kept.length < memory.keep_recent ? fit.kept : pending.slice(pending.length - memory.keep_recent);
+  const folded = pending.slice(0, pending.length - recent.length);
+  try {
+    const s = await summarize(prior?.content, folded, memory, quota);
+    const id = crypto.randomUUID();
+    const through = folded[folded.length - 1].rowid;
+    db.prepare(`INSERT INTO messages(id, session_id, role, content, ts, summary_through) VALUES(?,?,?,?,?,?)`)
+      .run(id, sessionId, "summary", s.text, new Date().toISOString(), through);
+    if (debug) process.stderr.write(`[memory] folded ${folded.length} message(s) into summary via ${s.model}\n`);
+    const summary = summaryMessage(s.text);
+    const summaryTokens = tokensOf(summary, model);
+    const recentTokens = recent.reduce((n, m) => n + tokensOf(m, model), 0);
+    return {
+      messages: [summary, ...recent.map(toChat)],
+      record: {
+        strategy: "summarize",
+        messages: recent.length,
+        dropped: 0,
+        history_tokens: summaryTokens + recentTokens,
+        summary: { id, summarized: folded.length, model: s.model, prompt_tokens: s.prompt, completion_tokens: s.completion, cost_usd: Number(s.cost.toFixed(6)) },
+      },
+    };
+  } catch (e: any) {
+    // The turn still runs (a quota refusal here is raised again by the turn's own reservation); older messages are left out as with token_budget and folded on a later turn
+    if (debug) process.stderr.write(`[memory] summary failed: ${e?.message ?? e}\n`);
+    return withPrior(fit.kept, fit.tokens, { summary_error: String(e?.message ?? e) });
+  }
+}
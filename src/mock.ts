@@ -0,0 +1,155 @@
+import fs from "node:fs";
+import path from "node:path";
+import * as yaml from "yaml";
+import { z } from "zod";
+import type { ChatParams } from "./gateway.js";
+import { ConfigError } from "./util/errors.js";
+
+// Deterministic in-process provider for offline tests and chaos drills.
+// Scenarios are keyed by model id (exact match, then "*") in a YAML fixture file.
+
+const ScenarioSchema = z.object({
+  latency_ms: z.number().int().nonnegative().default(0),          // before response headers
+  first_chunk_ms: z.number().int().nonnegative().default(0),      // after headers, before the first chunk
+  chunk_ms: z.number().int().nonnegative().default(0),            // between chunks
+  chunk_size: z.number().int().positive().default(16),            // characters per chunk
+  status: z.number().int().default(200),
+  status_sequence: z.array(z.number().int()).optional(),          // per-call statuses, e.g. [429, 429, 200]; last one repeats
+  disconnect_after_chunks: z.number().int().nonnegative().optional(),
+  content: z.string().optional(),
+  content_file: z.string().optional(),                            // relative to the fixture file
+  usage: z.object({ prompt: z.number().int().optional(), completion: z.number().int().optional() }).optional(),
+  error_body: z.string().optional(),
+  // Calls to request when the caller sends `tools` (and the last message is not already a tool result)
+  tool_calls: z.array(z.object({ name: z.string(), arguments: z.record(z.unknown()).default({}) })).optional(),
+});
+
+const MockFile = z.object({ models: z.record(ScenarioSchema).default({}) });
+
+export type MockScenario = z.infer<typeof ScenarioSchema>;
+
+export const DEFAULT_MOCK_FIXTURES = "fixtures/mock/scenarios.yaml";
+
+let cache: { file: string; models: Record<string, MockScenario> } | null = null;
+const callCounts = new Map<string, number>();
+
+export function loadMockScenarios(file: string): Record<string, MockScenario> {
+  if (cache && cache.file === file) return cache.models;
+  let models: Record<string, MockScenario> = {};
+  if (fs.existsSync(file)) {
+    try {
+      models = MockFile.parse(yaml.parse(fs.readFileSync(file, "utf8")) ?? {}).models;
+    } catch (e: any) {
+      const details = e?.issues ? e.issues.map((i: any) => `${i.path?.join(".") || "root"}: ${i.message}`).join("; ") : e?.message;
+      throw new ConfigError(`Invalid mock fixtures ${file}: ${details}`);
+    }
+  }
+  cache = { file, models };
+  return models;
+}
+
+// Forget per-model call counters (status_sequence restarts from the first entry)
+export function resetMockCalls() {
+  callCounts.clear();
+}
+
+function scenarioFor(file: string, model: string): MockScenario {
+  const models = loadMockScenarios(file);
+  return models[model] ?? models["*"] ?? ScenarioSchema.parse({});
+}
+
+function contentFor(s: MockScenario, file: string, params: ChatParams): string {
+  if (s.content != null) return s.content;
+  if (s.content_file) return fs.readFileSync(path.resolve(path.dirname(file), s.content_file), "utf8");
+  const lastUser = [...params.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  return `[mock ${params.model}] ${lastUser.slice(0, 200)}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const t = setTimeout(() => { signal?.removeEventListener("abort", onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(t); reject(abortError()); };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function abortError() {
+  const e = new Error("This operation was aborted");
+  e.name = "AbortError";
+  return e;
+}
+
+export async function callMock(fixtures: string, params: ChatParams, signal?: AbortSignal): Promise<Response> {
+  const s = scenarioFor(fixtures, params.model);
+  const n = callCounts.get(params.model) ?? 0;
+  callCounts.set(params.model, n + 1);
+  const status = s.status_sequence?.length ? s.status_sequence[Math.min(n, s.status_sequence.length - 1)] : s.status;
+
+  if (s.latency_ms) await sleep(s.latency_ms, signal);
+  if (status < 200 || status >= 300) {
+    return new Response(s.error_body ?? `mock status ${status}`, { status, statusText: "Mock Error" });
+  }
+
+  const toolTurn = !!(s.tool_calls?.length && params.tools?.length && params.tool_choice !== "none" && params.messages[params.messages.length - 1]?.role !== "tool");
+  // A tool-call turn has no text; `content` is the reply once the tool results are back
+  const text = toolTurn ? "" : contentFor(s, fixtures, params);
+  const toolCalls = toolTurn
+    ? s.tool_calls!.map((c, k) => ({ id: `call_mock_${n}_${k}`, type: "function" as const, function: { name: c.name, arguments: JSON.stringify(c.arguments) } }))
+    : [];
+  const finish = toolTurn ? "tool_calls" : "stop";
+  const headers = new Headers();
+  if (s.usage?.prompt != null) headers.set("x-usage-prompt-tokens", String(s.usage.prompt));
+  if (s.usage?.completion != null) headers.set("x-usage-completion-tokens", String(s.usage.completion));
+
+  const usage = s.usage ? { prompt_tokens: s.usage.prompt, completion_tokens: s.usage.completion, total_tokens: (s.usage.prompt ?? 0) + (s.usage.completion ?? 0) } : undefined;
+
+  if (!params.stream) {
+    headers.set("content-type", "application/json");
+    return new Response(JSON.stringify({
+      id: `mock-${n}`,
+      object: "chat.completion",
+      model: params.model,
+      choices: [{ index: 0, message: { role: "assistant", content: text, ...(toolTurn ? { tool_calls: toolCalls } : {}) }, finish_reason: finish }],
+      ...(usage ? { usage } : {}),
+    }), { status, headers });
+  }
+
+  headers.set("content-type", "text/event-stream");
+  const chunks: any[] = [];
+  for (let i = 0; i < text.length; i += s.chunk_size) chunks.push({ content: text.slice(i, i + s.chunk_size) });
+  // Tool calls stream OpenAI-style: id and name first, then the arguments in chunk_size pieces
+  toolCalls.forEach((c, index) => {
+    chunks.push({ tool_calls: [{ index, id: c.id, type: "function", function: { name: c.function.name, arguments: "" } }] });
+    for (let i = 0; i < c.function.arguments.length; i += s.chunk_size) {
+      chunks.push({ tool_calls: [{ index, function: { arguments: c.function.arguments.slice(i, i + s.chunk_size) } }] });
+    }
+  });
+  const enc = new TextEncoder();
+  let i = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        await sleep(i === 0 ? s.first_chunk_ms : s.chunk_ms, signal);
+      } catch (e) {
+        controller.error(e);
+        return;
+      }
+      if (s.disconnect_after_chunks != null && i >= s.disconnect_after_chunks) {
+        controller.error(new Error("mock: connection reset mid-stream"));
+        return;
+      }
+      if (i >= chunks.length) {
+        controller.enqueue(enc.encode(`data: ${JSON.stringify({ choices: [{ index: 0, delta: {}, finish_reason: finish }] })}\n\n`));
+        // OpenAI-style trailing usage chunk when the caller asked for it
+        if (usage && params.stream_options?.include_usage) controller.enqueue(enc.encode(`data: ${JSON.stringify({ choices: [], usage })}\n\n`));
+        controller.enqueue(enc.encode("data: [DONE]\n\n"));
+        controller.close();
+        return;
+      }
+      controller.enqueue(enc.encode(`data: ${JSON.stringify({ choices: [{ index: 0, delta: chunks[i] }] })}\n\n`));
+      i++;
+    },
+  });
+  return new Response(body, { status, headers });
+}
@@ -36,10 +36,39 @@ const PolicySchema = z.object({
     backoff_ms: z.array(z.number().int().nonnegative()).default([100, 300]),
     first_chunk_gate_ms: z.number().int().nonnegative().default(250),
     escalate_after_fallbacks: z.number().int().nonnegative().default(0),
+    // Pre-flight handling of objectives.max_cost_usd: clamp max_tokens, skip the model, or only flag receipts (default)
+    cost_ceiling: z.enum(["clamp", "skip", "off"]).default("off"),
+    // Race the next route when the current one has not streamed within this many ms; omitted = sequential only
+    hedge_after_ms: z.number().int().positive().optional(),
+    // Per-model circuit breaker shared across invocations via SQLite; omitted = disabled
+    circuit_breaker: z
+      .object({
+        failure_rate: z.number().gt(0).max(1).default(0.5),
+        min_calls: z.number().int().positive().default(5),
+        window: z.number().int().positive().default(20),
+        cool_down_ms: z.number().int().positive().default(30000),
+      })
+      .optional(),
   }),
   tenancy: z.object({
     per_user_daily_tokens: z.number().int().positive().default(20000),
+    per_user_monthly_tokens: z.number().int().positive().optional(),
+    // USD budgets, charged with the same estimateCost figure as receipts
+    per_user_daily_usd: z.number().positive().optional(),
+    per_user_monthly_usd: z.number().positive().optional(),
     per_user_rpm: z.number().int().positive().default(30),
+    // Shared budgets: usage of every member counts against the team's caps (in addition to each member's own)
+    teams: z
+      .record(
+        z.object({
+          members: z.array(z.string()).min(1),
+          daily_tokens: z.number().int().positive().optional(),
+          monthly_tokens: z.number().int().positive().optional(),
+          daily_usd: z.number().positive().optional(),
+          monthly_usd: z.number().positive().optional(),
+        })
+      )
+      .optional(),
     timezone: z.string().default("Asia/Kolkata"),
   }),
   gen: z
@@ -51,7 +80,14 @@ const PolicySchema = z.object({
       json_mode: z.boolean().optional(),
     })
     .nullish(),
-  quality: z.object({ judge: z.string().nullable().optional() }).optional(),
+  quality: z
+    .object({
+      judge: z.string().nullable().optional(),            // judge model for `replay --judge`
+      mode: z.enum(["rubric", "pairwise"]).default("rubric"),
+      rubric: z.string().optional(),
+      weight: z.number().min(0).max(1).default(0.5),      // share of the replay score from judged quality vs latency/cost
+    })
+    .optional(),
 });
 
 export type Policy = z.infer<typeof PolicySchema>;
@@ -0,0 +1,389 @@
+import fs from "node:fs";
+import * as yaml from "yaml";
+import { z } from "zod";
+import type { ChatMessage, ChatParams, ToolCall, ToolChoice } from "./gateway.js";
+import { ConfigError } from "./util/errors.js";
+import { expandEnv } from "./util/env.js";
+import { callMock, DEFAULT_MOCK_FIXTURES } from "./mock.js";
+
+// Provider registry: maps model prefixes to an endpoint + wire dialect.
+// Every dialect is translated to/from the OpenAI-compatible shape the router and stream parsers expect.
+
+const ProviderSchema = z.object({
+  match: z.array(z.string()).min(1),          // model prefixes, e.g. ["anthropic/"]; "*" matches anything
+  dialect: z.enum(["openai", "anthropic", "ollama", "mock"]).default("openai"),
+  base_url: z.string().default(""),            // supports ${ENV} / ${ENV:-default}; unused by mock
+  api_key_env: z.string().optional(),
+  auth_header: z.string().optional(),          // default: Authorization (Bearer) / x-api-key for anthropic
+  headers: z.record(z.string()).default({}),
+  strip_prefix: z.boolean().default(false),    // send "claude-3-haiku" instead of "anthropic/claude-3-haiku"
+  models: z.record(z.string()).default({}),    // explicit model id rewrites, applied before strip_prefix
+  fixtures: z.string().optional(),             // mock dialect: scenario file (default fixtures/mock/scenarios.yaml)
+  stream_usage: z.boolean().default(true),     // openai dialect: send stream_options.include_usage (off for servers that reject it)
+});
+
+const ProvidersFile = z.object({ providers: z.record(ProviderSchema) });
+
+export type ProviderConfig = z.infer<typeof ProviderSchema> & { name: string };
+
+const DEFAULT_FILE = "config/providers.yaml";
+let cache: { file: string; providers: ProviderConfig[] } | null = null;
+
+export function loadProviders(file = process.env.ROUTEPILOT_PROVIDERS || DEFAULT_FILE): ProviderConfig[] {
+  if (cache && cache.file === file) return cache.providers;
+  let providers: ProviderConfig[] = [];
+  if (fs.existsSync(file)) {
+    try {
+      const parsed = ProvidersFile.parse(yaml.parse(fs.readFileSync(file, "utf8")));
+      providers = Object.entries(parsed.providers).map(([name, p]) => ({ name, ...p }));
+    } catch (e: any) {
+      const details = e?.issues ? e.issues.map((i: any) => `${i.path?.join(".") || "root"}: ${i.message}`).join("; ") : e?.message;
+      throw new ConfigError(`Invalid provider registry ${file}: ${details}`, "See config/providers.example.yaml.");
+    }
+  }
+  cache = { file, providers };
+  return providers;
+}
+
+function requireEnv(name: string): string {
+  const v = process.env[name];
+  if (!v || !v.trim()) {
+    throw new ConfigError(
+      `Missing env ${name}. Add it to your .env`,
+      name === "AI_GATEWAY_BASE_URL"
+        ? "Get the OpenAI-compatible base from Vercel AI Gateway (usually ends with /api/openai)."
+        : name === "AI_GATEWAY_API_KEY"
+        ? "Create a Gateway key in your Vercel project and paste it here."
+        : undefined
+    );
+  }
+  return v;
+}
+
+// Built-in provider used when no registry entry matches: the single Vercel AI Gateway endpoint
+function gatewayDefault(): ProviderConfig {
+  return {
+    name: "gateway",
+    match: ["*"],
+    dialect: "openai",
+    base_url: requireEnv("AI_GATEWAY_BASE_URL"),
+    api_key_env: "AI_GATEWAY_API_KEY",
+    headers: {},
+    strip_prefix: false,
+    models: {},
+    stream_usage: true,
+  };
+}
+
+// Built-in offline provider for "mock/..." models unless the registry claims that prefix
+function mockDefault(): ProviderConfig {
+  return {
+    name: "mock",
+    match: ["mock/"],
+    dialect: "mock",
+    base_url: "",
+    headers: {},
+    strip_prefix: false,
+    models: {},
+    stream_usage: true,
+  };
+}
+
+export function resolveProvider(model: string): ProviderConfig {
+  let best: { p: ProviderConfig; len: number } | null = null;
+  for (const p of loadProviders()) {
+    for (const m of p.match) {
+      const len = m === "*" ? 0 : model.startsWith(m) ? m.length : -1;
+      if (len >= 0 && (!best || len > best.len)) best = { p, len };
+    }
+  }
+  if (best && best.len > 0) return best.p;
+  if (model.startsWith("mock/")) return mockDefault();
+  return best?.p ?? gatewayDefault();
+}
+
+function upstreamModel(p: ProviderConfig, model: string): string {
+  if (p.models[model]) return p.models[model];
+  if (!p.strip_prefix) return model;
+  const prefix = p.match.filter((m) => m !== "*" && model.startsWith(m)).sort((a, b) => b.length - a.length)[0];
+  return prefix ? model.slice(prefix.length) : model;
+}
+
+function authHeaders(p: ProviderConfig): Record<string, string> {
+  if (!p.api_key_env) return {};
+  const key = requireEnv(p.api_key_env);
+  const header = p.auth_header ?? (p.dialect === "anthropic" ? "x-api-key" : "Authorization");
+  return { [header]: header.toLowerCase() === "authorization" ? `Bearer ${key}` : key };
+}
+
+export async function callProvider(p: ProviderConfig, params: ChatParams, signal?: AbortSignal): Promise<Response> {
+  if (p.dialect === "mock") {
+    const fixtures = expandEnv(p.fixtures ?? process.env.ROUTEPILOT_MOCK_FIXTURES ?? DEFAULT_MOCK_FIXTURES);
+    return callMock(fixtures, { ...params, model: upstreamModel(p, params.model) }, signal);
+  }
+  const base = expandEnv(p.base_url).replace(/\/+$/, "");
+  if (!base) throw new ConfigError(`Provider '${p.name}' has an empty base_url`);
+  const model = upstreamModel(p, params.model);
+  const headers = { "Content-Type": "application/json", ...authHeaders(p), ...p.headers };
+
+  if (p.dialect === "anthropic") {
+    const res = await fetch(`${base}/v1/messages`, {
+      method: "POST",
+      headers: { "anthropic-version": "2023-06-01", ...headers },
+      body: JSON.stringify(toAnthropicRequest({ ...params, model })),
+      signal,
+    });
+    if (!res.ok) return res;
+    return params.stream ? translateStream(res, "sse", anthropicEventToChunks()) : translateJson(res, fromAnthropicJson);
+  }
+  if (p.dialect === "ollama") {
+    const res = await fetch(`${base}/api/chat`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(toOllamaRequest({ ...params, model })),
+      signal,
+    });
+    if (!res.ok) return res;
+    return params.stream ? translateStream(res, "ndjson", ollamaRecordToChunks()) : translateJson(res, fromOllamaJson);
+  }
+  // stream_options is only valid on streaming requests
+  const { stream_options, ...rest } = params;
+  const body = params.stream && p.stream_usage && stream_options ? { ...rest, model, stream_options } : { ...rest, model };
+  return fetch(`${base}/v1/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+// ---- Anthropic Messages ----
+
+// Anthropic content blocks for one OpenAI message: tool calls become tool_use blocks, tool results tool_result blocks
+function anthropicBlocks(m: ChatMessage): any[] {
+  if (m.role === "tool") return [{ type: "tool_result", tool_use_id: m.tool_call_id, content: m.content }];
+  const blocks: any[] = m.content ? [{ type: "text", text: m.content }] : [];
+  for (const c of m.tool_calls ?? []) blocks.push({ type: "tool_use", id: c.id, name: c.function.name, input: parseToolArguments(c.function.arguments) });
+  return blocks;
+}
+
+function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const v = JSON.parse(args || "{}");
+    return v && typeof v === "object" && !Array.isArray(v) ? v : {};
+  } catch {
+    return {};
+  }
+}
+
+function toAnthropicToolChoice(choice: ToolChoice | undefined) {
+  if (!choice || choice === "auto") return undefined;
+  if (choice === "required") return { type: "any" };
+  if (choice === "none") return { type: "none" };
+  return { type: "tool", name: choice.function.name };
+}
+
+export function toAnthropicRequest(params: ChatParams) {
+  const system = params.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+  // Messages API requires alternating user/assistant turns: merge consecutive same-role messages (tool results are user turns)
+  const turns: Array<{ role: "user" | "assistant"; blocks: any[] }> = [];
+  for (const m of params.messages) {
+    if (m.role === "system") continue;
+    const role = m.role === "assistant" ? "assistant" : "user";
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) last.blocks.push(...anthropicBlocks(m));
+    else turns.push({ role, blocks: anthropicBlocks(m) });
+  }
+  if (!turns.length || turns[0].role !== "user") turns.unshift({ role: "user", blocks: [{ type: "text", text: "(continue)" }] });
+  // Text-only turns stay plain strings
+  const messages = turns.map((t) => ({
+    role: t.role,
+    content: t.blocks.every((b) => b.type === "text") ? t.blocks.map((b) => b.text).join("\n\n") : t.blocks,
+  }));
+  const toolChoice = toAnthropicToolChoice(params.tool_choice);
+  return {
+    model: params.model,
+    max_tokens: params.max_tokens ?? 1024,
+    messages,
+    ...(system ? { system } : {}),
+    ...(params.stream ? { stream: true } : {}),
+    ...(params.temperature != null ? { temperature: Math.min(params.temperature, 1) } : {}),
+    ...(params.top_p != null ? { top_p: params.top_p } : {}),
+    ...(params.stop?.length ? { stop_sequences: params.stop } : {}),
+    ...(params.tools?.length
+      ? { tools: params.tools.map((t) => ({ name: t.function.name, description: t.function.description, input_schema: t.function.parameters ?? { type: "object", properties: {} } })) }
+      : {}),
+    ...(params.tools?.length && toolChoice ? { tool_choice: toolChoice } : {}),
+  };
+}
+
+const ANTHROPIC_FINISH: Record<string, string> = { end_turn: "stop", stop_sequence: "stop", max_tokens: "length", tool_use: "tool_calls" };
+
+function anthropicEventToChunks() {
+  let prompt: number | undefined;
+  // Anthropic content block index -> OpenAI tool_calls index
+  const toolIndex = new Map<number, number>();
+  return (ev: any): any[] => {
+    if (ev?.type === "error") throw new Error(`anthropic stream error: ${ev.error?.message || "unknown"}`);
+    if (ev?.type === "message_start") { prompt = ev.message?.usage?.input_tokens; return []; }
+    if (ev?.type === "content_block_delta" && ev.delta?.type === "text_delta") {
+      return [{ choices: [{ index: 0, delta: { content: ev.delta.text } }] }];
+    }
+    if (ev?.type === "content_block_start" && ev.content_block?.type === "tool_use") {
+      const index = toolIndex.size;
+      toolIndex.set(ev.index, index);
+      const call = { index, id: ev.content_block.id, type: "function", function: { name: ev.content_block.name, arguments: "" } };
+      return [{ choices: [{ index: 0, delta: { tool_calls: [call] } }] }];
+    }
+    if (ev?.type === "content_block_delta" && ev.delta?.type === "input_json_delta" && toolIndex.has(ev.index)) {
+      return [{ choices: [{ index: 0, delta: { tool_calls: [{ index: toolIndex.get(ev.index), function: { arguments: ev.delta.partial_json ?? "" } }] } }] }];
+    }
+    if (ev?.type === "message_delta") {
+      const out: any[] = [{ choices: [{ index: 0, delta: {}, finish_reason: ANTHROPIC_FINISH[ev.delta?.stop_reason] ?? "stop" }] }];
+      const completion = ev.usage?.output_tokens;
+      if (prompt != null || completion != null) {
+        out.push({ choices: [], usage: { prompt_tokens: prompt, completion_tokens: completion, total_tokens: (prompt ?? 0) + (completion ?? 0) } });
+      }
+      return out;
+    }
+    return [];
+  };
+}
+
+export function fromAnthropicJson(obj: any) {
+  const content = Array.isArray(obj?.content) ? obj.content.filter((c: any) => c?.type === "text").map((c: any) => c.text).join("") : "";
+  const toolCalls = Array.isArray(obj?.content)
+    ? obj.content.filter((c: any) => c?.type === "tool_use").map((c: any) => ({ id: c.id, type: "function", function: { name: c.name, arguments: JSON.stringify(c.input ?? {}) } }))
+    : [];
+  const prompt = obj?.usage?.input_tokens;
+  const completion = obj?.usage?.output_tokens;
+  return {
+    id: obj?.id,
+    object: "chat.completion",
+    model: obj?.model,
+    choices: [{ index: 0, message: { role: "assistant", content, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) }, finish_reason: ANTHROPIC_FINISH[obj?.stop_reason] ?? "stop" }],
+    ...(prompt != null || completion != null ? { usage: { prompt_tokens: prompt, completion_tokens: completion, total_tokens: (prompt ?? 0) + (completion ?? 0) } } : {}),
+  };
+}
+
+// ---- Ollama /api/chat ----
+
+export function toOllamaRequest(params: ChatParams) {
+  const options: Record<string, any> = {};
+  if (params.max_tokens != null) options.num_predict = params.max_tokens;
+  if (params.temperature != null) options.temperature = params.temperature;
+  if (params.top_p != null) options.top_p = params.top_p;
+  if (params.stop?.length) options.stop = params.stop;
+  // Ollama takes tool-call arguments as objects; tool results are plain `tool` messages
+  const messages = params.messages.map((m) =>
+    m.tool_calls?.length
+      ? { role: m.role, content: m.content, tool_calls: m.tool_calls.map((c) => ({ function: { name: c.function.name, arguments: parseToolArguments(c.function.arguments) } })) }
+      : { role: m.role, content: m.content }
+  );
+  return {
+    model: params.model,
+    messages,
+    stream: !!params.stream,
+    ...(Object.keys(options).length ? { options } : {}),
+    ...(params.response_format?.type === "json_object" ? { format: "json" } : {}),
+    ...(params.tools?.length && params.tool_choice !== "none" ? { tools: params.tools } : {}),
+  };
+}
+
+function ollamaToolCalls(message: any, offset: number): ToolCall[] {
+  return (Array.isArray(message?.tool_calls) ? message.tool_calls : []).map((c: any, i: number) => ({
+    id: `call_${offset + i}`,
+    type: "function" as const,
+    function: { name: String(c?.function?.name ?? ""), arguments: JSON.stringify(c?.function?.arguments ?? {}) },
+  }));
+}
+
+// Ollama sends each tool call whole (arguments as an object), so each becomes one complete tool_calls delta
+function ollamaRecordToChunks() {
+  let calls = 0;
+  return (rec: any): any[] => {
+    if (rec?.error) throw new Error(`ollama error: ${rec.error}`);
+    const out: any[] = [];
+    const text = rec?.message?.content;
+    if (text) out.push({ choices: [{ index: 0, delta: { content: text } }] });
+    const toolCalls = ollamaToolCalls(rec?.message, calls);
+    if (toolCalls.length) {
+      out.push({ choices: [{ index: 0, delta: { tool_calls: toolCalls.map((c, i) => ({ index: calls + i, ...c })) } }] });
+      calls += toolCalls.length;
+    }
+    if (rec?.done) {
+      out.push({ choices: [{ index: 0, delta: {}, finish_reason: calls ? "tool_calls" : rec.done_reason === "length" ? "length" : "stop" }] });
+      if (rec.prompt_eval_count != null || rec.eval_count != null) {
+        out.push({ choices: [], usage: { prompt_tokens: rec.prompt_eval_count, completion_tokens: rec.eval_count, total_tokens: (rec.prompt_eval_count ?? 0) + (rec.eval_count ?? 0) } });
+      }
+    }
+    return out;
+  };
+}
+
+export function fromOllamaJson(obj: any) {
+  const toolCalls = ollamaToolCalls(obj?.message, 0);
+  const finish = toolCalls.length ? "tool_calls" : obj?.done_reason === "length" ? "length" : "stop";
+  return {
+    object: "chat.completion",
+    model: obj?.model,
+    choices: [{ index: 0, message: { role: "assistant", content: obj?.message?.content ?? "", ...(toolCalls.length ? { tool_calls: toolCalls } : {}) }, finish_reason: finish }],
+    ...(obj?.prompt_eval_count != null || obj?.eval_count != null
+      ? { usage: { prompt_tokens: obj.prompt_eval_count, completion_tokens: obj.eval_count, total_tokens: (obj.prompt_eval_count ?? 0) + (obj.eval_count ?? 0) } }
+      : {}),
+  };
+}
+
+// ---- Response translation ----
+
+async function translateJson(res: Response, map: (obj: any) => any): Promise<Response> {
+  const obj = await res.json();
+  const headers = new Headers(res.headers);
+  headers.set("content-type", "application/json");
+  headers.delete("content-length");
+  return new Response(JSON.stringify(map(obj)), { status: res.status, statusText: res.statusText, headers });
+}
+
+// Re-encode a provider stream (SSE events or NDJSON lines) as OpenAI-style `data: {...}` chunks
+function translateStream(res: Response, framing: "sse" | "ndjson", toChunks: (record: any) => any[]): Response {
+  if (!res.body) return res;
+  const reader = res.body.getReader();
+  const dec = new TextDecoder();
+  const enc = new TextEncoder();
+  const sep = framing === "sse" ? "\n\n" : "\n";
+  let buf = "";
+  const emit = (controller: ReadableStreamDefaultController<Uint8Array>, raw: string) => {
+    const json = framing === "sse"
+      ? raw.split("\n").filter((l) => l.startsWith("data:")).map((l) => l.slice(5).trim()).join("")
+      : raw.trim();
+    if (!json) return;
+    let rec: any;
+    try { rec = JSON.parse(json); } catch { return; }
+    for (const chunk of toChunks(rec)) controller.enqueue(enc.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+  };
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        if (buf.trim()) emit(controller, buf);
+        controller.enqueue(enc.encode("data: [DONE]\n\n"));
+        controller.close();
+        return;
+      }
+      buf += dec.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      let idx;
+      while ((idx = buf.indexOf(sep)) !== -1) {
+        const raw = buf.slice(0, idx);
+        buf = buf.slice(idx + sep.length);
+        emit(controller, raw);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  const headers = new Headers(res.headers);
+  headers.set("content-type", "text/event-stream");
+  headers.delete("content-length");
+  return new Response(body, { status: res.status, statusText: res.statusText, headers });
+}
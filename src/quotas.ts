@@ -1,5 +1,8 @@
+import crypto from "node:crypto";
 import db from "./db.js";
+import { estimateCost } from "./rates.js";
 import { QuotaError } from "./util/errors.js";
+import type { Policy } from "./policy.js";
 
 const DEFAULT_TZ = "Asia/Kolkata";
 
@@ -39,53 +42,153 @@ export function assertWithinRpm(userRef: string, rpmLimit: number) {
   );
 }
 
-export function addDailyTokens(
-  userRef: string,
-  tokens: number,
-  dailyCap: number,
-  tz?: string
-) {
+export type Tenancy = Pick<Policy["tenancy"], "per_user_daily_tokens" | "per_user_monthly_tokens" | "per_user_daily_usd" | "per_user_monthly_usd" | "teams" | "timezone">;
+export type QuotaKind = "daily" | "monthly" | "daily_usd" | "monthly_usd";
+
+// One enforced dimension for a user or a team the user belongs to
+export type Budget = { scope: "user" | "team"; name: string; kind: QuotaKind; used: number; limit: number; remaining: number; resetsAt: string };
+
+const round6 = (n: number) => Math.round(n * 1e6) / 1e6;
+
+type Totals = { tokensToday: number; tokensMonth: number; usdToday: number; usdMonth: number };
+
+// Recorded usage plus live reservations (calls in flight)
+function totalsFor(userRefs: string[], tz?: string): Totals {
   const day = dayInTZ(tz);
+  const { start, end } = monthRangeInTZ(tz);
+  const marks = userRefs.map(() => "?").join(",");
   const row = db
     .prepare(
-      "SELECT tokens FROM quotas_daily WHERE user_ref=? AND day=?"
+      `SELECT COALESCE(SUM(CASE WHEN day=? THEN tokens END),0) as tokensToday, COALESCE(SUM(tokens),0) as tokensMonth,
+              COALESCE(SUM(CASE WHEN day=? THEN cost_usd END),0) as usdToday, COALESCE(SUM(cost_usd),0) as usdMonth
+       FROM (SELECT user_ref, day, tokens, cost_usd FROM quotas_daily
+             UNION ALL
+             SELECT user_ref, day, tokens, cost_usd FROM quota_reservations WHERE expires_at > ?)
+       WHERE user_ref IN (${marks}) AND day BETWEEN ? AND ?`
     )
-    .get(userRef, day) as { tokens: number } | undefined;
-  const newTokens = (row?.tokens ?? 0) + tokens;
-  if (newTokens > dailyCap)
-    throw new QuotaError("daily", `daily token cap reached (${dailyCap})` , dailyCap, day);
-  if (row) {
-    db.prepare("UPDATE quotas_daily SET tokens=? WHERE user_ref=? AND day=?").run(
-      newTokens,
-      userRef,
-      day
-    );
-  } else {
-    db.prepare(
-      "INSERT INTO quotas_daily(user_ref, day, tokens) VALUES(?,?,?)"
-    ).run(userRef, day, tokens);
+    .get(day, day, Date.now(), ...userRefs, start, end) as Totals;
+  return row;
+}
+
+export function teamsFor(userRef: string, tenancy: Pick<Tenancy, "teams">): string[] {
+  return Object.entries(tenancy.teams ?? {}).filter(([, t]) => t.members.includes(userRef)).map(([name]) => name);
+}
+
+// Every configured cap that applies to userRef (own caps plus each team's shared caps), with usage so far.
+// `pending` is added on top of recorded usage, for checking a call before it is recorded.
+export function budgetsFor(userRef: string, tenancy: Tenancy, pending = { tokens: 0, usd: 0 }): Budget[] {
+  const tz = tenancy.timezone;
+  const resets = { day: resetsAtString(tz), month: monthResetString(tz) };
+  const out: Budget[] = [];
+  const push = (scope: Budget["scope"], name: string, t: Totals, caps: Partial<Record<QuotaKind, number>>) => {
+    const used: Record<QuotaKind, number> = {
+      daily: t.tokensToday + pending.tokens,
+      monthly: t.tokensMonth + pending.tokens,
+      daily_usd: t.usdToday + pending.usd,
+      monthly_usd: t.usdMonth + pending.usd,
+    };
+    for (const kind of ["daily", "monthly", "daily_usd", "monthly_usd"] as const) {
+      const limit = caps[kind];
+      if (limit == null) continue;
+      const usd = kind.endsWith("_usd");
+      const u = usd ? round6(used[kind]) : used[kind];
+      out.push({ scope, name, kind, used: u, limit, remaining: Math.max(0, usd ? round6(limit - u) : limit - u), resetsAt: kind.startsWith("daily") ? resets.day : resets.month });
+    }
+  };
+  push("user", userRef, totalsFor([userRef], tz), {
+    daily: tenancy.per_user_daily_tokens,
+    monthly: tenancy.per_user_monthly_tokens,
+    daily_usd: tenancy.per_user_daily_usd,
+    monthly_usd: tenancy.per_user_monthly_usd,
+  });
+  for (const name of teamsFor(userRef, tenancy)) {
+    const team = tenancy.teams![name];
+    push("team", name, totalsFor(team.members, tz), { daily: team.daily_tokens, monthly: team.monthly_tokens, daily_usd: team.daily_usd, monthly_usd: team.monthly_usd });
   }
+  return out;
+}
+
+function quotaError(b: Budget, needed?: number): QuotaError {
+  const usd = b.kind.endsWith("_usd");
+  const fmt = (n: number) => (usd ? `$${round6(n)}` : `${n} tokens`);
+  const what = `${b.kind.startsWith("daily") ? "daily" : "monthly"} ${usd ? "budget" : "token cap"}`;
+  const who = b.scope === "team" ? `team '${b.name}' ` : "";
+  const msg = needed == null
+    ? `${who}${what} reached (${fmt(b.limit)})`
+    : `${who}${what} would be exceeded: this call may use up to ${fmt(needed)}, ${usd ? fmt(Math.max(0, b.limit - (b.used - needed))) : Math.max(0, b.limit - (b.used - needed))} of ${fmt(b.limit)} left`;
+  return new QuotaError(b.kind, msg, b.limit, b.resetsAt, b.scope === "team" ? b.name : undefined);
+}
+
+// Reservations left behind by a crashed process stop counting after this long
+const RESERVATION_TTL_MS = 10 * 60_000;
+
+export type QuotaAmount = { tokens: number; usd: number };
+export type Reservation = { id: string; userRef: string; day: string } & QuotaAmount;
+
+// Worst case for one routed call: estimated prompt + max_tokens, priced at the most expensive candidate
+export function reservationAmount(models: string[], promptTokens: number, maxTokens: number): QuotaAmount {
+  const usd = Math.max(0, ...models.map((m) => estimateCost(m, promptTokens, maxTokens)));
+  return { tokens: promptTokens + maxTokens, usd };
+}
+
+// Hold `amount` against every budget that applies to userRef before routing. The check and the insert share one
+// IMMEDIATE transaction, so concurrent CLI processes and `serve` cannot oversubscribe a budget.
+export function reserveQuota(userRef: string, amount: QuotaAmount, tenancy: Tenancy): Reservation {
+  const res: Reservation = { id: crypto.randomUUID(), userRef, day: dayInTZ(tenancy.timezone), ...amount };
+  db.transaction(() => {
+    const now = Date.now();
+    db.prepare("DELETE FROM quota_reservations WHERE expires_at <= ?").run(now);
+    const spent = budgetsFor(userRef, tenancy).find((b) => b.used >= b.limit);
+    if (spent) throw quotaError(spent);
+    const over = budgetsFor(userRef, tenancy, amount).find((b) => b.used > b.limit);
+    if (over) throw quotaError(over, over.kind.endsWith("_usd") ? amount.usd : amount.tokens);
+    db.prepare(
+      "INSERT INTO quota_reservations(id, user_ref, day, tokens, cost_usd, expires_at) VALUES(?,?,?,?,?,?)"
+    ).run(res.id, userRef, res.day, amount.tokens, amount.usd, now + RESERVATION_TTL_MS);
+  }).immediate();
+  return res;
+}
+
+// Replace the hold with what the call actually used (more or less than reserved); never throws for overage
+export function settleQuota(res: Reservation, tokens: number, costUsd: number) {
+  db.transaction(() => {
+    db.prepare("DELETE FROM quota_reservations WHERE id=?").run(res.id);
+    db.prepare(
+      `INSERT INTO quotas_daily(user_ref, day, tokens, cost_usd) VALUES(?,?,?,?)
+       ON CONFLICT(user_ref, day) DO UPDATE SET tokens = tokens + excluded.tokens, cost_usd = cost_usd + excluded.cost_usd`
+    ).run(res.userRef, res.day, tokens, costUsd);
+  }).immediate();
+}
+
+// Drop the hold without charging (the call failed before producing output)
+export function releaseQuota(res: Reservation) {
+  db.prepare("DELETE FROM quota_reservations WHERE id=?").run(res.id);
 }
 
-export function usageSummary(userRef: string, tz?: string) {
+export function usageSummary(userRef: string, tz?: string, tenancy?: Tenancy) {
   const day = dayInTZ(tz);
-  const daily = (db
-    .prepare("SELECT tokens FROM quotas_daily WHERE user_ref=? AND day=?")
-    .get(userRef, day) as { tokens: number } | undefined)?.tokens ?? 0;
-  const { start, end } = monthRangeInTZ(tz);
-  const monthly = (db
-    .prepare(
-      "SELECT COALESCE(SUM(tokens),0) as t FROM quotas_daily WHERE user_ref=? AND day BETWEEN ? AND ?"
-    )
-    .get(userRef, start, end) as { t: number }).t;
-  return { day, tokensToday: daily, tokensMonth: monthly, resetsAt: resetsAtString(tz) };
+  const t = totalsFor([userRef], tz);
+  const reserved = db
+    .prepare("SELECT COALESCE(SUM(tokens),0) as tokens, COALESCE(SUM(cost_usd),0) as usd FROM quota_reservations WHERE user_ref=? AND expires_at > ?")
+    .get(userRef, Date.now()) as QuotaAmount;
+  // Totals include `reserved` (holds of calls still in flight)
+  return {
+    day,
+    tokensToday: t.tokensToday,
+    tokensMonth: t.tokensMonth,
+    usdToday: round6(t.usdToday),
+    usdMonth: round6(t.usdMonth),
+    reserved: { tokens: reserved.tokens, usd: round6(reserved.usd) },
+    resetsAt: resetsAtString(tz),
+    ...(tenancy ? { teams: teamsFor(userRef, tenancy), budgets: budgetsFor(userRef, { ...tenancy, timezone: tz ?? tenancy.timezone }) } : {}),
+  };
 }
 
 export function resetDailyTokens(userRef: string, tz?: string) {
   const day = dayInTZ(tz);
   const row = db.prepare("SELECT tokens FROM quotas_daily WHERE user_ref=? AND day=?").get(userRef, day) as { tokens: number } | undefined;
   if (!row) return; // nothing to reset
-  db.prepare("UPDATE quotas_daily SET tokens=0 WHERE user_ref=? AND day=?").run(userRef, day);
+  db.prepare("UPDATE quotas_daily SET tokens=0, cost_usd=0 WHERE user_ref=? AND day=?").run(userRef, day);
 }
 
 function resetsAtString(tz?: string): string {
@@ -103,3 +206,13 @@ function resetsAtString(tz?: string): string {
   const pad = (n: number) => String(n).padStart(2, '0');
   return `${yy}-${pad(mm)}-${pad(dd)}T00:00:00 ${zone}`;
 }
+
+function monthResetString(tz?: string): string {
+  // First day of next month at 00:00 in tz
+  const zone = tz || process.env.TZ || DEFAULT_TZ;
+  const now = new Date();
+  let yy = parseInt(now.toLocaleString("en-CA", { timeZone: zone, year: "numeric" }), 10);
+  let mm = parseInt(now.toLocaleString("en-CA", { timeZone: zone, month: "2-digit" }), 10) + 1;
+  if (mm > 12) { mm = 1; yy += 1; }
+  return `${yy}-${String(mm).padStart(2, '0')}-01T00:00:00 ${zone}`;
+}
@@ -3,25 +3,56 @@ import * as yaml from "yaml";
 
 // Dollars per 1K tokens (PLACEHOLDERS — override via config/rates.yaml)
 const DEFAULT_RATES: Record<string, { input: number; output: number }> = {
-  "openai/gpt-4o-mini": { input: 0.15, output: 0.6 },
-  "anthropic/claude-3-haiku": { input: 0.25, output: 1.25 },
-  "mistral/small": { input: 0.1, output: 0.3 },
+  "openai/gpt-4o-mini": { input: 0.00015, output: 0.0006 },
+  "anthropic/claude-3-haiku": { input: 0.00025, output: 0.00125 },
+  "mistral/small": { input: 0.0001, output: 0.0003 },
 };
+const UNKNOWN_RATE = { input: 0.0002, output: 0.0008 };
 
-function loadOverrides(): Record<string, { input: number; output: number }> {
+let warnedNoUnit = false;
+
+type RateTable = Record<string, { input: number; output: number }>;
+
+// config/rates.yaml: `<model>: { input, output }` in USD per 1K tokens, or per 1M with a top-level `unit: per_1m`.
+// A file without `unit:` is read per 1K as written (magnitudes are not guessed at), with a one-time warning.
+export function normalizeRates(obj: Record<string, any>, file = "config/rates.yaml"): RateTable {
+  const { unit, ...table } = obj ?? {};
+  const rates = table as RateTable;
+  if (unit == null) {
+    if (!warnedNoUnit) {
+      warnedNoUnit = true;
+      process.stderr.write(`[rates] ${file} has no \`unit:\`; reading it as USD per 1K tokens. Add \`unit: per_1k\` or \`unit: per_1m\` to silence this.\n`);
+    }
+  } else if (unit !== "per_1k" && unit !== "per_1m") {
+    throw new Error(`${file}: unit must be per_1k or per_1m`);
+  }
+  if (unit !== "per_1m") return rates;
+  const out: RateTable = {};
+  for (const [m, r] of Object.entries(rates)) out[m] = { input: r.input / 1000, output: r.output / 1000 };
+  return out;
+}
+
+function loadOverrides(): RateTable {
   const file = "config/rates.yaml";
   if (!fs.existsSync(file)) return {};
   const raw = fs.readFileSync(file, "utf8");
-  const obj = yaml.parse(raw);
-  return obj ?? {};
+  return normalizeRates(yaml.parse(raw) ?? {}, file);
 }
 
-export function getRates(): Record<string, { input: number; output: number }> {
+export function getRates(): RateTable {
   return { ...DEFAULT_RATES, ...loadOverrides() };
 }
 
 export function estimateCost(model: string, prompt: number, completion: number) {
   const rates = getRates();
-  const r = rates[model] ?? { input: 0.2, output: 0.8 };
+  const r = rates[model] ?? UNKNOWN_RATE;
   return (prompt * r.input + completion * r.output) / 1000;
 }
+
+// Largest completion that keeps `prompt` + completion under `ceilingUsd` (0 when the prompt alone exceeds it)
+export function maxCompletionWithin(model: string, prompt: number, ceilingUsd: number): number {
+  const r = getRates()[model] ?? UNKNOWN_RATE;
+  if (r.output <= 0) return Number.POSITIVE_INFINITY;
+  const left = ceilingUsd * 1000 - prompt * r.input;
+  return left <= 0 ? 0 : Math.floor(left / r.output);
+}
@@ -1,15 +1,22 @@
 import crypto from "node:crypto";
 import fs from "node:fs";
 import db from "./db.js";
+import { sha256Hex } from "./util/hash.js";
+import { currentSigner, signText, verifyText, loadPublicKeys, SignatureAlg } from "./signing.js";
+import { RouterError } from "./util/errors.js";
+import type { CostPreflight, HedgeRecord } from "./router.js";
+import type { ToolCall } from "./gateway.js";
+import type { ResolvedUsage } from "./util/usage.js";
 
 export type ReceiptInput = {
+  id?: string; // pre-allocated id (e.g., sent to an HTTP client before the call finishes)
   policy: string;
   route_primary: string;
   route_final: string;
   model_path?: string;
   fallback_count: number;
   latency_ms: number;
-  usage: { prompt: number; completion: number; cost: number };
+  usage: { prompt: number; completion: number; cost: number; source?: ResolvedUsage["source"] };
   mirrorJson?: boolean;
   prompt_hash?: string;
   policy_hash?: string;
@@ -20,36 +27,60 @@ export type ReceiptInput = {
   extras?: Record<string, any>;
 };
 
+// prev_hash of the first chained receipt
+export const GENESIS_HASH = "0".repeat(64);
+
+// Chain link for a stored receipt: covers the signed payload (which embeds prev_hash) and its signature
+function chainHash(payloadJson: string, signature: string): string {
+  return sha256Hex(`${payloadJson}\n${signature}`);
+}
+
 export function writeReceipt(data: ReceiptInput) {
-  const id = crypto.randomUUID();
-  const ts = new Date().toISOString();
-  const payload = maybeRedact({ id, ts, ...data, ...(data.extras ? { meta: data.extras } : {}) });
-  const signature = sign(payload);
-
-  db.prepare(
-    `INSERT INTO receipts(id, ts, policy, route_primary, route_final, fallback_count, latency_ms, first_token_ms, prompt_hash, policy_hash, task_id, parent_id, reasons, prompt_tokens, completion_tokens, cost_usd, signature, payload_json, model_path)
-     VALUES(?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`
-  ).run(
-    id,
-    ts,
-    data.policy,
-    data.route_primary,
-    data.route_final,
-    data.fallback_count,
-    data.latency_ms,
-    data.first_token_ms ?? null,
-    data.prompt_hash ?? null,
-    data.policy_hash ?? null,
-    data.task_id ?? null,
-    data.parent_id ?? null,
-    data.reasons ? JSON.stringify(data.reasons) : null,
-    data.usage.prompt,
-    data.usage.completion,
-    data.usage.cost,
-    signature,
-    JSON.stringify(payload),
-    data.model_path ?? data.route_final ?? null
-  );
+  const id = data.id ?? crypto.randomUUID();
+  let payload: any;
+  let signature = "";
+
+  // IMMEDIATE transaction: concurrent writers (CLI + serve) cannot fork the chain
+  db.transaction(() => {
+    const last = db.prepare(`SELECT seq, hash FROM receipts WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 1`).get() as { seq: number; hash: string } | undefined;
+    const seq = (last?.seq ?? 0) + 1;
+    const prev_hash = last?.hash ?? GENESIS_HASH;
+    const ts = new Date().toISOString();
+    const signer = currentSigner();
+    payload = maybeRedact({ id, ts, seq, prev_hash, sig_alg: signer.alg, ...(signer.kid ? { key_id: signer.kid } : {}), ...data, ...(data.extras ? { meta: data.extras } : {}) });
+    const payloadJson = JSON.stringify(payload);
+    signature = signText(payloadJson, signer);
+
+    db.prepare(
+      `INSERT INTO receipts(id, ts, policy, route_primary, route_final, fallback_count, latency_ms, first_token_ms, prompt_hash, policy_hash, task_id, parent_id, reasons, prompt_tokens, completion_tokens, cost_usd, signature, payload_json, model_path, seq, prev_hash, hash, sig_alg, key_id)
+       VALUES(?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`
+    ).run(
+      id,
+      ts,
+      data.policy,
+      data.route_primary,
+      data.route_final,
+      data.fallback_count,
+      data.latency_ms,
+      data.first_token_ms ?? null,
+      data.prompt_hash ?? null,
+      data.policy_hash ?? null,
+      data.task_id ?? null,
+      data.parent_id ?? null,
+      data.reasons ? JSON.stringify(data.reasons) : null,
+      data.usage.prompt,
+      data.usage.completion,
+      data.usage.cost,
+      signature,
+      payloadJson,
+      data.model_path ?? data.route_final ?? null,
+      seq,
+      prev_hash,
+      chainHash(payloadJson, signature),
+      signer.alg,
+      signer.kid ?? null
+    );
+  }).immediate();
 
   if (process.env.ROUTEPILOT_MIRROR_JSON === "1" || data.mirrorJson) {
     fs.mkdirSync("data/receipts", { recursive: true });
@@ -59,11 +90,51 @@ export function writeReceipt(data: ReceiptInput) {
   return id;
 }
 
-function sign(obj: any) {
-  const secret = process.env.JWT_SECRET ?? "dev-secret";
-  const h = crypto.createHmac("sha256", secret);
-  h.update(JSON.stringify(obj));
-  return h.digest("hex");
+// Record a route that never produced output (all attempts failed or a non-retryable error stopped it)
+export function writeFailureReceipt(
+  base: Pick<ReceiptInput, "id" | "policy" | "route_primary" | "prompt_hash" | "policy_hash" | "task_id" | "parent_id" | "mirrorJson"> & { extras?: Record<string, any> },
+  err: RouterError
+) {
+  const last = err.attempts[err.attempts.length - 1];
+  return writeReceipt({
+    ...base,
+    route_final: last?.model ?? base.route_primary,
+    model_path: err.attempts.map((a) => a.model).join(">") || undefined,
+    fallback_count: err.meta.fallbackCount ?? err.attempts.length,
+    latency_ms: err.meta.latency ?? 0,
+    first_token_ms: null,
+    reasons: err.meta.reasons,
+    usage: { prompt: 0, completion: 0, cost: 0 },
+    extras: {
+      ...(base.extras || {}),
+      failed: true,
+      error: err.message,
+      ...(err.meta.nonRetryable?.length ? { non_retryable: err.meta.nonRetryable } : {}),
+      ...(err.meta.preflight ? { preflight: err.meta.preflight } : {}),
+      ...(err.meta.circuitOpen?.length ? { circuit_open: err.meta.circuitOpen } : {}),
+      ...(err.meta.hedge ? { hedge: err.meta.hedge } : {}),
+    },
+  });
+}
+
+// Routing details for receipt meta: pre-flight cost estimate, a flag when the actual cost went over
+// objectives.max_cost_usd, models skipped by an open circuit and both sides of a hedged attempt
+export function routeExtras(
+  routed: { preflight?: CostPreflight; circuitOpen: string[]; hedge?: HedgeRecord; finishReason?: string; toolCalls?: ToolCall[] },
+  cost: number,
+  maxCostUsd: number
+) {
+  return {
+    ...(routed.preflight ? { preflight: routed.preflight } : {}),
+    ...(cost > maxCostUsd ? { over_cost_objective: true } : {}),
+    ...(routed.circuitOpen.length ? { circuit_open: routed.circuitOpen } : {}),
+    ...(routed.hedge ? { hedge: routed.hedge } : {}),
+    ...(routed.finishReason ? { finish_reason: routed.finishReason } : {}),
+    // Tool calls the model asked for: names plus a hash of the arguments (which may carry user data)
+    ...(routed.toolCalls?.length
+      ? { tool_calls: routed.toolCalls.map((c) => ({ id: c.id, name: c.function.name, args_sha256: sha256Hex(c.function.arguments) })) }
+      : {}),
+  };
 }
 
 // Optional redaction: if ROUTEPILOT_REDACT=1, scrub simple PII patterns in snapshot/meta fields
@@ -88,12 +159,112 @@ function maybeRedact<T extends Record<string, any>>(obj: T): T {
 export function getReceipt(id: string) {
   return db
     .prepare(
-      `SELECT id, ts, policy, route_primary, route_final, fallback_count, latency_ms, first_token_ms, prompt_hash, policy_hash, task_id, parent_id, reasons, prompt_tokens, completion_tokens, cost_usd, signature, payload_json
+      `SELECT id, ts, policy, route_primary, route_final, fallback_count, latency_ms, first_token_ms, prompt_hash, policy_hash, task_id, parent_id, reasons, prompt_tokens, completion_tokens, cost_usd, signature, payload_json, seq, prev_hash, hash, sig_alg, key_id
        FROM receipts WHERE id=?`
     )
     .get(id);
 }
 
+type ChainRow = {
+  id: string; ts: string; policy: string; route_final: string | null;
+  prompt_tokens: number | null; completion_tokens: number | null; cost_usd: number | null;
+  signature: string; payload_json: string; seq: number | null; prev_hash: string | null; hash: string | null;
+  sig_alg: SignatureAlg | null; key_id: string | null;
+};
+
+// publicKeysDir: verify Ed25519 receipts with only these public keys (HMAC receipts are then reported as unverifiable)
+export type VerifyOptions = { publicKeysDir?: string };
+
+export type VerifyIssue = { id: string; seq: number | null; problems: string[] };
+export type VerifyReport = { checked: number; ok: number; unchained: number; issues: VerifyIssue[]; head?: { seq: number; hash: string } };
+
+const CHAIN_COLUMNS = `id, ts, policy, route_final, prompt_tokens, completion_tokens, cost_usd, signature, payload_json, seq, prev_hash, hash, sig_alg, key_id`;
+
+type Verifier = (row: ChainRow) => string[];
+
+function makeVerifier(opts?: VerifyOptions): Verifier {
+  const publicKeys = loadPublicKeys(opts?.publicKeysDir);
+  return (row) => checkReceiptRow(row, { publicKeys, publicOnly: !!opts?.publicKeysDir });
+}
+
+// Signature, signed-payload vs column consistency and the stored chain hash of a single row
+function checkReceiptRow(row: ChainRow, keys: Parameters<typeof verifyText>[3]): string[] {
+  let payload: any;
+  try { payload = JSON.parse(row.payload_json); } catch { return ["payload_json is not valid JSON"]; }
+  const problems: string[] = [];
+  // Receipts from before key support carry no sig_alg and are HMAC-signed
+  const signer = { alg: (payload.sig_alg ?? "hmac-sha256") as SignatureAlg, kid: payload.key_id };
+  const bad = verifyText(row.payload_json, row.signature, signer, keys);
+  if (bad) problems.push(bad);
+  const columns: Array<[string, any, any]> = [
+    ["sig_alg", row.sig_alg ?? "hmac-sha256", signer.alg],
+    ["key_id", row.key_id ?? undefined, signer.kid],
+    ["id", row.id, payload.id],
+    ["ts", row.ts, payload.ts],
+    ["policy", row.policy, payload.policy],
+    ["route_final", row.route_final, payload.route_final],
+    ["prompt_tokens", row.prompt_tokens, payload.usage?.prompt],
+    ["completion_tokens", row.completion_tokens, payload.usage?.completion],
+    ["cost_usd", row.cost_usd, payload.usage?.cost],
+  ];
+  for (const [name, col, signed] of columns) {
+    if (col !== signed) problems.push(`column ${name} differs from the signed payload`);
+  }
+  if (row.seq != null) {
+    if (payload.seq !== row.seq || payload.prev_hash !== row.prev_hash) problems.push("seq/prev_hash differ from the signed payload");
+    if (chainHash(row.payload_json, row.signature) !== row.hash) problems.push("chain hash mismatch");
+  }
+  return problems;
+}
+
+export function verifyReceipt(id: string, opts?: VerifyOptions): VerifyReport | null {
+  const row = db.prepare(`SELECT ${CHAIN_COLUMNS} FROM receipts WHERE id=?`).get(id) as ChainRow | undefined;
+  if (!row) return null;
+  const problems = makeVerifier(opts)(row);
+  if (row.seq != null && row.seq > 1) {
+    const prev = db.prepare(`SELECT seq, hash FROM receipts WHERE seq=?`).get(row.seq - 1) as { seq: number; hash: string } | undefined;
+    if (!prev) problems.push(`previous receipt (seq ${row.seq - 1}) is missing`);
+    else if (prev.hash !== row.prev_hash) problems.push(`prev_hash does not match receipt seq ${prev.seq}`);
+  } else if (row.seq === 1 && row.prev_hash !== GENESIS_HASH) {
+    problems.push("first receipt does not start from the genesis hash");
+  }
+  return {
+    checked: 1,
+    ok: problems.length ? 0 : 1,
+    unchained: row.seq == null ? 1 : 0,
+    issues: problems.length ? [{ id: row.id, seq: row.seq, problems }] : [],
+  };
+}
+
+// Walk the whole log in seq order: every row must verify and link to the one before it.
+// Receipts written before chaining existed (seq NULL) are only signature-checked.
+export function verifyAllReceipts(opts?: VerifyOptions): VerifyReport {
+  const report: VerifyReport = { checked: 0, ok: 0, unchained: 0, issues: [] };
+  const check = makeVerifier(opts);
+  const record = (row: ChainRow, problems: string[]) => {
+    report.checked++;
+    if (problems.length) report.issues.push({ id: row.id, seq: row.seq, problems });
+    else report.ok++;
+  };
+  for (const row of db.prepare(`SELECT ${CHAIN_COLUMNS} FROM receipts WHERE seq IS NULL ORDER BY ts ASC`).iterate() as Iterable<ChainRow>) {
+    report.unchained++;
+    record(row, check(row));
+  }
+  let prev: { seq: number; hash: string | null } = { seq: 0, hash: GENESIS_HASH };
+  for (const row of db.prepare(`SELECT ${CHAIN_COLUMNS} FROM receipts WHERE seq IS NOT NULL ORDER BY seq ASC`).iterate() as Iterable<ChainRow>) {
+    const problems = check(row);
+    const seq = row.seq!;
+    if (seq !== prev.seq + 1) {
+      problems.push(seq - prev.seq === 2 ? `receipt seq ${prev.seq + 1} is missing` : `receipts seq ${prev.seq + 1}..${seq - 1} are missing`);
+    }
+    if (row.prev_hash !== prev.hash) problems.push(`prev_hash does not match ${prev.seq ? `receipt seq ${prev.seq}` : "the genesis hash"}`);
+    record(row, problems);
+    prev = { seq, hash: row.hash };
+  }
+  if (prev.seq) report.head = { seq: prev.seq, hash: prev.hash ?? "" };
+  return report;
+}
+
 export function listReceipts(limit = 20) {
   return db
     .prepare(
@@ -121,7 +292,7 @@ export function timelineForTask(taskId: string) {
       if (r.payload_json) {
         const p = JSON.parse(r.payload_json);
         agent = p.agent;
-        if (p.meta && p.meta.tool_results) has_tools = true;
+        if (p.meta && (p.meta.tool_results || p.meta.tool_calls)) has_tools = true;
       }
     } catch {}
     let reasons: string[] | undefined;
@@ -179,7 +350,7 @@ export function timelineRowsRaw(taskId: string): TimelineRow[] {
       if (r.payload_json) {
         const p = JSON.parse(r.payload_json);
         agent = p.agent;
-        if (p.meta && p.meta.tool_results) has_tools = true;
+        if (p.meta && (p.meta.tool_results || p.meta.tool_calls)) has_tools = true;
       }
     } catch {}
     let reasons: string[] | undefined; try { reasons = r.reasons ? JSON.parse(r.reasons) : undefined; } catch {}
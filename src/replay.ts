@@ -2,7 +2,25 @@ import db from "./db.js";
 import { loadPolicy } from "./policy.js";
 import { runWithFallback } from "./router.js";
 import { estimateCost } from "./rates.js";
-import { streamSSEToVoid } from "./util/stream.js";
+import { streamSSEToWriterWithGate } from "./util/stream.js";
+import { RouterError } from "./util/errors.js";
+import { resolveUsage } from "./util/usage.js";
+import { judgeRubric, judgePairwise, JudgeUsage, Verdict } from "./judge.js";
+
+type ReplayResult = {
+  model: string;
+  latency_ms: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  output: string;
+  error?: string;
+  quality?: number | null;
+  judge_reason?: string;
+  judge_tokens?: number;     // judge calls for this result (two in pairwise mode)
+  judge_cost_usd?: number;
+  score?: number;
+};
 
 export async function replayPrompt(
   policyName: string,
@@ -16,55 +34,93 @@ export async function replayPrompt(
   const messages = [{ role: "user", content: text }];
   if (policy.gen?.system) messages.unshift({ role: "system", content: policy.gen.system });
 
-  const results: Array<{
-    model: string;
-    latency_ms: number;
-    prompt_tokens: number;
-    completion_tokens: number;
-    cost_usd: number;
-  }> = [];
+  const results: ReplayResult[] = [];
 
   for (const model of models) {
-    const { latency, usagePrompt, usageCompletion, routeFinal } = await runWithFallback(
-      { primary: [model], backups: [] },
-      policy.objectives.p95_latency_ms,
-      policy.routing.p95_window_n,
-      messages as any,
-      Math.min(policy.objectives.max_tokens ?? 1024, 2048),
-      policy.strategy.fallback_on_latency_ms ?? 1500,
-      1,                     // attempts: measure the target model only
-      [0],                   // no backoff needed
-      policy.strategy.first_chunk_gate_ms,
-      policy.strategy.escalate_after_fallbacks,
-      policy.gen ?? undefined,
-      policy.routing.params ?? undefined,
-      async (res, onFirst) => { await streamSSEToVoid(res, onFirst); },
-      undefined,
-      false
-    );
-    const prompt = usagePrompt ?? 300;
-    const completion = usageCompletion ?? 200;
-    const cost = estimateCost(routeFinal, prompt, completion);
-    results.push({ model: routeFinal, latency_ms: latency, prompt_tokens: prompt, completion_tokens: completion, cost_usd: Number(cost.toFixed(6)) });
+    let output = "";
+    try {
+      const { latency, usagePrompt, usageCompletion, usageVia, routeFinal } = await runWithFallback(
+        { primary: [model], backups: [] },
+        policy.objectives.p95_latency_ms,
+        policy.routing.p95_window_n,
+        messages as any,
+        Math.min(policy.objectives.max_tokens ?? 1024, 2048),
+        policy.strategy.fallback_on_latency_ms ?? 1500,
+        1,                     // attempts: measure the target model only
+        [0],                   // no backoff needed
+        policy.strategy.first_chunk_gate_ms,
+        policy.strategy.escalate_after_fallbacks,
+        policy.gen ?? undefined,
+        policy.routing.params ?? undefined,
+        async (res, onFirst) => { output = await streamSSEToWriterWithGate(res, onFirst, 0, () => false, () => {}); },
+        undefined,
+        false
+      );
+      const { prompt, completion } = resolveUsage(routeFinal, messages, output, { prompt: usagePrompt, completion: usageCompletion, via: usageVia });
+      const cost = estimateCost(routeFinal, prompt, completion);
+      results.push({ model: routeFinal, latency_ms: latency, prompt_tokens: prompt, completion_tokens: completion, cost_usd: Number(cost.toFixed(6)), output });
+    } catch (e: any) {
+      // A failing alternative is a result too; keep comparing the others
+      if (!(e instanceof RouterError)) throw e;
+      results.push({ model, latency_ms: e.meta.latency ?? 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0, output: "", error: e.message });
+    }
   }
 
-  // Optional heuristic judge scoring
-  let scored: Array<any> = [];
-  if (opts?.judge) {
-    const lat = results.map(r => r.latency_ms);
-    const cost = results.map(r => r.cost_usd);
+  const ok = results.filter((r) => !r.error);
+  const judgeModel = opts?.judge ? policy.quality?.judge ?? null : null;
+  let judge: { model: string; mode: "rubric" | "pairwise" } | "heuristic" | undefined;
+  let judgeCost = 0;
+  if (opts?.judge && ok.length) {
+    // Latency/cost heuristic (0.6/0.4), blended with judged quality when the policy names a judge model
+    const lat = ok.map(r => r.latency_ms);
+    const cost = ok.map(r => r.cost_usd);
     const minLat = Math.min(...lat);
     const minCost = Math.min(...cost);
     const maxLat = Math.max(...lat);
     const maxCost = Math.max(...cost);
     const norm = (v: number, min: number, max: number) => max === min ? 1 : (max - v) / (max - min);
-    scored = results.map(r => ({ ...r, score: Number((0.6 * norm(r.latency_ms, minLat, maxLat) + 0.4 * norm(r.cost_usd, minCost, maxCost)).toFixed(3)) }));
-  } else {
-    scored = results;
+    const quality = policy.quality;
+    if (judgeModel && quality) {
+      judge = { model: judgeModel, mode: quality.mode };
+      const baseline = ok.find((r) => r.model === basePrimary);
+      const charge = (r: ReplayResult, usage: JudgeUsage | undefined) => {
+        if (!usage) return;
+        r.judge_tokens = usage.prompt_tokens + usage.completion_tokens;
+        r.judge_cost_usd = Number(usage.cost_usd.toFixed(6));
+        judgeCost += usage.cost_usd;
+      };
+      for (const r of ok) {
+        try {
+          let verdict: Verdict;
+          if (quality.mode === "pairwise") {
+            if (!baseline) throw new Error(`pairwise judging needs the primary (${basePrimary}) output`);
+            verdict = r === baseline ? { score: 0.5, reason: "baseline", usage: { prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 } } : await judgePairwise(judgeModel, text, baseline.output, r.output, quality.rubric);
+          } else {
+            verdict = await judgeRubric(judgeModel, text, r.output, quality.rubric);
+          }
+          r.quality = Number(verdict.score.toFixed(3));
+          r.judge_reason = verdict.reason;
+          charge(r, verdict.usage);
+        } catch (e: any) {
+          r.quality = null;
+          r.judge_reason = `judge failed: ${e?.message || e}`;
+          charge(r, e?.usage);
+        }
+      }
+    } else {
+      judge = "heuristic";
+    }
+    const weight = judgeModel ? quality?.weight ?? 0.5 : 0;
+    for (const r of ok) {
+      const speed = 0.6 * norm(r.latency_ms, minLat, maxLat) + 0.4 * norm(r.cost_usd, minCost, maxCost);
+      const blended = r.quality != null ? weight * r.quality + (1 - weight) * speed : speed;
+      r.score = Number(blended.toFixed(3));
+    }
   }
 
-  // Suggest backups sorted by latency (keep current primary as is)
-  const sorted = [...results].sort((a, b) => a.latency_ms - b.latency_ms).map((r) => r.model);
+  // Suggest backups (keep current primary as is): by score when judged, else by latency; failures last
+  const rank = (r: ReplayResult) => (r.error ? Infinity : r.score != null ? -r.score : r.latency_ms);
+  const sorted = [...results].sort((a, b) => rank(a) - rank(b)).map((r) => r.model);
   const suggestedBackups = sorted.filter((m) => m !== basePrimary);
 
   const suggestedPatch = {
@@ -75,7 +131,9 @@ export async function replayPrompt(
     },
   };
 
-  return { policy: policy.policy, primary: basePrimary, results: scored, suggestedPatch };
+  // Judge calls are extra spend on top of the replayed calls
+  const judged = typeof judge === "object" ? { judge_cost_usd: Number(judgeCost.toFixed(6)) } : {};
+  return { policy: policy.policy, primary: basePrimary, ...(judge ? { judge } : {}), ...judged, results, suggestedPatch };
 }
 
 type ReceiptRow = {
@@ -0,0 +1,176 @@
+import db from "./db.js";
+
+// `report`: spend, latency and fallback analytics over receipts + traces.
+// Receipts carry first-token time, fallbacks and reasons; traces add user_ref (same id) and cover agent turns
+// that were not receipted (--receipts-per-message off), which only contribute latency, tokens and cost.
+// Sub-agent tool calls (`route_final: tool/<name>`) and shadow markers (meta.shadow) are not served calls and are left out.
+
+export const REPORT_DIMENSIONS = ["policy", "model", "user", "hour", "day", "week", "month"] as const;
+export type ReportDimension = (typeof REPORT_DIMENSIONS)[number];
+export type ReportFilter = { since?: string; until?: string; policy?: string; user?: string; model?: string };
+
+type Call = {
+  ts: string; policy: string | null; model: string | null; user: string | null; latency_ms: number | null;
+  first_token_ms: number | null; fallbacks: number; reasons: string[]; prompt_tokens: number; completion_tokens: number;
+  tokens: number; cost_usd: number; failed: boolean;
+};
+
+export type ReportGroup = {
+  key: Partial<Record<ReportDimension, string>>;
+  calls: number;
+  failed: number;
+  latency_p50_ms: number | null;
+  latency_p95_ms: number | null;
+  first_token_p50_ms: number | null;
+  first_token_p95_ms: number | null;
+  fallback_rate: number;                 // share of calls that needed at least one fallback
+  fallback_reasons: Record<string, number>; // reason -> share of calls that hit it
+  prompt_tokens: number;
+  completion_tokens: number;
+  tokens: number;
+  cost_usd: number;
+};
+
+function loadCalls(filter: ReportFilter): Call[] {
+  const where: string[] = [];
+  const args: string[] = [];
+  if (filter.since) { where.push("ts >= ?"); args.push(filter.since); }
+  if (filter.until) { where.push("ts < ?"); args.push(filter.until); }
+  if (filter.policy) { where.push("policy = ?"); args.push(filter.policy); }
+  if (filter.model) { where.push("model = ?"); args.push(filter.model); }
+  if (filter.user) { where.push("user_ref = ?"); args.push(filter.user); }
+  const rows = db
+    .prepare(
+      `SELECT * FROM (
+         SELECT r.ts, r.policy, r.route_final AS model, t.user_ref, r.latency_ms, r.first_token_ms, r.fallback_count, r.reasons,
+                r.prompt_tokens, r.completion_tokens, NULL AS tokens, r.cost_usd, r.payload_json
+         FROM receipts r LEFT JOIN traces t ON t.id = r.id
+         WHERE r.route_final NOT LIKE 'tool/%' AND json_extract(r.payload_json, '$.meta.shadow') IS NOT 1
+         UNION ALL
+         SELECT t.ts, t.policy, t.route_final, t.user_ref, t.latency_ms, NULL, 0, NULL, NULL, NULL, t.tokens, t.cost_usd, NULL
+         FROM traces t WHERE NOT EXISTS (SELECT 1 FROM receipts r WHERE r.id = t.id)
+       ) ${where.length ? `WHERE ${where.join(" AND ")}` : ""}`
+    )
+    .all(...args) as any[];
+  return rows.map((r) => {
+    let payload: any = {};
+    try { payload = r.payload_json ? JSON.parse(r.payload_json) : {}; } catch {}
+    let reasons: string[] = [];
+    try { reasons = r.reasons ? JSON.parse(r.reasons) : []; } catch {}
+    const prompt = r.prompt_tokens ?? 0;
+    const completion = r.completion_tokens ?? 0;
+    return {
+      ts: r.ts,
+      policy: r.policy,
+      model: r.model,
+      // serve receipts keep the user in meta; their trace row carries it too
+      user: r.user_ref ?? payload.meta?.user_ref ?? null,
+      latency_ms: r.latency_ms,
+      first_token_ms: r.first_token_ms,
+      fallbacks: r.fallback_count ?? 0,
+      reasons,
+      prompt_tokens: prompt,
+      completion_tokens: completion,
+      tokens: r.tokens ?? prompt + completion,
+      cost_usd: r.cost_usd ?? 0,
+      failed: !!payload.meta?.failed,
+    };
+  });
+}
+
+// Calendar parts of an instant in an IANA timezone
+function localParts(iso: string, tz: string) {
+  const parts = new Intl.DateTimeFormat("en-CA", { timeZone: tz, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", hourCycle: "h23" })
+    .formatToParts(new Date(iso));
+  const get = (t: string) => parts.find((p) => p.type === t)?.value ?? "00";
+  return { y: get("year"), m: get("month"), d: get("day"), h: get("hour") };
+}
+
+function bucket(iso: string, dim: "hour" | "day" | "week" | "month", tz: string): string {
+  const { y, m, d, h } = localParts(iso, tz);
+  if (dim === "hour") return `${y}-${m}-${d}T${h}`;
+  if (dim === "day") return `${y}-${m}-${d}`;
+  if (dim === "month") return `${y}-${m}`;
+  // week: labelled by the date of its Monday
+  const date = new Date(Date.UTC(+y, +m - 1, +d));
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function dimensionValue(c: Call, dim: ReportDimension, tz: string): string {
+  switch (dim) {
+    case "policy": return c.policy ?? "(none)";
+    case "model": return c.model ?? "(none)";
+    case "user": return c.user ?? "(none)";
+    default: return bucket(c.ts, dim, tz);
+  }
+}
+
+// Same nearest-rank convention as p95LatencyFor
+function percentile(values: number[], q: number): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(q * (sorted.length - 1))] ?? null;
+}
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export function buildReport(by: ReportDimension[], filter: ReportFilter = {}, tz = "UTC"): { by: ReportDimension[]; tz: string; groups: ReportGroup[]; total: ReportGroup } {
+  const calls = loadCalls(filter);
+  const groups = new Map<string, { key: ReportGroup["key"]; calls: Call[] }>();
+  for (const c of calls) {
+    const key: ReportGroup["key"] = {};
+    for (const dim of by) key[dim] = dimensionValue(c, dim, tz);
+    const k = JSON.stringify(by.map((d) => key[d]));
+    if (!groups.has(k)) groups.set(k, { key, calls: [] });
+    groups.get(k)!.calls.push(c);
+  }
+  const summarize = (key: ReportGroup["key"], cs: Call[]): ReportGroup => {
+    const ok = cs.filter((c) => !c.failed);
+    const reasons: Record<string, number> = {};
+    for (const c of cs) for (const r of new Set(c.reasons)) reasons[r] = (reasons[r] ?? 0) + 1;
+    for (const r of Object.keys(reasons)) reasons[r] = round(reasons[r] / cs.length, 4);
+    const latencies = ok.map((c) => c.latency_ms).filter((v): v is number => v != null);
+    const firsts = ok.map((c) => c.first_token_ms).filter((v): v is number => v != null);
+    return {
+      key,
+      calls: cs.length,
+      failed: cs.length - ok.length,
+      latency_p50_ms: percentile(latencies, 0.5),
+      latency_p95_ms: percentile(latencies, 0.95),
+      first_token_p50_ms: percentile(firsts, 0.5),
+      first_token_p95_ms: percentile(firsts, 0.95),
+      fallback_rate: cs.length ? round(cs.filter((c) => c.fallbacks > 0).length / cs.length, 4) : 0,
+      fallback_reasons: reasons,
+      prompt_tokens: cs.reduce((s, c) => s + c.prompt_tokens, 0),
+      completion_tokens: cs.reduce((s, c) => s + c.completion_tokens, 0),
+      tokens: cs.reduce((s, c) => s + c.tokens, 0),
+      cost_usd: round(cs.reduce((s, c) => s + c.cost_usd, 0), 6),
+    };
+  };
+  const out = [...groups.values()].map((g) => summarize(g.key, g.calls));
+  // Time buckets ascending, otherwise most expensive first
+  out.sort((a, b) => {
+    for (const dim of by) {
+      if (["hour", "day", "week", "month"].includes(dim) && a.key[dim] !== b.key[dim]) return a.key[dim]! < b.key[dim]! ? -1 : 1;
+    }
+    return b.cost_usd - a.cost_usd || b.calls - a.calls;
+  });
+  return { by, tz, groups: out, total: summarize({}, calls) };
+}
+
+export function formatReport(report: ReturnType<typeof buildReport>): string {
+  const ms = (v: number | null) => (v == null ? "-" : `${v}`);
+  const pct = (v: number) => `${round(v * 100, 1)}%`;
+  const header = [...report.by, "calls", "failed", "p50_ms", "p95_ms", "ttft_p50", "ttft_p95", "fallback", "tokens", "cost_usd", "reasons"];
+  const row = (g: ReportGroup, label?: string) => [
+    ...report.by.map((d, i) => (label && i === 0 ? label : label ? "" : g.key[d] ?? "")),
+    `${g.calls}`, `${g.failed}`, ms(g.latency_p50_ms), ms(g.latency_p95_ms), ms(g.first_token_p50_ms), ms(g.first_token_p95_ms),
+    pct(g.fallback_rate), `${g.tokens}`, g.cost_usd.toFixed(6),
+    Object.entries(g.fallback_reasons).sort((a, b) => b[1] - a[1]).map(([r, v]) => `${r}=${pct(v)}`).join(" "),
+  ];
+  const rows = [header, ...report.groups.map((g) => row(g))];
+  if (report.by.length) rows.push(row(report.total, "TOTAL"));
+  const widths = header.map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  return rows.map((r) => r.map((c, i) => (i === r.length - 1 ? c : c.padEnd(widths[i]))).join("  ").trimEnd()).join("\n");
+}
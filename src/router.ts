@@ -1,14 +1,159 @@
-import { callGateway, ChatParams } from "./gateway.js";
-import { streamSSEToStdout, streamSSEToBufferAndStdoutWithGate } from "./util/stream.js";
+import { callGateway, ChatParams, ToolCall, ToolChoice, ToolDefinition } from "./gateway.js";
+import { streamSSEToStdout, streamSSEToBufferAndStdoutWithGate, streamMeta } from "./util/stream.js";
 import { GatewayError, RouterError } from "./util/errors.js";
 import { fastestByRecentP95, p95LatencyFor, recentSampleCount } from "./db.js";
-import { parseUsageFromHeaders } from "./util/usage.js";
+import { estimatePromptTokens, parseUsageFromHeaders } from "./util/usage.js";
+import { estimateCost, maxCompletionWithin } from "./rates.js";
+import { circuitAllows, claimCircuit, recordCircuitOutcome, CircuitConfig } from "./circuit.js";
+import type { Policy } from "./policy.js";
 
 type RoutePlan = { primary: string[]; backups: string[] };
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
 type RouteParams = { temperature?: number; top_p?: number; stop?: string[]; json_mode?: boolean };
 
+export type RouteOptions = {
+  // Policy `strategy.retry_on`; empty/undefined falls back on every error
+  retryOn?: string[];
+  // Policy `objectives.max_cost_usd` and `strategy.cost_ceiling`
+  maxCostUsd?: number;
+  costCeiling?: "clamp" | "skip" | "off";
+  // Policy `strategy.circuit_breaker`; undefined disables the breaker
+  circuitBreaker?: CircuitConfig;
+  // Policy `strategy.hedge_after_ms`; undefined keeps strictly sequential fallback
+  hedgeAfterMs?: number;
+  // OpenAI-style tool definitions sent with every attempt; providers with another dialect translate them
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  // True once the stream handler has passed output on (e.g. flushed to an HTTP client); a failure after that ends the call
+  committed?: () => boolean;
+};
+
+export function routeOptionsFor(policy: Policy): RouteOptions {
+  return {
+    retryOn: policy.strategy.retry_on,
+    maxCostUsd: policy.objectives.max_cost_usd,
+    costCeiling: policy.strategy.cost_ceiling,
+    circuitBreaker: policy.strategy.circuit_breaker,
+    hedgeAfterMs: policy.strategy.hedge_after_ms,
+  };
+}
+
+// Both sides of a hedged attempt; the loser's prompt is billed even though it was aborted
+export type HedgeRecord = {
+  after_ms: number;
+  attempts: Array<{ model: string; started_ms: number; outcome: "won" | "lost" | "failed" }>;
+  loser_cost_usd: number;
+};
+
+type Attempt = { model: string; ac: AbortController; attemptStart: number; timedOut: boolean; cleanup: () => void };
+
+type HedgeOutcome = {
+  winner?: Attempt;
+  res?: Response;
+  loser?: Attempt;   // still in flight when the winner streamed; aborted by the caller
+  second?: Attempt;  // set when the partner was launched
+  failures: Array<{ att: Attempt; error: any }>;
+};
+
+export type CostPreflight = {
+  prompt_tokens_est: number;
+  ceiling_usd: number;
+  mode: "clamp" | "skip" | "off";
+  estimates: Record<string, number>; // worst-case USD per candidate at full max_tokens
+  clamped: Record<string, number>;   // model -> reduced max_tokens
+  skipped: string[];
+};
+
+// Below this a clamped completion is not worth attempting; the model is skipped instead
+const MIN_CLAMPED_TOKENS = 64;
+
+export function applyCostCeiling(
+  models: string[],
+  promptTokens: number,
+  maxTokens: number,
+  ceilingUsd: number,
+  mode: "clamp" | "skip" | "off"
+): { models: string[]; preflight: CostPreflight } {
+  const preflight: CostPreflight = { prompt_tokens_est: promptTokens, ceiling_usd: ceilingUsd, mode, estimates: {}, clamped: {}, skipped: [] };
+  const kept: string[] = [];
+  for (const m of models) {
+    const est = estimateCost(m, promptTokens, maxTokens);
+    preflight.estimates[m] = Number(est.toFixed(6));
+    if (mode === "off" || est <= ceilingUsd) { kept.push(m); continue; }
+    const fit = mode === "clamp" ? maxCompletionWithin(m, promptTokens, ceilingUsd) : 0;
+    if (fit >= Math.min(MIN_CLAMPED_TOKENS, maxTokens)) {
+      preflight.clamped[m] = Math.min(fit, maxTokens);
+      kept.push(m);
+    } else {
+      preflight.skipped.push(m);
+    }
+  }
+  return { models: kept, preflight };
+}
+
+// Policy-level names that cover one or more classified reasons
+const RETRY_ALIASES: Record<string, string[]> = {
+  connect_timeout: ["stall", "error"],
+  timeout: ["stall"],
+};
+
+export function isRetryable(reason: string, retryOn?: string[]): boolean {
+  if (!retryOn || !retryOn.length) return true;
+  return retryOn.some((r) =>
+    r === reason ||
+    (r === "http_4xx" && /^http_4\d\d$/.test(reason)) ||
+    (RETRY_ALIASES[r]?.includes(reason) ?? false)
+  );
+}
+
+// Wait for the first content or tool-call delta (or end of stream) and return a Response that replays everything read so far.
+// Used to decide a hedged race before either side writes output.
+async function primeStream(res: Response): Promise<Response> {
+  if (!res.body) return res;
+  const reader = res.body.getReader();
+  const dec = new TextDecoder();
+  const seen: Uint8Array[] = [];
+  let text = "";
+  let ended = false;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) { ended = true; break; }
+    seen.push(value);
+    text += dec.decode(value, { stream: true });
+    const hasContent = text.split("\n").some((line) => {
+      const m = /^data:\s*(.*)$/.exec(line.trim());
+      if (!m) return false;
+      if (m[1] === "[DONE]") return true;
+      try {
+        const obj = JSON.parse(m[1]);
+        const delta = obj?.choices?.[0]?.delta;
+        return !!(delta?.content ?? obj?.choices?.[0]?.text) || !!delta?.tool_calls?.length;
+      } catch { return false; }
+    });
+    if (hasContent) break;
+  }
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const buffered = seen.shift();
+      if (buffered) { controller.enqueue(buffered); return; }
+      if (ended) { controller.close(); return; }
+      const { value, done } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+// Reasons that say something about the model's health (client errors and caller aborts do not)
+function countsAgainstCircuit(reason: string): boolean {
+  return reason === "5xx" || reason === "rate_limit" || reason === "stall" || reason === "error";
+}
+
 export async function runWithFallback(
   plan: RoutePlan,
   targetP95: number,
@@ -22,9 +167,11 @@ export async function runWithFallback(
   escalateAfter: number,
   gen?: { temperature?: number; top_p?: number; stop?: string[]; json_mode?: boolean },
   routeParams?: Record<string, RouteParams>,
-  streamHandler?: (res: Response, onFirstChunk: () => void) => Promise<void>,
+  // `model` is the attempt whose response is being streamed (a backup or hedge partner may win)
+  streamHandler?: (res: Response, onFirstChunk: () => void, signal: AbortSignal, model: string) => Promise<void>,
   externalAbort?: AbortSignal,
-  debug?: boolean
+  debug?: boolean,
+  opts?: RouteOptions
 ) {
   const primaryModel = plan.primary[0];
   const recentP95 = p95LatencyFor(primaryModel, p95WindowN);
@@ -35,110 +182,287 @@ export async function runWithFallback(
       ? [fastestBackup, ...plan.primary, ...plan.backups.filter((b) => b !== fastestBackup)]
       : [...plan.primary, ...plan.backups];
 
-  const tries = startList;
+  let tries = startList;
+  const circuitOpen: string[] = [];
+  const breaker = opts?.circuitBreaker;
+  if (breaker) {
+    tries = [];
+    for (const m of startList) (circuitAllows(m, breaker) ? tries : circuitOpen).push(m);
+    if (debug && circuitOpen.length) process.stderr.write(`[route] circuit open: ${circuitOpen.join(",")}\n`);
+    if (!tries.length) {
+      throw new RouterError(
+        `All routes have an open circuit (${circuitOpen.join(", ")}); retry after strategy.circuit_breaker.cool_down_ms=${breaker.cool_down_ms}`,
+        [],
+        { reasons: circuitOpen.map(() => "circuit_open"), fallbackCount: 0, latency: 0, circuitOpen }
+      );
+    }
+  }
+  // Prompt size for cost estimates (pre-flight ceiling, hedge loser): counted once, before any attempt starts,
+  // so loading the tokenizer never delays a stream
+  const promptTokensEst = opts?.maxCostUsd != null || opts?.hedgeAfterMs ? estimatePromptTokens(messages, tries[0]) : 0;
+  let preflight: CostPreflight | undefined;
+  if (opts?.maxCostUsd != null) {
+    const pf = applyCostCeiling(tries, promptTokensEst, maxTokens, opts.maxCostUsd, opts.costCeiling ?? "off");
+    tries = pf.models;
+    preflight = pf.preflight;
+    if (debug && (preflight.skipped.length || Object.keys(preflight.clamped).length)) {
+      process.stderr.write(`[route] cost ceiling $${opts.maxCostUsd}: skipped=${preflight.skipped.join(",") || "-"} clamped=${JSON.stringify(preflight.clamped)}\n`);
+    }
+    if (!tries.length) {
+      throw new RouterError(
+        `No route fits objectives.max_cost_usd=$${opts.maxCostUsd} (est. prompt ${preflight.prompt_tokens_est} tokens, max_tokens ${maxTokens})`,
+        [],
+        { reasons: ["cost_ceiling"], fallbackCount: 0, latency: 0, preflight, circuitOpen }
+      );
+    }
+  }
   let used: string[] = [];
   let start = Date.now();
   let routeFinal = "";
   let fallbackCount = 0;
   let firstTokenMs: number | null = null;
-  const reasons: string[] = [];
+  const reasons: string[] = circuitOpen.map(() => "circuit_open");
   const attemptErrors: Array<{ model: string; message: string; status?: number }> = [];
+  const nonRetryable: Array<{ model: string; reason: string; status?: number; message: string }> = [];
 
   let attempts = 0;
   let usagePrompt: number | undefined;
   let usageCompletion: number | undefined;
+  let usageVia: "stream" | "header" | undefined;
+  let finishReason: string | undefined;
+  let toolCalls: ToolCall[] = [];
+  let output: string | undefined; // text captured by the default stdout handler (callers with a handler capture their own)
+  let hedge: HedgeRecord | undefined;
+  const hedgeAfterMs = opts?.hedgeAfterMs;
+  let committedFailure: string | undefined; // model that failed after the caller had passed its output on
+
+  // Per-attempt controller: stall timer plus propagation of the caller's abort signal
+  const begin = (model: string): Attempt => {
+    const ac = new AbortController();
+    const att: Attempt = { model, ac, attemptStart: Date.now(), timedOut: false, cleanup: () => {} };
+    const onExternal = () => ac.abort();
+    if (externalAbort) externalAbort.addEventListener('abort', onExternal);
+    const origAbort = ac.abort.bind(ac);
+    (ac as any).abort = () => { att.timedOut = true; origAbort(); };
+    const stallTimer = setTimeout(() => ac.abort(), fallbackOnMs);
+    att.cleanup = () => {
+      clearTimeout(stallTimer);
+      if (externalAbort) externalAbort.removeEventListener('abort', onExternal);
+    };
+    return att;
+  };
+
+  const open = async (att: Attempt): Promise<Response> => {
+    const model = att.model;
+    // Chaos toggles
+    const primaryModel = plan.primary[0];
+    if (process.env.CHAOS_PRIMARY_STALL === '1' && model === primaryModel) {
+      await sleep(fallbackOnMs + 50);
+      throw new Error('AbortError: chaos stall');
+    }
+    if (process.env.CHAOS_HTTP_5XX === '1' && model === primaryModel) {
+      throw new GatewayError('HTTP 503 Service Unavailable (chaos)', 503, 'chaos');
+    }
+    const perModel = routeParams?.[model] ?? {};
+    const merged = { ...(gen || {}), ...perModel } as RouteParams;
+    const call: ChatParams = { model, messages, max_tokens: preflight?.clamped[model] ?? maxTokens, stream: true, stream_options: { include_usage: true } };
+    if (merged.temperature !== undefined) call.temperature = merged.temperature;
+    if (merged.top_p !== undefined) call.top_p = merged.top_p;
+    if (merged.stop) call.stop = merged.stop;
+    if (merged.json_mode) call.response_format = { type: "json_object" };
+    if (opts?.tools?.length) {
+      call.tools = opts.tools;
+      if (opts.toolChoice) call.tool_choice = opts.toolChoice;
+    }
+    const res = await callGateway(call, att.ac.signal);
+    if (!res.ok) {
+      let body = "";
+      try { body = (await res.text()).slice(0, 300); } catch {}
+      throw new GatewayError(`HTTP ${res.status} ${res.statusText}`, res.status, body);
+    }
+    return res;
+  };
+
+  // Bookkeeping for a failed attempt; returns false when the reason is not retryable
+  const fail = (att: Attempt, e: any, next?: string): boolean => {
+    const model = att.model;
+    att.cleanup();
+    fallbackCount++;
+    used.push(model);
+    if (debug) process.stderr.write(`[route] fail model=${model} err=${e?.message || e}\n`);
+    attemptErrors.push({ model, message: e?.message || String(e), status: e?.status });
+    // Reason classification
+    if (typeof e?.status === 'number') {
+      if (e.status === 429) reasons.push('rate_limit');
+      else if (e.status >= 500) reasons.push('5xx');
+      else reasons.push(`http_${e.status}`);
+    } else if (att.timedOut || /aborted|AbortError/i.test(String(e?.message))) {
+      reasons.push('stall');
+    } else {
+      reasons.push('error');
+    }
+    const reason = reasons[reasons.length - 1];
+    if (breaker && countsAgainstCircuit(reason) && !(externalAbort && externalAbort.aborted)) {
+      const state = recordCircuitOutcome(model, false, breaker);
+      if (debug && state === "open") process.stderr.write(`[route] circuit opened for ${model}\n`);
+    }
+    if (!isRetryable(reason, opts?.retryOn)) {
+      nonRetryable.push({ model, reason, status: e?.status, message: e?.message || String(e) });
+      if (process.stderr.isTTY) {
+        const Rr = "\x1b[31m"; const R0 = "\x1b[0m";
+        process.stderr.write(`${Rr}[fallback] ${model} ${reason} is not in retry_on → stopping${R0}\n`);
+      }
+      return false;
+    }
+    if (next && process.stderr.isTTY) {
+      const Y = "\x1b[33m"; const R = "\x1b[0m";
+      process.stderr.write(`${Y}[fallback] ${model} ${reason} after ${Date.now() - att.attemptStart}ms → trying ${next}${R}\n`);
+    }
+    return true;
+  };
+
+  // Hedged pair: launch `partner` if `first` has no content after hedgeAfterMs; the first to stream wins.
+  // Rejects with the first attempt's error when it fails before the partner was launched.
+  const race = (first: Attempt, partner: string) => new Promise<HedgeOutcome>((resolve, reject) => {
+    let second: Attempt | undefined;
+    let settled = false;
+    let pending = 0;
+    const failures: Array<{ att: Attempt; error: any }> = [];
+    const finish = (outcome: Omit<HedgeOutcome, "second" | "failures">) => {
+      settled = true;
+      clearTimeout(timer);
+      resolve({ ...outcome, second, failures });
+    };
+    const run = (att: Attempt) => {
+      pending++;
+      open(att).then((res) => primeStream(res)).then(
+        (res) => {
+          if (settled) { att.ac.abort(); att.cleanup(); return; }
+          const loser = att === first ? second : first;
+          finish({ winner: att, res, loser: loser && !failures.some((f) => f.att === loser) ? loser : undefined });
+        },
+        (error) => {
+          pending--;
+          if (settled) return;
+          failures.push({ att, error });
+          if (!second) { settled = true; clearTimeout(timer); reject(error); return; }
+          if (pending === 0) finish({});
+        }
+      );
+    };
+    const timer = setTimeout(() => {
+      if (settled) return;
+      // Partner's half-open probe went to someone else: keep waiting on `first`; the loop skips the partner later
+      if (breaker && !claimCircuit(partner, breaker)) return;
+      if (debug) process.stderr.write(`[route] hedge: ${first.model} silent after ${hedgeAfterMs}ms → racing ${partner}\n`);
+      second = begin(partner);
+      run(second);
+    }, hedgeAfterMs);
+    run(first);
+  });
+
   for (let i = 0; i < tries.length; i++) {
     const model = tries[i];
     if (attempts >= maxAttempts) break;
+    // The probe is claimed only now, when the attempt really runs
+    if (breaker && !claimCircuit(model, breaker)) {
+      circuitOpen.push(model);
+      reasons.push("circuit_open");
+      continue;
+    }
     attempts++;
     if (debug) process.stderr.write(`\n[route] try ${attempts}/${Math.min(maxAttempts, tries.length)} model=${model}\n`);
-    const ac = new AbortController();
-    let abortListener: any;
-    if (externalAbort) {
-      abortListener = () => (ac as any).abort();
-      externalAbort.addEventListener('abort', abortListener);
-    }
-    const stallTimer = setTimeout(() => ac.abort(), fallbackOnMs);
-    const attemptStart = Date.now();
-    let abortedByTimer = false;
-    const origAbort = ac.abort.bind(ac);
-    (ac as any).abort = () => { abortedByTimer = true; origAbort(); };
+    let att = begin(model);
+    const partner = hedgeAfterMs != null && attempts < maxAttempts ? tries[i + 1] : undefined;
 
     try {
-      // Chaos toggles
-      const primaryModel = plan.primary[0];
-      if (process.env.CHAOS_PRIMARY_STALL === '1' && model === primaryModel) {
-        await sleep(fallbackOnMs + 50);
-        throw new Error('AbortError: chaos stall');
-      }
-      if (process.env.CHAOS_HTTP_5XX === '1' && model === primaryModel) {
-        throw new GatewayError('HTTP 503 Service Unavailable (chaos)', 503, 'chaos');
-      }
-      const perModel = routeParams?.[model] ?? {};
-      const merged = { ...(gen || {}), ...perModel } as RouteParams;
-      const call: ChatParams = { model, messages, max_tokens: maxTokens, stream: true };
-      if (merged.temperature !== undefined) call.temperature = merged.temperature;
-      if (merged.top_p !== undefined) call.top_p = merged.top_p;
-      if (merged.stop) call.stop = merged.stop;
-      if (merged.json_mode) call.response_format = { type: "json_object" };
-      const res = await callGateway(call, ac.signal);
-      if (!res.ok) {
-        let body = "";
-        try { body = (await res.text()).slice(0, 300); } catch {}
-        throw new GatewayError(`HTTP ${res.status} ${res.statusText}`, res.status, body);
+      let res: Response;
+      if (partner) {
+        const raced = await race(att, partner);
+        if (raced.second) { attempts++; i++; }
+        const started = (a: Attempt) => a.attemptStart - start;
+        if (raced.second) {
+          const loserCost = raced.loser ? estimateCost(raced.loser.model, promptTokensEst, 0) : 0;
+          hedge = {
+            after_ms: hedgeAfterMs!,
+            attempts: [att, raced.second].map((a) => ({
+              model: a.model,
+              started_ms: started(a),
+              outcome: a === raced.winner ? "won" : a === raced.loser ? "lost" : "failed",
+            })),
+            loser_cost_usd: Number(loserCost.toFixed(6)),
+          };
+        }
+        if (raced.loser) { raced.loser.ac.abort(); raced.loser.cleanup(); }
+        let stop = false;
+        for (const f of raced.failures) {
+          const next = raced.winner?.model ?? tries[i + 1];
+          if (!fail(f.att, f.error, next)) stop = true;
+        }
+        if (!raced.winner) {
+          if (stop) break;
+          const backoff = backoffMs[Math.min(fallbackCount - 1, backoffMs.length - 1)] ?? 100;
+          await sleep(backoff);
+          continue;
+        }
+        if (raced.winner !== att) {
+          if (!raced.failures.some((f) => f.att === att)) { fallbackCount++; reasons.push('hedge'); }
+          att = raced.winner;
+        }
+        res = raced.res!;
+      } else {
+        res = await open(att);
       }
+      const winner = att;
 
       let firstChunkSeen = false;
       const firstChunkTimer = setTimeout(() => {
         if (!firstChunkSeen) {
-          (ac as any).abort();
+          (winner.ac as any).abort();
         }
       }, fallbackOnMs);
 
       const handler = streamHandler ?? (async (res: Response, onFirst: () => void) => {
-        return streamSSEToBufferAndStdoutWithGate(res, onFirst, firstChunkGateMs, () => abortedByTimer);
-      });
-      await handler(res, () => {
-        firstChunkSeen = true;
-        if (firstTokenMs == null) firstTokenMs = Date.now() - attemptStart;
+        output = await streamSSEToBufferAndStdoutWithGate(res, onFirst, firstChunkGateMs, () => winner.timedOut);
       });
+      try {
+        await handler(res, () => {
+          firstChunkSeen = true;
+          if (firstTokenMs == null) firstTokenMs = Date.now() - winner.attemptStart;
+        }, winner.ac.signal, winner.model);
+      } finally {
+        clearTimeout(firstChunkTimer);
+      }
 
-      clearTimeout(firstChunkTimer);
-      clearTimeout(stallTimer);
-      if (externalAbort && abortListener) externalAbort.removeEventListener('abort', abortListener);
-      // Attempt to parse usage from headers after successful stream
+      winner.cleanup();
+      // Usage from the final stream chunk (stream_options.include_usage) wins; x-usage-* headers fill the gaps
+      const meta = streamMeta(res);
+      finishReason = meta?.finishReason;
+      toolCalls = meta?.toolCalls?.filter(Boolean) ?? [];
+      if (meta?.usage?.prompt != null || meta?.usage?.completion != null) {
+        usagePrompt = meta.usage.prompt;
+        usageCompletion = meta.usage.completion;
+        usageVia = "stream";
+      }
       try {
         const u = parseUsageFromHeaders(res.headers);
         if (u) {
-          if (u.prompt != null) usagePrompt = u.prompt;
-          if (u.completion != null) usageCompletion = u.completion;
+          if (usagePrompt == null && u.prompt != null) usagePrompt = u.prompt;
+          if (usageCompletion == null && u.completion != null) usageCompletion = u.completion;
+          usageVia ??= "header";
         }
       } catch {}
-      routeFinal = model;
+      if (breaker) recordCircuitOutcome(winner.model, true, breaker);
+      routeFinal = winner.model;
       break; // success
     } catch (e: any) {
-      fallbackCount++;
-      used.push(model);
-      if (debug) process.stderr.write(`[route] fail model=${model} err=${e?.message || e}\n`);
-      attemptErrors.push({ model, message: e?.message || String(e), status: e?.status });
-      // Reason classification
-      if (typeof e?.status === 'number') {
-        if (e.status === 429) reasons.push('rate_limit');
-        else if (e.status >= 500) reasons.push('5xx');
-        else reasons.push(`http_${e.status}`);
-      } else if (abortedByTimer || /aborted|AbortError/i.test(String(e?.message))) {
-        reasons.push('stall');
-      } else {
-        reasons.push('error');
-      }
-      const next = tries[i + 1];
-      const reason = reasons[reasons.length - 1];
-      if (next && process.stderr.isTTY) {
-        const Y = "\x1b[33m"; const R = "\x1b[0m";
-        process.stderr.write(`${Y}[fallback] ${model} ${reason} after ${Date.now() - attemptStart}ms → trying ${next}${R}\n`);
+      if (opts?.committed?.()) {
+        fail(att, e);
+        committedFailure = att.model;
+        break;
       }
+      if (!fail(att, e, tries[i + 1])) break;
       // Optional escalation toast after repeated fallbacks per policy
-      if (debug && fallbackCount >= (Array.isArray(backoffMs) ? 0 : 0)) {}
       const threshold = Number.isFinite(escalateAfter) ? escalateAfter : 0;
       if (threshold > 0 && fallbackCount >= threshold && process.stderr.isTTY) {
         const Rr = "\x1b[31m"; const R0 = "\x1b[0m";
@@ -151,7 +475,14 @@ export async function runWithFallback(
   }
 
   const latency = Date.now() - start;
-  if (!routeFinal) throw new RouterError(`All routes failed after ${tries.length} attempts`, attemptErrors);
+  if (!routeFinal) {
+    const message = committedFailure
+      ? `${committedFailure} failed after its output was sent; not failing over`
+      : nonRetryable.length
+      ? `Non-retryable ${nonRetryable[0].reason} from ${nonRetryable[0].model} after ${attempts} attempt(s)`
+      : `All routes failed after ${tries.length} attempts`;
+    throw new RouterError(message, attemptErrors, { reasons, fallbackCount, latency, nonRetryable, preflight, circuitOpen, hedge });
+  }
 
-  return { routeFinal, fallbackCount, latency, firstTokenMs, reasons, usagePrompt, usageCompletion };
+  return { routeFinal, fallbackCount, latency, firstTokenMs, reasons, usagePrompt, usageCompletion, usageVia, finishReason, toolCalls, output, preflight, circuitOpen, hedge };
 }
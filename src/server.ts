@@ -0,0 +1,344 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import * as yaml from "yaml";
+import { z } from "zod";
+import db from "./db.js";
+import { loadPolicy, Policy } from "./policy.js";
+import { runWithFallback, routeOptionsFor, RouteOptions } from "./router.js";
+import type { ChatMessage, ToolChoice, ToolDefinition } from "./gateway.js";
+import { assertWithinRpm, reserveQuota, reservationAmount, settleQuota, releaseQuota } from "./quotas.js";
+import { estimateCost } from "./rates.js";
+import { writeReceipt, writeFailureReceipt, routeExtras } from "./receipts.js";
+import { streamSSEToWriterWithGate } from "./util/stream.js";
+import { estimatePromptTokens, resolveUsage, ResolvedUsage } from "./util/usage.js";
+import { sha256Hex } from "./util/hash.js";
+import { ConfigError, GatewayError, PolicyError, QuotaError, RouterError } from "./util/errors.js";
+
+const ApiKeysFile = z.object({
+  keys: z.record(z.object({
+    user: z.string(),
+    policy: z.string().optional(),
+    // Lets requests pick another policy (header or model alias): true for any, or a list of names
+    allow_policy_override: z.union([z.boolean(), z.array(z.string())]).optional(),
+  })),
+});
+
+type ApiKeyEntry = { user: string; policy?: string; allow_policy_override?: boolean | string[] };
+
+export type ServeOptions = {
+  port: number;
+  host: string;
+  defaultPolicy: string;
+  keysFile: string;
+  anonymousUser?: string; // userRef for requests without a known key (local dev only)
+  debug?: boolean;
+};
+
+// Thrown inside a request to produce an OpenAI-style error response
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly type = "invalid_request_error") {
+    super(message);
+  }
+}
+
+export function loadApiKeys(file: string): Map<string, ApiKeyEntry> {
+  if (!fs.existsSync(file)) return new Map();
+  try {
+    const parsed = ApiKeysFile.parse(yaml.parse(fs.readFileSync(file, "utf8")));
+    return new Map(Object.entries(parsed.keys));
+  } catch (e: any) {
+    const details = e?.issues ? e.issues.map((i: any) => `${i.path?.join(".") || "root"}: ${i.message}`).join("; ") : e?.message;
+    throw new ConfigError(`Invalid API key file ${file}: ${details}`, "Expected `keys: { <key>: { user: <userRef>, policy?: <name>, allow_policy_override?: true | [<name>] } }`.");
+  }
+}
+
+function policyExists(name: string) {
+  return /^[a-z0-9_-]+$/.test(name) && fs.existsSync(path.join("policies", `${name}.yaml`));
+}
+
+// A key's policy carries its tenancy and budgets, so requests may only swap it when the key allows it.
+// Keyless requests (--anonymous-user, local dev only) may pick any policy.
+function overrideAllowed(key: ApiKeyEntry | undefined, name: string) {
+  if (!key) return true;
+  const allow = key.allow_policy_override;
+  return allow === true || (Array.isArray(allow) && allow.includes(name));
+}
+
+// Header `x-routepilot-policy` (or `policy`) > model alias (`routepilot/<policy>` or a bare policy name) > key default > server default.
+// Header and alias only count when the key allows overrides; an unknown or disallowed header is an error.
+export function resolvePolicyName(headers: http.IncomingHttpHeaders, model: unknown, key: ApiKeyEntry | undefined, fallback: string): string {
+  const header = headers["x-routepilot-policy"] ?? headers["policy"];
+  if (typeof header === "string" && header.trim()) {
+    const name = header.trim();
+    if (!policyExists(name)) throw new HttpError(400, `unknown policy '${name}'`);
+    if (!overrideAllowed(key, name)) throw new HttpError(403, `this API key may not use policy '${name}' (see allow_policy_override)`, "permission_error");
+    return name;
+  }
+  if (typeof model === "string") {
+    const alias = model.startsWith("routepilot/") ? model.slice("routepilot/".length) : model;
+    if (policyExists(alias) && overrideAllowed(key, alias)) return alias;
+  }
+  return key?.policy ?? fallback;
+}
+
+function bearer(req: http.IncomingMessage): string | undefined {
+  const h = req.headers["authorization"];
+  if (typeof h === "string" && /^Bearer\s+/i.test(h)) return h.replace(/^Bearer\s+/i, "").trim();
+  const k = req.headers["x-api-key"];
+  return typeof k === "string" ? k : undefined;
+}
+
+async function readJson(req: http.IncomingMessage, limit = 2_000_000): Promise<any> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > limit) throw new HttpError(413, "request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "request body is not valid JSON");
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: any, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function errorStatus(e: any): { status: number; type: string } {
+  if (e instanceof HttpError) return { status: e.status, type: e.type };
+  if (e instanceof QuotaError) return { status: 429, type: "rate_limit_exceeded" };
+  if (e instanceof PolicyError) return { status: 400, type: "invalid_request_error" };
+  if (e instanceof RouterError || e instanceof GatewayError) return { status: 502, type: "upstream_error" };
+  if (e instanceof ConfigError) return { status: 500, type: "server_error" };
+  return { status: 500, type: "server_error" };
+}
+
+type ChatBody = {
+  model?: string;
+  messages?: Array<{ role: string; content: any; tool_calls?: any; tool_call_id?: string }>;
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop?: string | string[];
+  stream?: boolean;
+  response_format?: { type?: string };
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+};
+
+function normalizeMessages(body: ChatBody): ChatMessage[] {
+  if (!Array.isArray(body.messages) || !body.messages.length) throw new HttpError(400, "`messages` must be a non-empty array");
+  return body.messages.map((m, i) => {
+    if (!["system", "user", "assistant", "tool"].includes(m?.role)) throw new HttpError(400, `messages[${i}].role must be system, user, assistant or tool`);
+    // Flatten OpenAI content parts to text
+    const content = typeof m.content === "string"
+      ? m.content
+      : Array.isArray(m.content) ? m.content.map((p: any) => (typeof p?.text === "string" ? p.text : "")).join("") : "";
+    const out: ChatMessage = { role: m.role as ChatMessage["role"], content };
+    if (m.role === "tool") {
+      if (typeof m.tool_call_id !== "string") throw new HttpError(400, `messages[${i}].tool_call_id is required for tool messages`);
+      out.tool_call_id = m.tool_call_id;
+    }
+    if (m.role === "assistant" && Array.isArray(m.tool_calls) && m.tool_calls.length) out.tool_calls = m.tool_calls;
+    return out;
+  });
+}
+
+function toolsFromBody(body: ChatBody): Pick<RouteOptions, "tools" | "toolChoice"> {
+  if (body.tools == null) return {};
+  if (!Array.isArray(body.tools) || body.tools.some((t) => t?.type !== "function" || typeof t.function?.name !== "string")) {
+    throw new HttpError(400, "`tools` must be an array of { type: \"function\", function: { name, parameters? } }");
+  }
+  return { tools: body.tools, ...(body.tool_choice != null ? { toolChoice: body.tool_choice } : {}) };
+}
+
+function genFromBody(policy: Policy, body: ChatBody) {
+  const gen = { ...(policy.gen || {}) } as { temperature?: number; top_p?: number; stop?: string[]; json_mode?: boolean };
+  if (typeof body.temperature === "number") gen.temperature = body.temperature;
+  if (typeof body.top_p === "number") gen.top_p = body.top_p;
+  if (body.stop != null) gen.stop = Array.isArray(body.stop) ? body.stop : [body.stop];
+  if (body.response_format?.type === "json_object") gen.json_mode = true;
+  return gen;
+}
+
+async function handleChat(req: http.IncomingMessage, res: http.ServerResponse, keys: Map<string, ApiKeyEntry>, opts: ServeOptions) {
+  const apiKey = bearer(req);
+  const key = apiKey ? keys.get(apiKey) : undefined;
+  const userRef = key?.user ?? opts.anonymousUser;
+  if (!userRef) throw new HttpError(401, "invalid or missing API key", "authentication_error");
+
+  const body = (await readJson(req)) as ChatBody;
+  const messages = normalizeMessages(body);
+  const tools = toolsFromBody(body);
+  const policy = loadPolicy(resolvePolicyName(req.headers, body.model, key, opts.defaultPolicy));
+
+  assertWithinRpm(userRef, policy.tenancy.per_user_rpm);
+
+  const policyMax = Math.min(policy.objectives.max_tokens ?? 1024, 2048);
+  const maxTokens = typeof body.max_tokens === "number" && body.max_tokens > 0 ? Math.min(body.max_tokens, policyMax) : policyMax;
+  const stream = body.stream === true;
+  const rid = crypto.randomUUID();
+  const completionId = `chatcmpl-${rid}`;
+  const created = Math.floor(Date.now() / 1000);
+  const promptHash = sha256Hex(JSON.stringify(messages));
+  const policyHash = sha256Hex(JSON.stringify(policy));
+  const baseHeaders = { "x-routepilot-receipt": rid, "x-routepilot-policy": policy.policy };
+
+  let captured = "";
+  let headersSent = false;
+  const chunk = (delta: Record<string, any>, finish: string | null, model: string) =>
+    `data: ${JSON.stringify({ id: completionId, object: "chat.completion.chunk", created, model, choices: [{ index: 0, delta, finish_reason: finish }] })}\n\n`;
+  const handler = async (upstream: Response, onFirstChunk: () => void, signal: AbortSignal, attemptModel: string) => {
+    const write = (text: string) => {
+      if (!stream) return;
+      if (!headersSent) {
+        res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive", ...baseHeaders });
+        res.write(chunk({ role: "assistant", content: "" }, null, attemptModel));
+        headersSent = true;
+      }
+      res.write(chunk({ content: text }, null, attemptModel));
+    };
+    captured = await streamSSEToWriterWithGate(upstream, onFirstChunk, policy.strategy.first_chunk_gate_ms, () => signal.aborted, write);
+  };
+
+  // Abort upstream when the client goes away
+  const clientGone = new AbortController();
+  res.on("close", () => { if (!res.writableFinished) clientGone.abort(); });
+
+  const reservation = reserveQuota(userRef, reservationAmount([...policy.routing.primary, ...policy.routing.backups], estimatePromptTokens(messages, policy.routing.primary[0]), maxTokens), policy.tenancy);
+  const start = Date.now();
+  let routed: Awaited<ReturnType<typeof runWithFallback>>;
+  try {
+    routed = await runWithFallback(
+      { primary: policy.routing.primary, backups: policy.routing.backups },
+      policy.objectives.p95_latency_ms,
+      policy.routing.p95_window_n,
+      messages,
+      maxTokens,
+      policy.strategy.fallback_on_latency_ms ?? 1500,
+      policy.strategy.max_attempts,
+      policy.strategy.backoff_ms,
+      policy.strategy.first_chunk_gate_ms,
+      policy.strategy.escalate_after_fallbacks,
+      genFromBody(policy, body),
+      policy.routing.params ?? undefined,
+      handler,
+      clientGone.signal,
+      !!opts.debug,
+      // Once text has reached the client a backup's reply would be appended to it, so a failure then ends the stream
+      { ...routeOptionsFor(policy), ...tools, committed: () => headersSent }
+    );
+  } catch (e) {
+    releaseQuota(reservation);
+    if (e instanceof RouterError) {
+      writeFailureReceipt({ policy: policy.policy, route_primary: policy.routing.primary[0], prompt_hash: promptHash, policy_hash: policyHash, extras: { source: "serve", user_ref: userRef } }, e);
+    }
+    throw Object.assign(e as any, { headersSent });
+  }
+  const { routeFinal, fallbackCount, latency, firstTokenMs, reasons, usagePrompt, usageCompletion, usageVia, finishReason, toolCalls, preflight, circuitOpen, hedge } = routed;
+
+  // Settled in `finally`, so a failure after routing (receipt, trace row) cannot hold the reservation until its TTL
+  let usage: ResolvedUsage | undefined;
+  let cost = 0;
+  try {
+    usage = resolveUsage(routeFinal, messages, captured, { prompt: usagePrompt, completion: usageCompletion, via: usageVia });
+    cost = estimateCost(routeFinal, usage.prompt, usage.completion) + (hedge?.loser_cost_usd ?? 0);
+    writeReceipt({
+      id: rid,
+      policy: policy.policy,
+      route_primary: policy.routing.primary[0],
+      route_final: routeFinal,
+      model_path: routeFinal,
+      fallback_count: fallbackCount,
+      latency_ms: latency,
+      first_token_ms: firstTokenMs ?? null,
+      reasons,
+      usage: { ...usage, cost },
+      prompt_hash: promptHash,
+      policy_hash: policyHash,
+      extras: { source: "serve", user_ref: userRef, ...routeExtras({ preflight, circuitOpen, hedge, finishReason, toolCalls }, cost, policy.objectives.max_cost_usd) },
+    });
+    db.prepare(
+      `INSERT INTO traces(id, ts, user_ref, policy, route_primary, route_final, latency_ms, tokens, cost_usd)
+       VALUES(?,?,?,?,?,?,?,?,?)`
+    ).run(rid, new Date(start).toISOString(), userRef, policy.policy, policy.routing.primary[0], routeFinal, latency, usage.prompt + usage.completion, cost);
+  } finally {
+    // Charge what the call used; release only if usage never resolved
+    if (usage) settleQuota(reservation, usage.prompt + usage.completion, cost);
+    else releaseQuota(reservation);
+  }
+
+  const usageBody = { prompt_tokens: usage.prompt, completion_tokens: usage.completion, total_tokens: usage.prompt + usage.completion };
+  if (stream) {
+    if (!headersSent) {
+      res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive", ...baseHeaders });
+      headersSent = true;
+    }
+    // Tool calls arrive assembled after the stream, so clients get each call whole in one chunk
+    if (toolCalls.length) res.write(chunk({ tool_calls: toolCalls.map((c, index) => ({ index, ...c })) }, null, routeFinal));
+    res.write(`data: ${JSON.stringify({ id: completionId, object: "chat.completion.chunk", created, model: routeFinal, choices: [{ index: 0, delta: {}, finish_reason: finishReason ?? "stop" }], usage: usageBody })}\n\n`);
+    res.end("data: [DONE]\n\n");
+    return;
+  }
+  sendJson(res, 200, {
+    id: completionId,
+    object: "chat.completion",
+    created,
+    model: routeFinal,
+    choices: [{
+      index: 0,
+      message: toolCalls.length ? { role: "assistant", content: captured || null, tool_calls: toolCalls } : { role: "assistant", content: captured },
+      finish_reason: finishReason ?? "stop",
+    }],
+    usage: usageBody,
+  }, baseHeaders);
+}
+
+function listPolicyModels() {
+  const dir = "policies";
+  const names = fs.existsSync(dir) ? fs.readdirSync(dir).filter((f) => f.endsWith(".yaml")).map((f) => f.replace(/\.yaml$/, "")) : [];
+  return { object: "list", data: names.map((n) => ({ id: `routepilot/${n}`, object: "model", owned_by: "routepilot" })) };
+}
+
+export function createServer(opts: ServeOptions) {
+  const keys = loadApiKeys(opts.keysFile);
+  return http.createServer(async (req, res) => {
+    const url = (req.url || "/").split("?")[0];
+    try {
+      if (req.method === "POST" && (url === "/v1/chat/completions" || url === "/chat/completions")) {
+        await handleChat(req, res, keys, opts);
+        return;
+      }
+      if (req.method === "GET" && url === "/v1/models") {
+        sendJson(res, 200, listPolicyModels());
+        return;
+      }
+      throw new HttpError(404, `no route for ${req.method} ${url}`);
+    } catch (e: any) {
+      const { status, type } = errorStatus(e);
+      if (opts.debug || status >= 500) process.stderr.write(`[serve] ${req.method} ${url} → ${status} ${e?.message || e}\n`);
+      // Once an SSE stream has started, the error can only be reported in-band
+      if (e?.headersSent || res.headersSent) {
+        try { res.end(`data: ${JSON.stringify({ error: { message: e?.message || String(e), type } })}\n\ndata: [DONE]\n\n`); } catch {}
+        return;
+      }
+      sendJson(res, status, { error: { message: e?.message || String(e), type, code: e?.kind ?? null } });
+    }
+  });
+}
+
+export async function serve(opts: ServeOptions) {
+  const server = createServer(opts);
+  await new Promise<void>((resolve) => server.listen(opts.port, opts.host, resolve));
+  const keys = loadApiKeys(opts.keysFile).size;
+  process.stderr.write(
+    `RoutePilot serving OpenAI-compatible API on http://${opts.host}:${opts.port}/v1 (policy=${opts.defaultPolicy}, keys=${keys}${opts.anonymousUser ? `, anonymous=${opts.anonymousUser}` : ""})\n`
+  );
+  return server;
+}
@@ -0,0 +1,162 @@
+import crypto from "node:crypto";
+import db from "./db.js";
+import { ConfigError } from "./util/errors.js";
+
+// Agent sessions: rows in `sessions`, turns in `messages` (plus memory summaries, role "summary").
+// Per-message receipts use the session id as task_id, which is how `sessions show` links them.
+
+export type SessionRow = {
+  id: string; created_at: string; user_ref: string; agent: string; policy: string;
+  forked_from: string | null; forked_at: string | null;
+};
+export type SessionListRow = SessionRow & { messages: number; last_ts: string | null };
+export type SessionMessage = { id: string; ts: string; role: string; content: string; summary_through: number | null };
+export type SessionReceipt = { id: string; ts: string; route_final: string | null; latency_ms: number | null; prompt_tokens: number | null; completion_tokens: number | null; cost_usd: number | null };
+export type SessionExportFormat = "md" | "json";
+
+export function createSession(userRef: string, agentName: string, policy: string): string {
+  const id = crypto.randomUUID();
+  db.prepare(`INSERT INTO sessions(id, created_at, user_ref, agent, policy) VALUES(?,?,?,?,?)`)
+    .run(id, new Date().toISOString(), userRef, agentName, policy);
+  return id;
+}
+
+export function getSession(sessionId: string): SessionRow | undefined {
+  return db.prepare(`SELECT * FROM sessions WHERE id=?`).get(sessionId) as SessionRow | undefined;
+}
+
+export function addMessage(sessionId: string, role: string, content: string) {
+  db.prepare(`INSERT INTO messages(id, session_id, role, content, ts) VALUES(?,?,?,?,?)`)
+    .run(crypto.randomUUID(), sessionId, role, content, new Date().toISOString());
+}
+
+function requireSession(sessionId: string): SessionRow {
+  const s = getSession(sessionId);
+  if (!s) throw new ConfigError(`Unknown session ${sessionId}`, "Run `routepilot sessions list` to see session ids.");
+  return s;
+}
+
+export function listSessions(filter: { user?: string; agent?: string; limit?: number } = {}): SessionListRow[] {
+  const where: string[] = [];
+  const args: Array<string | number> = [];
+  if (filter.user) { where.push("s.user_ref = ?"); args.push(filter.user); }
+  if (filter.agent) { where.push("s.agent = ?"); args.push(filter.agent); }
+  args.push(filter.limit ?? 20);
+  return db
+    .prepare(
+      `SELECT s.*, COUNT(m.id) AS messages, MAX(m.ts) AS last_ts
+       FROM sessions s LEFT JOIN messages m ON m.session_id = s.id AND m.role != 'summary'
+       ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+       GROUP BY s.id ORDER BY COALESCE(MAX(m.ts), s.created_at) DESC LIMIT ?`
+    )
+    .all(...args) as SessionListRow[];
+}
+
+function sessionMessages(sessionId: string): Array<SessionMessage & { rowid: number }> {
+  return db
+    .prepare(`SELECT rowid, id, ts, role, content, summary_through FROM messages WHERE session_id=? ORDER BY rowid ASC`)
+    .all(sessionId) as Array<SessionMessage & { rowid: number }>;
+}
+
+export function showSession(sessionId: string): { session: SessionRow; messages: SessionMessage[]; receipts: SessionReceipt[] } {
+  const session = requireSession(sessionId);
+  const messages = sessionMessages(sessionId).map(({ rowid: _rowid, ...m }) => m);
+  const receipts = db
+    .prepare(`SELECT id, ts, route_final, latency_ms, prompt_tokens, completion_tokens, cost_usd FROM receipts WHERE task_id=? ORDER BY ts ASC, seq ASC`)
+    .all(sessionId) as SessionReceipt[];
+  return { session, messages, receipts };
+}
+
+// Transcript for the terminal: each receipt is listed under the last message written before it (the reply it covers)
+export function formatSessionTranscript(view: ReturnType<typeof showSession>): string {
+  const { session, messages, receipts } = view;
+  const lines = [`Session ${session.id}  user=${session.user_ref} agent=${session.agent} policy=${session.policy} created=${session.created_at}`];
+  if (session.forked_from) lines.push(`forked from ${session.forked_from}${session.forked_at ? ` at ${session.forked_at}` : ""}`);
+  const receiptLine = (r: SessionReceipt) =>
+    `    [receipt ${r.id}] ${r.route_final ?? "?"} ${r.latency_ms ?? "-"}ms tokens=${(r.prompt_tokens ?? 0) + (r.completion_tokens ?? 0)} $${(r.cost_usd ?? 0).toFixed(6)}`;
+  let next = 0;
+  messages.forEach((m, i) => {
+    lines.push("", `[${m.ts}] ${m.role}${m.role === "summary" ? " (memory)" : ""}  ${m.id}`, ...m.content.split("\n").map((l) => `  ${l}`));
+    const until = messages[i + 1]?.ts;
+    while (next < receipts.length && (until == null || receipts[next].ts < until)) lines.push(receiptLine(receipts[next++]));
+  });
+  if (!messages.length) lines.push("", "(no messages)");
+  return lines.join("\n");
+}
+
+export function exportSession(sessionId: string, format: SessionExportFormat): string {
+  const view = showSession(sessionId);
+  if (format === "json") return JSON.stringify(view, null, 2) + "\n";
+  const { session, messages, receipts } = view;
+  const out = [
+    `# Session ${session.id}`,
+    "",
+    `- User: ${session.user_ref}`,
+    `- Agent: ${session.agent}`,
+    `- Policy: ${session.policy}`,
+    `- Created: ${session.created_at}`,
+    ...(session.forked_from ? [`- Forked from: ${session.forked_from}${session.forked_at ? ` (at message ${session.forked_at})` : ""}`] : []),
+  ];
+  for (const m of messages) {
+    const title = m.role === "summary" ? "Summary (memory)" : m.role[0].toUpperCase() + m.role.slice(1);
+    out.push("", `## ${title}`, "", `_${m.ts}_`, "", m.content);
+  }
+  if (receipts.length) {
+    out.push("", "## Receipts", "", "| id | ts | route | latency_ms | tokens | cost_usd |", "| --- | --- | --- | --- | --- | --- |");
+    for (const r of receipts) {
+      out.push(`| ${r.id} | ${r.ts} | ${r.route_final ?? ""} | ${r.latency_ms ?? ""} | ${(r.prompt_tokens ?? 0) + (r.completion_tokens ?? 0)} | ${r.cost_usd ?? ""} |`);
+    }
+  }
+  return out.join("\n") + "\n";
+}
+
+// Copy a session's messages (through `atMessageId` when given) into a new session with the same user, agent and
+// policy. Memory summaries are copied too, re-pointed at the copied rows.
+export function forkSession(sessionId: string, atMessageId?: string): { id: string; messages: number } {
+  const source = requireSession(sessionId);
+  const all = sessionMessages(sessionId);
+  let upto = all.length;
+  if (atMessageId) {
+    upto = all.findIndex((m) => m.id === atMessageId) + 1;
+    if (!upto) throw new ConfigError(`Message ${atMessageId} is not part of session ${sessionId}`, "Use an id from `routepilot sessions show <id>`.");
+  }
+  const copy = all.slice(0, upto);
+  const id = crypto.randomUUID();
+  const insert = db.prepare(`INSERT INTO messages(id, session_id, role, content, ts, summary_through) VALUES(?,?,?,?,?,?)`);
+  db.transaction(() => {
+    db.prepare(`INSERT INTO sessions(id, created_at, user_ref, agent, policy, forked_from, forked_at) VALUES(?,?,?,?,?,?,?)`)
+      .run(id, new Date().toISOString(), source.user_ref, source.agent, source.policy, sessionId, copy[copy.length - 1]?.id ?? null);
+    const rowids = new Map<number, number>();
+    for (const m of copy) {
+      const through = m.summary_through != null ? rowids.get(m.summary_through) ?? null : null;
+      const info = insert.run(crypto.randomUUID(), id, m.role, m.content, m.ts, through);
+      rowids.set(m.rowid, Number(info.lastInsertRowid));
+    }
+  })();
+  return { id, messages: copy.filter((m) => m.role !== "summary").length };
+}
+
+// Removes the sessions and their messages. Receipts stay: they are part of the signed chain.
+export function deleteSessions(ids: string[]): { sessions: number; messages: number } {
+  let sessions = 0;
+  let messages = 0;
+  db.transaction(() => {
+    for (const id of ids) {
+      messages += db.prepare(`DELETE FROM messages WHERE session_id=?`).run(id).changes;
+      sessions += db.prepare(`DELETE FROM sessions WHERE id=?`).run(id).changes;
+    }
+  })();
+  return { sessions, messages };
+}
+
+// Sessions with no message (or creation, when empty) at or after `before`. Timestamps are compared as ISO strings,
+// so `before` is parsed and normalized first; anything unparseable would otherwise sort after every timestamp.
+export function staleSessionIds(before: string, filter: { user?: string; agent?: string } = {}): string[] {
+  const t = Date.parse(before);
+  if (!Number.isFinite(t)) throw new ConfigError(`Invalid --before '${before}'`, "Use an ISO date or timestamp, e.g. 2026-01-31 or 2026-01-31T12:00:00Z.");
+  const where = ["COALESCE((SELECT MAX(ts) FROM messages m WHERE m.session_id = s.id), s.created_at) < ?"];
+  const args: string[] = [new Date(t).toISOString()];
+  if (filter.user) { where.push("s.user_ref = ?"); args.push(filter.user); }
+  if (filter.agent) { where.push("s.agent = ?"); args.push(filter.agent); }
+  return (db.prepare(`SELECT id FROM sessions s WHERE ${where.join(" AND ")}`).all(...args) as Array<{ id: string }>).map((r) => r.id);
+}
@@ -0,0 +1,125 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { ConfigError } from "./util/errors.js";
+
+// Receipt signing. HMAC-SHA256 with JWT_SECRET unless an active Ed25519 key exists in the key ring.
+// Key ring layout (ROUTEPILOT_KEYS_DIR, default data/keys):
+//   <kid>.key      PKCS#8 private key (only kept for keys that may still sign)
+//   <kid>.pub.pem  SPKI public key (kept after rotation so old receipts stay verifiable)
+//   active         kid used for new receipts
+
+export type SignatureAlg = "hmac-sha256" | "ed25519";
+export type Signer = { alg: SignatureAlg; kid?: string };
+
+export function keysDir(): string {
+  return process.env.ROUTEPILOT_KEYS_DIR || path.join("data", "keys");
+}
+
+// Key id = first 16 hex chars of sha256 over the DER public key
+function keyId(publicKey: crypto.KeyObject): string {
+  const der = publicKey.export({ type: "spki", format: "der" });
+  return crypto.createHash("sha256").update(der).digest("hex").slice(0, 16);
+}
+
+function activeKid(dir = keysDir()): string | null {
+  const file = path.join(dir, "active");
+  if (!fs.existsSync(file)) return null;
+  return fs.readFileSync(file, "utf8").trim() || null;
+}
+
+function activePrivateKey(): { kid: string; key: crypto.KeyObject } | null {
+  const dir = keysDir();
+  const kid = activeKid(dir);
+  if (!kid) return null;
+  const file = path.join(dir, `${kid}.key`);
+  if (!fs.existsSync(file)) throw new ConfigError(`Active signing key ${kid} has no private key at ${file}`, "Run `routepilot keys:rotate` to create a new key.");
+  return { kid, key: crypto.createPrivateKey(fs.readFileSync(file, "utf8")) };
+}
+
+export function currentSigner(): Signer {
+  const active = activeKid();
+  return active ? { alg: "ed25519", kid: active } : { alg: "hmac-sha256" };
+}
+
+function hmacHex(text: string): string {
+  return crypto.createHmac("sha256", process.env.JWT_SECRET ?? "dev-secret").update(text).digest("hex");
+}
+
+export function signText(text: string, signer: Signer): string {
+  if (signer.alg === "hmac-sha256") return hmacHex(text);
+  const active = activePrivateKey();
+  if (!active || active.kid !== signer.kid) throw new ConfigError(`Signing key ${signer.kid} is no longer active`);
+  return crypto.sign(null, Buffer.from(text, "utf8"), active.key).toString("base64");
+}
+
+export function loadPublicKeys(dir = keysDir()): Map<string, crypto.KeyObject> {
+  const keys = new Map<string, crypto.KeyObject>();
+  if (!fs.existsSync(dir)) return keys;
+  for (const f of fs.readdirSync(dir)) {
+    if (!f.endsWith(".pub.pem")) continue;
+    const key = crypto.createPublicKey(fs.readFileSync(path.join(dir, f), "utf8"));
+    keys.set(keyId(key), key);
+  }
+  return keys;
+}
+
+// null when verified; otherwise a short description of the problem
+export function verifyText(
+  text: string,
+  signature: string,
+  signer: Signer,
+  opts: { publicKeys: Map<string, crypto.KeyObject>; publicOnly?: boolean }
+): string | null {
+  if (signer.alg === "hmac-sha256") {
+    if (opts.publicOnly) return "HMAC-signed; cannot be verified with public keys only";
+    return hmacHex(text) === signature ? null : "signature mismatch (payload altered or signed with a different JWT_SECRET)";
+  }
+  const key = signer.kid ? opts.publicKeys.get(signer.kid) : undefined;
+  if (!key) return `unknown signing key ${signer.kid ?? "(none)"}`;
+  return crypto.verify(null, Buffer.from(text, "utf8"), key, Buffer.from(signature, "base64")) ? null : `signature mismatch (key ${signer.kid})`;
+}
+
+// Create a new Ed25519 key and make it active; earlier keys keep their public half for verification
+export function rotateSigningKey(opts?: { dropOldPrivate?: boolean }): { kid: string; previous: string | null } {
+  const dir = keysDir();
+  fs.mkdirSync(dir, { recursive: true });
+  const previous = activeKid(dir);
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const kid = keyId(publicKey);
+  fs.writeFileSync(path.join(dir, `${kid}.key`), privateKey.export({ type: "pkcs8", format: "pem" }), { mode: 0o600 });
+  fs.writeFileSync(path.join(dir, `${kid}.pub.pem`), publicKey.export({ type: "spki", format: "pem" }));
+  fs.writeFileSync(path.join(dir, "active"), `${kid}\n`);
+  if (opts?.dropOldPrivate && previous) fs.rmSync(path.join(dir, `${previous}.key`), { force: true });
+  return { kid, previous };
+}
+
+export function listSigningKeys(): Array<{ kid: string; active: boolean; private: boolean; created: string }> {
+  const dir = keysDir();
+  const active = activeKid(dir);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".pub.pem"))
+    .map((f) => {
+      const kid = f.replace(/\.pub\.pem$/, "");
+      return {
+        kid,
+        active: kid === active,
+        private: fs.existsSync(path.join(dir, `${kid}.key`)),
+        created: fs.statSync(path.join(dir, f)).mtime.toISOString(),
+      };
+    })
+    .sort((a, b) => a.created.localeCompare(b.created));
+}
+
+// Copy public keys only (for auditors)
+export function exportPublicKeys(outDir: string): string[] {
+  fs.mkdirSync(outDir, { recursive: true });
+  const copied: string[] = [];
+  for (const k of listSigningKeys()) {
+    fs.copyFileSync(path.join(keysDir(), `${k.kid}.pub.pem`), path.join(outDir, `${k.kid}.pub.pem`));
+    copied.push(k.kid);
+  }
+  return copied;
+}
@@ -0,0 +1,342 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import * as yaml from "yaml";
+import { BudgetT, ChainSpec, ChainSpecT, ChainStepT } from "./types.js";
+import { getAgentSpec } from "./registry.js";
+import { runSubAgent, runFanOut, reduceFanOut } from "./controller.js";
+import { ChainError, RouterError } from "../util/errors.js";
+import { expandEnv } from "../util/env.js";
+
+const CHAINS_DIR = "chains";
+
+function uuid() { return crypto.randomUUID(); }
+
+export function listChains(): string[] {
+  if (!fs.existsSync(CHAINS_DIR)) return [];
+  return fs
+    .readdirSync(CHAINS_DIR)
+    .filter((f) => f.endsWith(".yaml"))
+    .map((f) => f.replace(/\.yaml$/, ""));
+}
+
+function parseChainFile(file: string): ChainSpecT {
+  try {
+    const spec = ChainSpec.parse(yaml.parse(fs.readFileSync(file, "utf8")));
+    checkReferences(spec, file);
+    return spec;
+  } catch (e: any) {
+    if (e instanceof ChainError) throw e;
+    if (e?.issues) {
+      const details = e.issues.map((i: any) => `${i.path?.join(".") || "root"}: ${i.message}`);
+      throw new ChainError(`Invalid chain (${file})`, details);
+    }
+    throw new ChainError(`Failed to load chain ${file}: ${e?.message || e}`);
+  }
+}
+
+// Steps may only point at steps declared before them (parents and conditions)
+function checkReferences(spec: ChainSpecT, file: string) {
+  const seen = new Set<string>();
+  const details: string[] = [];
+  for (const step of spec.steps) {
+    if (seen.has(step.id)) details.push(`duplicate step id '${step.id}'`);
+    for (const p of toList(step.parent)) {
+      if (!seen.has(p)) details.push(`step '${step.id}': parent '${p}' is not an earlier step`);
+    }
+    for (const c of toList(step.when)) {
+      const parsed = parseCondition(c);
+      if (!parsed) { details.push(`step '${step.id}': cannot parse condition '${c}'`); continue; }
+      const head = parsed.ref.split(".")[0];
+      if (head !== "input" && !seen.has(head)) details.push(`step '${step.id}': condition refers to unknown step '${head}'`);
+    }
+    seen.add(step.id);
+  }
+  if (details.length) throw new ChainError(`Invalid chain (${file})`, details);
+}
+
+export function loadChain(name: string): ChainSpecT {
+  const direct = path.join(CHAINS_DIR, `${name}.yaml`);
+  if (fs.existsSync(direct)) return parseChainFile(direct);
+  for (const n of listChains()) {
+    const spec = parseChainFile(path.join(CHAINS_DIR, `${n}.yaml`));
+    if (spec.aliases.includes(name)) return spec;
+  }
+  const known = listChains();
+  throw new ChainError(`Unknown chain '${name}'${known.length ? ` (available: ${known.join(", ")})` : ` (no files under ${CHAINS_DIR}/)`}`);
+}
+
+function toList(v: string | string[] | undefined): string[] {
+  if (v == null) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+type Condition = { ref: string; op: "non-empty" | "empty" | "within-budget" };
+
+function parseCondition(expr: string): Condition | null {
+  const m = /^\s*(\S+)\s+(non-empty|empty|within-budget)\s*$/.exec(expr);
+  if (!m) return null;
+  return { ref: m[1], op: m[2] as Condition["op"] };
+}
+
+function conditionLabel(step: ChainStepT): string | undefined {
+  const conds = toList(step.when);
+  return conds.length ? `if ${conds.join(" and ")}` : undefined;
+}
+
+export function planChainSpec(spec: ChainSpecT) {
+  const plan: any[] = [];
+  let n = 0;
+  for (const step of spec.steps) {
+    n++;
+    const conditional = conditionLabel(step);
+    if (step.fan_out) {
+      step.fan_out.branches.forEach((b, i) => {
+        plan.push({
+          step: n,
+          agent: b.agent,
+          policy: getAgentSpec(b.agent).policy,
+          budget: b.budget,
+          parallel: true,
+          branch: String.fromCharCode(65 + i),
+          ...(conditional ? { conditional } : {}),
+          ...(step.downgrade ? { downgrade: step.downgrade } : {}),
+          ...(step.note ? { note: step.note } : {}),
+        });
+      });
+      if (step.reducer) {
+        n++;
+        plan.push({ step: n, agent: step.reducer.agent, policy: getAgentSpec(step.reducer.agent).policy, budget: step.reducer.budget, ...(step.downgrade ? { downgrade: step.downgrade } : {}) });
+      }
+      continue;
+    }
+    plan.push({
+      step: n,
+      agent: step.agent!,
+      policy: getAgentSpec(step.agent!).policy,
+      budget: step.budget!,
+      ...(conditional ? { conditional } : {}),
+      ...(step.downgrade ? { downgrade: step.downgrade } : {}),
+      ...(step.note ? { note: step.note } : {}),
+    });
+  }
+  return plan;
+}
+
+type StepResult = { ran: boolean; output: any; receiptId?: string; overBudget?: boolean };
+type ChainState = { input: Record<string, any>; steps: Map<string, StepResult> };
+
+function lookup(ref: string, state: ChainState): any {
+  const [head, ...rest] = ref.split(".");
+  let cur: any = head === "input" ? state.input : state.steps.get(head)?.output;
+  for (const key of rest) {
+    if (cur == null) return undefined;
+    cur = cur[key];
+  }
+  return cur;
+}
+
+// Resolve `$step.path` / `$input.path` references and `${ENV:-default}` in a template value
+function resolveTemplate(value: any, state: ChainState): any {
+  if (typeof value === "string") {
+    const m = /^\$([A-Za-z_][\w-]*(?:\.[\w-]+)*)$/.exec(value);
+    if (m) return lookup(m[1], state);
+    return expandEnv(value);
+  }
+  if (Array.isArray(value)) return value.map((v) => resolveTemplate(v, state));
+  if (value && typeof value === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = resolveTemplate(v, state);
+    return out;
+  }
+  return value;
+}
+
+function conditionHolds(expr: string, state: ChainState): boolean {
+  const c = parseCondition(expr)!;
+  if (c.op === "within-budget") {
+    const r = state.steps.get(c.ref.split(".")[0]);
+    return !!r?.ran && !r.overBudget;
+  }
+  const v = lookup(c.ref, state);
+  const empty = v == null || v === "" || (Array.isArray(v) && v.length === 0) || (typeof v === "object" && !Array.isArray(v) && Object.keys(v).length === 0);
+  return c.op === "empty" ? empty : !empty;
+}
+
+function resolveParent(step: ChainStepT, state: ChainState): string | undefined {
+  for (const p of toList(step.parent)) {
+    const r = state.steps.get(p);
+    if (r?.ran) return r.receiptId;
+  }
+  return undefined;
+}
+
+// What a step asks of the task budget: its own budget, or for a fan-out every branch plus the reducer
+// (branches run side by side, so their time is the slowest branch's)
+function stepNeed(step: ChainStepT): BudgetT {
+  if (!step.fan_out) return step.budget!;
+  const branches = step.fan_out.branches.map((b) => b.budget);
+  const r = step.reducer?.budget ?? { tokens: 0, costUsd: 0, timeMs: 0 };
+  return {
+    tokens: branches.reduce((a, b) => a + b.tokens, r.tokens),
+    costUsd: branches.reduce((a, b) => a + b.costUsd, r.costUsd),
+    timeMs: Math.max(...branches.map((b) => b.timeMs)) + r.timeMs,
+  };
+}
+
+// A fan-out branch's slice of what is left: tokens and USD in proportion to its budget within the whole step
+// (so parallel branches cannot together spend more than is left, and the reducer keeps its share); time is shared
+function shareOf(left: BudgetT, part: BudgetT, whole: BudgetT): BudgetT {
+  return {
+    tokens: Math.floor(left.tokens * (whole.tokens ? part.tokens / whole.tokens : 1)),
+    costUsd: left.costUsd * (whole.costUsd ? part.costUsd / whole.costUsd : 1),
+    timeMs: left.timeMs,
+  };
+}
+
+function covers(left: BudgetT, need: BudgetT): boolean {
+  return left.tokens >= need.tokens && left.costUsd >= need.costUsd && left.timeMs >= need.timeMs;
+}
+
+function exhausted(left: BudgetT): boolean {
+  return left.tokens <= 0 || left.costUsd <= 0 || left.timeMs <= 0;
+}
+
+// Task-level budget shared by every step: tokens and USD are drawn down by each hop's usage, time by the clock
+function createTaskBudget(limit: BudgetT) {
+  const start = Date.now();
+  const used = { tokens: 0, costUsd: 0 };
+  const downgraded: string[] = [];
+  const skipped: string[] = [];
+  const remaining = (): BudgetT => ({
+    tokens: limit.tokens - used.tokens,
+    costUsd: Number((limit.costUsd - used.costUsd).toFixed(6)),
+    timeMs: limit.timeMs - (Date.now() - start),
+  });
+  return {
+    downgraded,
+    skipped,
+    remaining,
+    draw(hops: Array<{ tokens?: number; costUsd?: number } | undefined>) {
+      for (const h of hops) {
+        used.tokens += h?.tokens ?? 0;
+        used.costUsd += h?.costUsd ?? 0;
+      }
+    },
+    summary: () => ({
+      limit,
+      used: { tokens: used.tokens, costUsd: Number(used.costUsd.toFixed(6)), timeMs: Date.now() - start },
+      remaining: remaining(),
+      ...(downgraded.length ? { downgraded } : {}),
+      ...(skipped.length ? { skipped } : {}),
+    }),
+  };
+}
+
+export async function runChainSpec(spec: ChainSpecT, opts: { text: string; earlyStop?: boolean }) {
+  const taskId = uuid();
+  const state: ChainState = { input: { text: opts.text }, steps: new Map() };
+  const task = spec.budget ? createTaskBudget(spec.budget) : undefined;
+  let aborted: { step: string; reason: "budget" | "error"; remaining: BudgetT; error?: string } | undefined;
+
+  for (const step of spec.steps) {
+    const conds = toList(step.when);
+    if (!conds.every((c) => conditionHolds(c, state))) {
+      state.steps.set(step.id, { ran: false, output: step.default !== undefined ? resolveTemplate(step.default, state) : undefined });
+      continue;
+    }
+
+    // With a task budget: stop once any dimension is used up; when what is left cannot cover the step, run it
+    // on its `downgrade` policy, else skip it if it has a default, else run it capped to what is left
+    const left = task?.remaining();
+    let policy: string | undefined;
+    if (task && left) {
+      if (exhausted(left)) { aborted = { step: step.id, reason: "budget", remaining: left }; break; }
+      if (!covers(left, stepNeed(step))) {
+        if (step.downgrade) {
+          policy = step.downgrade;
+          task.downgraded.push(step.id);
+        } else if (step.default !== undefined) {
+          task.skipped.push(step.id);
+          state.steps.set(step.id, { ran: false, output: resolveTemplate(step.default, state) });
+          continue;
+        }
+      }
+    }
+    const receiptExtras = policy ? { budget_downgrade: { step: step.id, policy } } : undefined;
+
+    const parentId = resolveParent(step, state);
+    const input = resolveTemplate(step.input ?? {}, state);
+    const context = step.context ? resolveTemplate(step.context, state) : undefined;
+    const constraints = step.constraints ? resolveTemplate(step.constraints, state) : undefined;
+
+    try {
+      if (step.fan_out) {
+        const earlyStop = !!opts.earlyStop || !!step.fan_out.early_stop || process.env.ROUTEPILOT_EARLY_STOP === "1";
+        const need = stepNeed(step);
+        const fan = await runFanOut(taskId, parentId, step.fan_out.branches.map((b) => ({
+          agent: b.agent,
+          input: b.input !== undefined ? resolveTemplate(b.input, state) : input,
+          budget: b.budget,
+          taskBudget: left && shareOf(left, b.budget, need),
+          context: b.context ? resolveTemplate(b.context, state) : context,
+          constraints: b.constraints ? resolveTemplate(b.constraints, state) : constraints,
+        })), { earlyStop, policy, receiptExtras });
+        const branches = fan.results as Array<{ receiptId?: string; output: any; overBudget?: boolean; tokens?: number; costUsd?: number }>;
+        task?.draw([...branches, ...fan.cancelled]);
+        if (!step.reducer) {
+          state.steps.set(step.id, { ran: true, output: branches.map((b) => b.output), receiptId: parentId, overBudget: branches.some((b) => b.overBudget) });
+          continue;
+        }
+        // The branches may have used up the task budget; then the reducer does not run
+        const afterBranches = task?.remaining();
+        if (afterBranches && exhausted(afterBranches)) { aborted = { step: step.id, reason: "budget", remaining: afterBranches }; break; }
+        const agg = await reduceFanOut(
+          taskId,
+          parentId,
+          step.reducer.agent,
+          branches.map((b) => ({ receiptId: b.receiptId!, output: b.output })),
+          step.reducer.budget,
+          step.reducer.context ? resolveTemplate(step.reducer.context, state) : {},
+          fan.cancelledAgents,
+          { policy, taskBudget: afterBranches, receiptExtras }
+        );
+        task?.draw([agg]);
+        state.steps.set(step.id, { ran: true, output: agg.output, receiptId: agg.receiptId, overBudget: agg.overBudget });
+        continue;
+      }
+
+      const res = await runSubAgent({
+        envelopeVersion: "1",
+        taskId,
+        parentId,
+        agent: step.agent!,
+        policy: policy ?? getAgentSpec(step.agent!).policy,
+        budget: step.budget!,
+        taskBudget: left,
+        input,
+        context,
+        constraints,
+        receiptExtras,
+      });
+      task?.draw([res]);
+      state.steps.set(step.id, { ran: true, output: res.output, receiptId: res.receiptId, overBudget: res.overBudget });
+    } catch (e: any) {
+      // Within a task budget a hop that fails to route (often one capped to a small remainder) ends the chain with
+      // a partial result; its spend, as reported on the error, is still charged
+      if (!task || !left || !(e instanceof RouterError)) throw e;
+      task.draw([(e as any).spent]);
+      const after = task.remaining();
+      const reason = exhausted(after) || !covers(left, stepNeed(step)) ? "budget" : "error";
+      aborted = { step: step.id, reason, remaining: after, error: e.message };
+      break;
+    }
+  }
+
+  // An aborted chain still returns what the finished steps produced
+  const extra = { ...(task ? { budget: task.summary() } : {}), ...(aborted ? { aborted } : {}) };
+  if (spec.output !== undefined) return { taskId, ...resolveTemplate(spec.output, state), ...extra };
+  const outputs: Record<string, any> = {};
+  for (const [id, r] of state.steps) outputs[id] = r.output;
+  return { taskId, outputs, ...extra };
+}
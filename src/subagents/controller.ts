@@ -1,22 +1,29 @@
 import crypto from "node:crypto";
 import { getAgentSpec } from "./registry.js";
-import { TaskEnvelope } from "./types.js";
-import { loadPolicy } from "../policy.js";
-import { runWithFallback } from "../router.js";
+import { AgentSpecT, BudgetT, TaskEnvelope } from "./types.js";
+import { loadPolicy, Policy } from "../policy.js";
+import { runWithFallback, routeOptionsFor, RouteOptions } from "../router.js";
 import { streamSSEToBufferAndStdout } from "../util/stream.js";
-import { writeReceipt } from "../receipts.js";
+import { writeReceipt, writeFailureReceipt, routeExtras } from "../receipts.js";
 import db from "../db.js";
 import { estimateCost } from "../rates.js";
 import { safeLastJson } from "../util/json.js";
 import { validateAgainstSchema } from "./validate.js";
-import { httpFetch } from "./tools/http_fetch.js";
+import { executeToolCall, toolDefinitions } from "./tools/registry.js";
 import { sha256Hex } from "../util/hash.js";
+import { RouterError } from "../util/errors.js";
+import { estimatePromptTokens, probeUsageFromJSON, resolveUsage, ResolvedUsage, UsageCounts } from "../util/usage.js";
+import type { ChatMessage, ToolCall } from "../gateway.js";
 
-function uuid() { return crypto.randomUUID(); }
+const DEFAULT_MAX_TOOL_STEPS = 4;
+const TOOL_INSTRUCTION = "Call the provided tools when you need data you do not have. Once you have what you need, reply with the final JSON only.";
 
 export async function runSubAgent<I, O>(env: TaskEnvelope<I, O>) {
   const spec = getAgentSpec(env.agent);
-  const policy = await loadPolicy(spec.policy);
+  // An envelope policy overrides the agent's (chains downgrade steps this way); empty means the agent's own
+  const policy = await loadPolicy(env.policy || spec.policy);
+  // Within a task budget, the hop may only spend what is left of it
+  const budget = env.taskBudget ? clampBudget(env.budget, env.taskBudget) : env.budget;
 
   const system = spec.system ?? `You are ${spec.name}. Output strictly JSON that matches the expected schema. Do not include markdown fences.`;
 
@@ -27,43 +34,13 @@ export async function runSubAgent<I, O>(env: TaskEnvelope<I, O>) {
       `Input schema validation failed for ${spec.name}: ${vin.errors.join('; ')}`
     );
   }
-  // Optional tool: http_fetch — run before LLM and attach results to payload
-  let tool_results: any = undefined;
-  try {
-    if (spec.tools?.includes("http_fetch")) {
-      const ids = (env as any).input?.ids as string[] | undefined;
-      const urlTemplate = (env.context as any)?.http_fetch?.url_template || process.env.HTTP_FETCH_URL_TEMPLATE;
-      if (ids && ids.length && typeof urlTemplate === 'string' && urlTemplate.includes('{id}')) {
-        const allowHosts = (process.env.HTTP_FETCH_ALLOWLIST || '').split(/\s*,\s*/).filter(Boolean);
-        const envMax = parseInt(process.env.HTTP_FETCH_MAX || '3', 10);
-        const cap = Number.isFinite(envMax) && envMax > 0 ? envMax : 3;
-        const maxFetch = Math.min(ids.length, cap); // cap for safety
-        const fetched: any[] = [];
-        for (let i = 0; i < maxFetch; i++) {
-          const id = ids[i];
-          const url = urlTemplate.replaceAll('{id}', encodeURIComponent(id));
-          try {
-            const res = await httpFetch(url, { allowHosts });
-            let parsed: any = undefined;
-            if (res.body && (res.headers['content-type'] || '').startsWith('application/json')) {
-              try { parsed = JSON.parse(res.body); } catch {}
-            }
-            const body = res.body ? (res.body.length > 5000 ? (res.body.slice(0, 5000) + '\n...[truncated]') : res.body) : undefined;
-            fetched.push({ id, url, status: res.status, json: parsed, body });
-          } catch (e: any) {
-            fetched.push({ id, url, error: e?.message || String(e) });
-          }
-        }
-        tool_results = { http_fetch: fetched };
-      }
-    }
-  } catch {}
+  // Tools named in agents.yaml, offered to the model; unknown names fail before any call
+  const toolDefs = toolDefinitions(spec.tools ?? []);
+  const maxSteps = spec.max_tool_steps ?? DEFAULT_MAX_TOOL_STEPS;
 
-  const userPayloadObj: any = { input: env.input, context: env.context ?? {}, constraints: env.constraints ?? {} };
-  if (tool_results) userPayloadObj.tool_results = tool_results;
-  const userPayload = JSON.stringify(userPayloadObj);
-  const messages = [
-    { role: "system", content: system },
+  const userPayload = JSON.stringify({ input: env.input, context: env.context ?? {}, constraints: env.constraints ?? {} });
+  const messages: ChatMessage[] = [
+    { role: "system", content: toolDefs.length ? `${system}\n${TOOL_INSTRUCTION}` : system },
     { role: "user", content: userPayload },
   ];
 
@@ -73,54 +50,170 @@ export async function runSubAgent<I, O>(env: TaskEnvelope<I, O>) {
   };
 
   if (process.stderr.isTTY) {
-    process.stderr.write(`\n=== ${env.agent} (policy=${spec.policy}) ===\n`);
+    process.stderr.write(`\n=== ${env.agent} (policy=${policy.policy}) ===\n`);
   }
 
   // Dry-run mode: validate only, no network calls or receipts
   if (process.env.ROUTEPILOT_DRY_RUN === '1') {
     const stub = createStubOutput(spec);
-    return { receiptId: undefined, output: stub as O, model: 'dry-run', latencyMs: 0, costUsd: 0, fallbacks: 0, overBudget: false } as any;
+    return { receiptId: undefined, output: stub as O, model: 'dry-run', latencyMs: 0, costUsd: 0, tokens: 0, fallbacks: 0, overBudget: false } as any;
   }
 
-  const { routeFinal, fallbackCount, latency, firstTokenMs, reasons, usagePrompt, usageCompletion } = await runWithFallback(
-    { primary: policy.routing.primary, backups: policy.routing.backups },
-    policy.objectives.p95_latency_ms,
-    policy.routing.p95_window_n,
-    messages as any,
-    Math.min(env.budget.tokens, policy.objectives.max_tokens ?? env.budget.tokens),
-    Math.min(env.budget.timeMs, policy.strategy.fallback_on_latency_ms ?? env.budget.timeMs),
-    policy.strategy.max_attempts,
-    policy.strategy.backoff_ms,
-    policy.strategy.first_chunk_gate_ms,
-    policy.strategy.escalate_after_fallbacks,
-    { ...(policy.gen || {}), json_mode: true },
-    policy.routing.params ?? undefined,
-    handler,
-    undefined,
-    false
-  );
+  // The hop's receipt id is fixed up front so each tool call's receipt can point at it
+  const rid = crypto.randomUUID();
+  const start = Date.now();
+
+  // Model-driven tool loop: each step is one routed call; while the model asks for tools (and steps and budget
+  // remain) the calls run, their results are appended as `tool` messages and the model is called again.
+  // Once a cap is hit the next call goes out without tools, so the model has to answer.
+  const totals = { prompt: 0, completion: 0, cost: 0, fallbacks: 0 };
+  const reasons: string[] = [];
+  const allToolCalls: ToolCall[] = [];
+  const toolResults: Array<{ name: string; call_id: string; receipt_id: string; ok: boolean; error?: string; result?: Record<string, unknown> }> = [];
+  const callsByTool = new Map<string, number>();
+  let stopped: "answer" | "max_steps" | "budget" = "answer";
+  let step = 0;
+  let last: Awaited<ReturnType<typeof runWithFallback>>;
+  let source: ResolvedUsage["source"] = { prompt: "estimated", completion: "estimated" };
+
+  // One routed call; its usage and cost are added to the hop's totals
+  const callModel = async (pol: Policy, plan: { primary: string[]; backups: string[] }, sent: ChatMessage[], extra: Partial<RouteOptions> = {}) => {
+    const routed = await runWithFallback(
+      plan,
+      pol.objectives.p95_latency_ms,
+      pol.routing.p95_window_n,
+      sent,
+      Math.min(budget.tokens, pol.objectives.max_tokens ?? budget.tokens),
+      Math.min(budget.timeMs, pol.strategy.fallback_on_latency_ms ?? budget.timeMs),
+      pol.strategy.max_attempts,
+      pol.strategy.backoff_ms,
+      pol.strategy.first_chunk_gate_ms,
+      pol.strategy.escalate_after_fallbacks,
+      { ...(pol.gen || {}), json_mode: true },
+      pol.routing.params ?? undefined,
+      handler,
+      undefined,
+      false,
+      { ...routeOptionsFor(pol), ...extra }
+    );
+    // Usage from the stream or headers, then the optional probe (prompt only), then the local tokenizer
+    let probe: UsageCounts | null = null;
+    if (process.env.ROUTEPILOT_USAGE_PROBE === '1' && routed.usagePrompt == null) {
+      const perModel = (pol.routing.params || {})[routed.routeFinal] || {};
+      const merged = { ...(pol.gen || {}), ...perModel } as any;
+      probe = await probeUsageFromJSON({ model: routed.routeFinal, messages: sent, max_tokens: 1, ...(merged.temperature != null ? { temperature: merged.temperature } : {}), ...(merged.top_p != null ? { top_p: merged.top_p } : {}), ...(merged.stop ? { stop: merged.stop } : {}), ...(merged.json_mode ? { response_format: { type: "json_object" } } : {}) });
+    }
+    const usage = resolveUsage(routed.routeFinal, sent, captured + routed.toolCalls.map((c) => c.function.arguments).join(""), { prompt: routed.usagePrompt, completion: routed.usageCompletion, via: routed.usageVia }, { prompt: probe?.prompt });
+    const callCost = estimateCost(routed.routeFinal, usage.prompt, usage.completion) + (routed.hedge?.loser_cost_usd ?? 0);
+    totals.prompt += usage.prompt;
+    totals.completion += usage.completion;
+    totals.cost += callCost;
+    source = usage.source;
+    return { routed, usage, cost: callCost };
+  };
 
-  // Real usage from headers when available; fallback to estimate; optional usage probe
-  let usage = { prompt: usagePrompt ?? 300, completion: usageCompletion ?? 200 };
-  if (process.env.ROUTEPILOT_USAGE_PROBE === '1' && usagePrompt == null) {
-    const perModel = (policy.routing.params || {})[routeFinal] || {};
-    const merged = { ...(policy.gen || {}), ...perModel } as any;
-    const { probeUsageFromJSON } = await import("../util/usage.js");
-    const probe = await probeUsageFromJSON({ model: routeFinal, messages: messages as any, max_tokens: 1, ...(merged.temperature != null ? { temperature: merged.temperature } : {}), ...(merged.top_p != null ? { top_p: merged.top_p } : {}), ...(merged.stop ? { stop: merged.stop } : {}), ...(merged.json_mode ? { response_format: { type: "json_object" } } : {}) });
-    if (probe?.prompt != null) usage.prompt = probe.prompt;
-    if (usage.completion == null && probe?.completion != null) usage.completion = probe.completion;
+  const budgetLeft = () => totals.cost < budget.costUsd && totals.prompt + totals.completion < budget.tokens && Date.now() - start < budget.timeMs;
+
+  while (true) {
+    const offerTools = toolDefs.length > 0 && step < maxSteps && budgetLeft();
+    if (toolDefs.length && !offerTools && stopped === "answer") stopped = step >= maxSteps ? "max_steps" : "budget";
+    const call = await callModel(
+      policy,
+      { primary: policy.routing.primary, backups: policy.routing.backups },
+      [...messages],
+      offerTools ? { tools: toolDefs, toolChoice: "auto" } : {}
+    ).catch((e) => {
+      if (e instanceof RouterError) {
+        writeFailureReceipt({
+          id: rid,
+          policy: policy.policy,
+          route_primary: policy.routing.primary[0],
+          task_id: env.taskId,
+          parent_id: env.parentId,
+          prompt_hash: sha256Hex(userPayload),
+          policy_hash: sha256Hex(JSON.stringify(policy)),
+          ...(toolResults.length ? { extras: { tool_results: toolResults, tool_loop: { steps: step } } } : {}),
+        }, e);
+      }
+      // What the hop spent before failing, for task budgets; an aborted call is billed its prompt, like a hedge loser
+      const prompt = env.abortSignal?.aborted ? estimatePromptTokens(messages, policy.routing.primary[0]) : 0;
+      throw Object.assign(e, {
+        spent: {
+          tokens: totals.prompt + totals.completion + prompt,
+          costUsd: totals.cost + estimateCost(policy.routing.primary[0], prompt, 0),
+        },
+      });
+    });
+    last = call.routed;
+    step++;
+    totals.fallbacks += last.fallbackCount;
+    reasons.push(...last.reasons);
+
+    if (!offerTools || !last.toolCalls.length) break;
+    allToolCalls.push(...last.toolCalls);
+    messages.push({ role: "assistant", content: captured, tool_calls: last.toolCalls });
+    for (const call of last.toolCalls) {
+      const r = await runToolCall(call, env, spec.name, spec.tools ?? [], policy.policy, rid, callsByTool);
+      toolResults.push(r.record);
+      messages.push({ role: "tool", tool_call_id: call.id, content: r.content });
+    }
+  }
+
+  // Output check against output_schema. With `repair`, an invalid reply goes back to the model with the
+  // validation errors (no tools) up to max_attempts times, while the hop's budget lasts; each attempt is
+  // listed in the receipt.
+  let check = spec.output_schema ? checkOutput(spec.output_schema, captured) : undefined;
+  const repairs: RepairRecord[] = [];
+  if (check && !check.ok && spec.repair?.max_attempts) {
+    const repairPolicy = spec.repair.policy ? await loadPolicy(spec.repair.policy) : policy;
+    for (let attempt = 1; attempt <= spec.repair.max_attempts && !check.ok && budgetLeft(); attempt++) {
+      const plan = repairPlan(spec.repair, repairPolicy, last.routeFinal);
+      const sent: ChatMessage[] = [
+        ...messages,
+        { role: "assistant", content: captured },
+        { role: "user", content: repairPrompt(spec.output_schema, check.errors) },
+      ];
+      const t0 = Date.now();
+      try {
+        const r = await callModel(repairPolicy, plan, sent);
+        // The kept reply now comes from this call, so the receipt's route follows it
+        last = r.routed;
+        totals.fallbacks += last.fallbackCount;
+        reasons.push(...last.reasons);
+        check = checkOutput(spec.output_schema, captured);
+        repairs.push({
+          attempt,
+          model: r.routed.routeFinal,
+          ok: check.ok,
+          ...(check.ok ? {} : { errors: check.errors }),
+          latency_ms: Date.now() - t0,
+          prompt_tokens: r.usage.prompt,
+          completion_tokens: r.usage.completion,
+          cost_usd: Number(r.cost.toFixed(6)),
+        });
+      } catch (e: any) {
+        // Repair is best effort: keep the invalid reply and stop trying
+        repairs.push({ attempt, model: plan.primary[0], ok: false, error: e?.message || String(e), latency_ms: Date.now() - t0 });
+        break;
+      }
+    }
   }
-  const cost = estimateCost(routeFinal, usage.prompt, usage.completion);
-  const overBudget = cost > (env.budget.costUsd ?? Infinity) || latency > env.budget.timeMs || fallbackCount >= 2;
+
+  const { routeFinal, firstTokenMs, finishReason, preflight, circuitOpen, hedge } = last;
+  const latency = Date.now() - start;
+  const cost = totals.cost;
+  const fallbackCount = totals.fallbacks;
+  const overBudget = cost > (budget.costUsd ?? Infinity) || latency > budget.timeMs || fallbackCount >= 2;
   const includeSnapshot = process.env.ROUTEPILOT_SNAPSHOT_INPUT === '1';
-  const rid = writeReceipt({
+  writeReceipt({
+    id: rid,
     policy: policy.policy,
     route_primary: policy.routing.primary[0],
     route_final: routeFinal,
     model_path: routeFinal,
     fallback_count: fallbackCount,
     latency_ms: latency,
-    usage: { prompt: usage.prompt, completion: usage.completion, cost },
+    usage: { prompt: totals.prompt, completion: totals.completion, cost, source },
     task_id: env.taskId,
     parent_id: env.parentId,
     first_token_ms: firstTokenMs ?? null,
@@ -129,7 +222,16 @@ export async function runSubAgent<I, O>(env: TaskEnvelope<I, O>) {
     policy_hash: sha256Hex(JSON.stringify(policy)),
     // extra metadata (stored in payload_json for timeline rendering)
     // not indexed: safe to add without DB migrations
-    extras: { ...(env.receiptExtras || {}), ...(includeSnapshot ? { input_snapshot: userPayload } : {}), ...(overBudget ? { over_budget: true } : {}) },
+    extras: {
+      ...(env.receiptExtras || {}),
+      ...(includeSnapshot ? { input_snapshot: userPayload } : {}),
+      ...(overBudget ? { over_budget: true } : {}),
+      ...(env.taskBudget ? { task_budget: { remaining: env.taskBudget } } : {}),
+      ...(toolDefs.length ? { tool_loop: { steps: step, stopped }, ...(toolResults.length ? { tool_results: toolResults } : {}) } : {}),
+      ...(check ? { output_schema: { ok: check.ok, errors: check.errors } } : {}),
+      ...(repairs.length ? { repairs } : {}),
+      ...routeExtras({ preflight, circuitOpen, hedge, finishReason, toolCalls: allToolCalls }, cost, policy.objectives.max_cost_usd),
+    },
   });
 
   // Record trace to support p95-based routing pre-pick for sub-agent models
@@ -144,234 +246,176 @@ export async function runSubAgent<I, O>(env: TaskEnvelope<I, O>) {
     policy.routing.primary[0],
     routeFinal,
     latency,
-    usage.prompt + usage.completion,
+    totals.prompt + totals.completion,
     cost
   );
 
-  const json = safeLastJson(captured) as O;
-  // Light schema validation (warn only)
-  const v = validateAgainstSchema(spec.output_schema as any, json);
-  if (!v.ok) {
-    const msg = `[validate] ${spec.name} output schema warnings: ${v.errors.join("; ")}`;
+  const json = (check ? check.value : safeLastJson(captured)) as O;
+  if (check && !check.ok) {
+    const msg = `[validate] ${spec.name} output schema warnings: ${check.errors.join("; ")}`;
     process.stderr.write(`\n${msg}\n`);
   }
-  return { receiptId: rid, output: json, model: routeFinal, latencyMs: latency, costUsd: cost, fallbacks: fallbackCount, overBudget } as any;
+  return { receiptId: rid, output: json, model: routeFinal, latencyMs: latency, costUsd: cost, tokens: totals.prompt + totals.completion, fallbacks: fallbackCount, overBudget } as any;
 }
 
-function createStubOutput(spec: ReturnType<typeof getAgentSpec>): any {
-  const name = spec.name || '';
-  if (/Triage/i.test(name)) return { intent: "dry-run", fields: [] };
-  if (/Retriever/i.test(name)) return { records: [] };
-  if (/Writer/i.test(name)) return { draft: "" };
-  if (/Aggregator/i.test(name)) return { records: [] };
-  return {};
+// Per-dimension minimum of a hop budget and what is left of the task budget (never below zero)
+export function clampBudget(hop: BudgetT, left: BudgetT): BudgetT {
+  return {
+    tokens: Math.max(0, Math.min(hop.tokens, left.tokens)),
+    costUsd: Math.max(0, Math.min(hop.costUsd, left.costUsd)),
+    timeMs: Math.max(0, Math.min(hop.timeMs, left.timeMs)),
+  };
 }
 
-export async function helpdeskChain(text: string) {
-  const taskId = uuid();
-  // 1) Triage
-  const triage = await runSubAgent<{ text: string }, { intent: string; fields?: string[] }>({
-    envelopeVersion: "1",
-    taskId,
-    agent: "TriageAgent",
-    policy: "balanced-helpdesk",
-    budget: { tokens: 800, costUsd: 0.002, timeMs: 1200 },
-    input: { text },
-  });
+type RepairRecord = {
+  attempt: number;
+  model: string;
+  ok: boolean;
+  errors?: string[];
+  error?: string;
+  latency_ms: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cost_usd?: number;
+};
 
-  // 2) Retrieval (optional)
-  let records: any = { records: [] };
-  if (!('overBudget' in triage && (triage as any).overBudget) && (triage.output?.fields?.length)) {
-    const ids = triage.output.fields;
-    const ret = await runSubAgent<{ ids: string[] }, { records: any[] }>({
-      envelopeVersion: "1",
-      taskId,
-      parentId: triage.receiptId,
-      agent: "RetrieverAgent",
-      policy: "cheap-fast",
-      budget: { tokens: 600, costUsd: 0.002, timeMs: 1000 },
-      input: { ids },
-    });
-    records = ret.output;
-    // 3) Writer, parent is retrieval receipt if present
-    const writer = await runSubAgent<{ context: any; tone: string }, { draft: string }>({
-      envelopeVersion: "1",
-      taskId,
-      parentId: ret.receiptId,
-      agent: "WriterAgent",
-      policy: "premium-brief",
-      budget: { tokens: 1200, costUsd: 0.006, timeMs: 1500 },
-      input: { context: { text, triage: triage.output, records }, tone: "friendly" },
-    });
-    return { taskId, draft: writer.output.draft, triage: triage.output, records };
+// Last JSON object in the reply plus its validation result; a reply without JSON is a validation failure
+function checkOutput(schema: unknown, text: string): { value: any; ok: boolean; errors: string[] } {
+  let value: any;
+  try {
+    value = safeLastJson(text);
+  } catch {
+    return { value: undefined, ok: false, errors: ["reply is not JSON"] };
   }
-
-  // No retrieval, writer parent is triage receipt
-  const writer = await runSubAgent<{ context: any; tone: string }, { draft: string }>({
-    envelopeVersion: "1",
-    taskId,
-    parentId: triage.receiptId,
-    agent: "WriterAgent",
-    policy: "premium-brief",
-    budget: { tokens: 1200, costUsd: 0.006, timeMs: 1500 },
-    input: { context: { text, triage: triage.output, records }, tone: "friendly" },
-  });
-
-  return { taskId, draft: writer.output.draft, triage: triage.output, records };
+  return { value, ...validateAgainstSchema(schema, value) };
 }
 
-export async function helpdeskParallelChain(text: string, opts?: { earlyStop?: boolean }) {
-  const taskId = uuid();
-  // 1) Triage
-  const triage = await runSubAgent<{ text: string }, { intent: string; fields?: string[] }>({
-    envelopeVersion: "1",
-    taskId,
-    agent: "TriageAgent",
-    policy: "balanced-helpdesk",
-    budget: { tokens: 800, costUsd: 0.002, timeMs: 1200 },
-    input: { text },
-  });
-
-  let aggregated: any = { records: [] };
-  if (!('overBudget' in triage && (triage as any).overBudget) && (triage.output?.fields?.length)) {
-    const ids = triage.output.fields;
-    // 2) Fan-out: Fast + Accurate retrievers
-    const fan = await runFanOut(taskId, triage.receiptId!, [
-      { agent: "RetrieverFast",     input: { ids }, budget: { tokens: 500, costUsd: 0.0015, timeMs: 900 } },
-      { agent: "RetrieverAccurate", input: { ids }, budget: { tokens: 600, costUsd: 0.0020, timeMs: 1200 } },
-    ], { earlyStop: opts?.earlyStop ?? (process.env.ROUTEPILOT_EARLY_STOP === '1') });
-    const branches = fan.results;
-    // 3) Aggregator
-    const agg = await reduceFanOut(
-      taskId,
-      triage.receiptId!,
-      "AggregatorAgent",
-      branches.map((b: { receiptId?: string; output: any }) => ({ receiptId: b.receiptId!, output: b.output })),
-      { tokens: 600, costUsd: 0.002, timeMs: 900 },
-      { ids },
-      fan.cancelledAgents
-    );
-    aggregated = agg.output;
-  }
-
-  // 4) Writer
-  const writer = await runSubAgent<{ context: any; tone: string }, { draft: string }>({
-    envelopeVersion: "1",
-    taskId,
-    parentId: triage.receiptId,
-    agent: "WriterAgent",
-    policy: "premium-brief",
-    budget: { tokens: 1200, costUsd: 0.006, timeMs: 1500 },
-    input: { context: { text, triage: triage.output, records: aggregated }, tone: "friendly" },
-  });
-
-  return { taskId, draft: writer.output.draft, triage: triage.output, records: aggregated };
+function repairPrompt(schema: unknown, errors: string[]): string {
+  return [
+    "Your reply does not match the required JSON Schema:",
+    ...errors.slice(0, 20).map((e) => `- ${e}`),
+    `Schema: ${JSON.stringify(schema)}`,
+    "Reply again with only the corrected JSON object, no markdown fences.",
+  ].join("\n");
 }
 
-export async function helpdeskHttpChain(text: string) {
-  const taskId = uuid();
-  // 1) Triage
-  const triage = await runSubAgent<{ text: string }, { intent: string; fields?: string[] }>({
-    envelopeVersion: "1",
-    taskId,
-    agent: "TriageAgent",
-    policy: "balanced-helpdesk",
-    budget: { tokens: 800, costUsd: 0.002, timeMs: 1200 },
-    input: { text },
-  });
-
-  // 2) Retrieval with http_fetch context
-  let records: any = { records: [] };
-  if (!('overBudget' in triage && (triage as any).overBudget) && (triage.output?.fields?.length)) {
-    const ids = triage.output.fields;
-    const urlTemplate = process.env.HTTP_FETCH_URL_TEMPLATE || "https://jsonplaceholder.typicode.com/posts/{id}";
-    const ret = await runSubAgent<{ ids: string[] }, { records: any[] }>({
-      envelopeVersion: "1",
-      taskId,
-      parentId: triage.receiptId,
-      agent: "RetrieverAgent",
-      policy: "cheap-fast",
-      budget: { tokens: 600, costUsd: 0.002, timeMs: 1000 },
-      input: { ids },
-      context: { http_fetch: { url_template: urlTemplate } },
-    });
-    records = ret.output;
-    // 3) Writer
-    const writer = await runSubAgent<{ context: any; tone: string }, { draft: string }>({
-      envelopeVersion: "1",
-      taskId,
-      parentId: ret.receiptId,
-      agent: "WriterAgent",
-      policy: "premium-brief",
-      budget: { tokens: 1200, costUsd: 0.006, timeMs: 1500 },
-      input: { context: { text, triage: triage.output, records }, tone: "friendly" },
-    });
-    return { taskId, draft: writer.output.draft, triage: triage.output, records };
+// `same`: the model that wrote the invalid reply first, then the policy's other routes. `backup`: the policy's
+// backups only (falls back to `same` when there are none). A separate repair policy routes as usual.
+function repairPlan(repair: NonNullable<AgentSpecT["repair"]>, pol: Policy, model: string) {
+  if (repair.policy) return { primary: pol.routing.primary, backups: pol.routing.backups };
+  const others = [...pol.routing.primary, ...pol.routing.backups].filter((m) => m !== model);
+  if (repair.model === "backup") {
+    const backups = pol.routing.backups.filter((m) => m !== model);
+    if (backups.length) return { primary: [backups[0]], backups: backups.slice(1) };
   }
+  return { primary: [model], backups: others };
+}
 
-  const writer = await runSubAgent<{ context: any; tone: string }, { draft: string }>({
-    envelopeVersion: "1",
-    taskId,
-    parentId: triage.receiptId,
-    agent: "WriterAgent",
-    policy: "premium-brief",
-    budget: { tokens: 1200, costUsd: 0.006, timeMs: 1500 },
-    input: { context: { text, triage: triage.output, records }, tone: "friendly" },
+// Runs one requested tool call and writes its child receipt under the hop. Failures (unknown tool, bad arguments,
+// tool errors) go back to the model as the tool result rather than ending the run.
+async function runToolCall(call: ToolCall, env: TaskEnvelope, agent: string, allowed: string[], policy: string, parentId: string, callsByTool: Map<string, number>) {
+  const name = call.function.name;
+  const t0 = Date.now();
+  const { content, error, summary } = await executeToolCall(call, allowed, { taskId: env.taskId, agent, context: env.context ?? {}, signal: env.abortSignal }, callsByTool);
+  const receiptId = writeReceipt({
+    policy,
+    route_primary: `tool/${name}`,
+    route_final: `tool/${name}`,
+    fallback_count: 0,
+    latency_ms: Date.now() - t0,
+    usage: { prompt: 0, completion: 0, cost: 0 },
+    task_id: env.taskId,
+    parent_id: parentId,
+    extras: { tool: name, tool_call_id: call.id, args_sha256: sha256Hex(call.function.arguments), ok: !error, ...(error ? { error } : { result_sha256: sha256Hex(content) }), ...(summary ? { result: summary } : {}) },
   });
+  if (process.stderr.isTTY) process.stderr.write(`\n[tool] ${agent} → ${name} ${error ? `failed: ${error}` : "ok"}\n`);
+  return { content, record: { name, call_id: call.id, receipt_id: receiptId, ok: !error, ...(error ? { error } : {}), ...(summary ? { result: summary } : {}) } };
+}
 
-  return { taskId, draft: writer.output.draft, triage: triage.output, records };
+function createStubOutput(spec: ReturnType<typeof getAgentSpec>): any {
+  const name = spec.name || '';
+  if (/Triage/i.test(name)) return { intent: "dry-run", fields: [] };
+  if (/Retriever/i.test(name)) return { records: [] };
+  if (/Writer/i.test(name)) return { draft: "" };
+  if (/Aggregator/i.test(name)) return { records: [] };
+  return {};
 }
 
 // Helper: run multiple sub-agents in parallel with correct parent links
 export async function runFanOut(
   taskId: string,
-  parentReceiptId: string,
+  parentReceiptId: string | undefined, // undefined for a fan-out that starts the chain
   branches: Array<{
     agent: string;
     input: any;
     budget: { tokens: number; costUsd: number; timeMs: number };
+    taskBudget?: BudgetT; // this branch's share of the task budget
     context?: Record<string, any>;
     constraints?: Record<string, any>;
   }>,
-  opts?: { earlyStop?: boolean }
+  opts?: { earlyStop?: boolean; policy?: string; receiptExtras?: Record<string, any> }
 ) {
   const early = opts?.earlyStop ?? (process.env.ROUTEPILOT_EARLY_STOP === '1');
+  const shared = { policy: opts?.policy ?? "", receiptExtras: opts?.receiptExtras };
   if (!early) {
-    const results = await Promise.all(
+    const settled = await Promise.allSettled(
       branches.map((b) =>
-        runSubAgent({ envelopeVersion: "1", taskId, parentId: parentReceiptId, agent: b.agent, policy: "", budget: b.budget, input: b.input, context: b.context, constraints: b.constraints })
+        runSubAgent({ envelopeVersion: "1", taskId, parentId: parentReceiptId, agent: b.agent, ...shared, budget: b.budget, taskBudget: b.taskBudget, input: b.input, context: b.context, constraints: b.constraints })
       )
     );
-    return { results, cancelledAgents: [] } as any;
+    const failed = settled.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failed) throw Object.assign(failed.reason, { spent: spentBy(settled) });
+    return { results: settled.map((r) => (r as PromiseFulfilledResult<any>).value), cancelledAgents: [], cancelled: [] } as any;
   }
   const ctrls = branches.map(() => new AbortController());
-  const proms = branches.map((b, i) => runSubAgent({ envelopeVersion: "1", taskId, parentId: parentReceiptId, agent: b.agent, policy: "", budget: b.budget, input: b.input, context: b.context, constraints: b.constraints, abortSignal: ctrls[i].signal }));
-  const first = await Promise.race(proms.map((p, idx) => p.then(res => ({ res, idx }))));
+  const proms = branches.map((b, i) => runSubAgent({ envelopeVersion: "1", taskId, parentId: parentReceiptId, agent: b.agent, ...shared, budget: b.budget, taskBudget: b.taskBudget, input: b.input, context: b.context, constraints: b.constraints, abortSignal: ctrls[i].signal }));
+  // The first branch to succeed wins; the step fails only when every branch does
+  const first = await Promise.any(proms.map((p, idx) => p.then(res => ({ res, idx })))).catch(async (e: AggregateError) => {
+    throw Object.assign(e.errors[0], { spent: spentBy(await Promise.allSettled(proms)) });
+  });
   ctrls.forEach((c, i) => { if (i !== first.idx) try { c.abort(); } catch {} });
-  await Promise.allSettled(proms);
-  const cancelledAgents = branches.map((b, i) => i === first.idx ? undefined : b.agent).filter(Boolean) as string[];
-  return { results: [first.res], cancelledAgents } as any;
+  const settled = await Promise.allSettled(proms);
+  // Cancelled branches still spent tokens; a branch that failed on abort reports its spend on the error
+  const cancelled = settled
+    .map((r, i) => ({ r, agent: branches[i].agent, i }))
+    .filter(({ i }) => i !== first.idx)
+    .map(({ r, agent }) => ({ agent, ...spentBy([r]) }));
+  return { results: [first.res], cancelledAgents: cancelled.map((c) => c.agent), cancelled } as any;
+}
+
+// What settled hops spent: a finished hop's totals, or what a failed one reported on its error
+function spentBy(settled: PromiseSettledResult<any>[]) {
+  let tokens = 0;
+  let costUsd = 0;
+  for (const r of settled) {
+    const spent = r.status === "fulfilled" ? r.value : r.reason?.spent;
+    tokens += spent?.tokens ?? 0;
+    costUsd += spent?.costUsd ?? 0;
+  }
+  return { tokens, costUsd };
 }
 
 // Helper: reduce fan-out outputs with an aggregator agent
 export async function reduceFanOut(
   taskId: string,
-  parentReceiptId: string,
+  parentReceiptId: string | undefined,
   aggregatorAgent: string,
   branches: Array<{ receiptId: string; output: any }>,
   budget: { tokens: number; costUsd: number; timeMs: number },
   context: Record<string, any> = {},
-  cancelledAgents?: string[]
+  cancelledAgents?: string[],
+  opts?: { policy?: string; taskBudget?: BudgetT; receiptExtras?: Record<string, any> }
 ) {
   const agg = await runSubAgent({
     envelopeVersion: "1",
     taskId,
     parentId: parentReceiptId,
     agent: aggregatorAgent,
-    policy: "",
+    policy: opts?.policy ?? "",
     budget,
+    taskBudget: opts?.taskBudget,
     input: { branches: branches.map((b) => b.output), context },
-    receiptExtras: { children_receipts: branches.map((b) => b.receiptId), ...(cancelledAgents?.length ? { cancelled_agents: cancelledAgents } : {}) },
+    receiptExtras: { ...(opts?.receiptExtras || {}), children_receipts: branches.map((b) => b.receiptId), ...(cancelledAgents?.length ? { cancelled_agents: cancelledAgents } : {}) },
   });
   return agg;
 }
@@ -1,7 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import * as yaml from "yaml";
-import { AgentsFile, AgentSpecT } from "./types.js";
+import { AgentsFile, AgentSpec, AgentSpecT } from "./types.js";
 
 let cache: { byName: Map<string, AgentSpecT>; raw: AgentSpecT[] } | null = null;
 
@@ -28,3 +28,12 @@ export function listAgentSpecs(): AgentSpecT[] {
   return loadAgentsFile().raw;
 }
 
+
+// Programmatic sub-agents (embedding, tests): added next to the agents.yaml entries, replacing one of the same name
+export function registerAgentSpec(spec: AgentSpecT) {
+  const parsed = AgentSpec.parse(spec);
+  const { byName, raw } = loadAgentsFile();
+  const i = raw.findIndex((a) => a.name === parsed.name);
+  if (i >= 0) raw[i] = parsed; else raw.push(parsed);
+  byName.set(parsed.name, parsed);
+}
@@ -1,44 +1,19 @@
-import { helpdeskChain, helpdeskParallelChain, helpdeskHttpChain } from "./controller.js";
+import { loadChain, planChainSpec, runChainSpec } from "./chains.js";
 import crypto from "node:crypto";
 import { getAgentSpec } from "./registry.js";
 import { loadPolicy } from "../policy.js";
 import { runWithFallback } from "../router.js";
-import { streamSSEToVoid } from "../util/stream.js";
+import { streamSSEToWriterWithGate } from "../util/stream.js";
+import { resolveUsage } from "../util/usage.js";
 import { estimateCost } from "../rates.js";
 
 export async function runChain(name: string, opts: { text?: string; earlyStop?: boolean }) {
   if (!opts.text) throw new Error("--text is required");
-  if (name === "helpdesk") return helpdeskChain(opts.text);
-  if (name === "helpdesk-par" || name === "helpdesk-parallel") return helpdeskParallelChain(opts.text, { earlyStop: !!opts.earlyStop });
-  if (name === "helpdesk-http") return helpdeskHttpChain(opts.text);
-  throw new Error(`Unknown chain '${name}' (supported: helpdesk, helpdesk-par)`);
+  return runChainSpec(loadChain(name), { text: opts.text, earlyStop: !!opts.earlyStop });
 }
 
-export async function planChain(name: string, opts: { text?: string }) {
-  if (name === "helpdesk") {
-    return [
-      { step: 1, agent: "TriageAgent", policy: "balanced-helpdesk", budget: { tokens: 800, costUsd: 0.002, timeMs: 1200 } },
-      { step: 2, agent: "RetrieverAgent", policy: "cheap-fast", budget: { tokens: 600, costUsd: 0.002, timeMs: 1000 }, conditional: "if triage.fields non-empty" },
-      { step: 3, agent: "WriterAgent", policy: "premium-brief", budget: { tokens: 1200, costUsd: 0.006, timeMs: 1500 } },
-    ];
-  }
-  if (name === "helpdesk-par" || name === "helpdesk-parallel") {
-    return [
-      { step: 1, agent: "TriageAgent", policy: "balanced-helpdesk", budget: { tokens: 800, costUsd: 0.002, timeMs: 1200 } },
-      { step: 2, agent: "RetrieverFast", policy: "cheap-fast", budget: { tokens: 500, costUsd: 0.0015, timeMs: 900 }, parallel: true, branch: "A", conditional: "if triage.fields non-empty" },
-      { step: 2, agent: "RetrieverAccurate", policy: "balanced-helpdesk", budget: { tokens: 600, costUsd: 0.0020, timeMs: 1200 }, parallel: true, branch: "B" },
-      { step: 3, agent: "AggregatorAgent", policy: "cheap-fast", budget: { tokens: 600, costUsd: 0.002, timeMs: 900 } },
-      { step: 4, agent: "WriterAgent", policy: "premium-brief", budget: { tokens: 1200, costUsd: 0.006, timeMs: 1500 } },
-    ];
-  }
-  if (name === "helpdesk-http") {
-    return [
-      { step: 1, agent: "TriageAgent", policy: "balanced-helpdesk", budget: { tokens: 800, costUsd: 0.002, timeMs: 1200 } },
-      { step: 2, agent: "RetrieverAgent", policy: "cheap-fast", budget: { tokens: 600, costUsd: 0.002, timeMs: 1000 }, note: "http_fetch tool used with URL template" },
-      { step: 3, agent: "WriterAgent", policy: "premium-brief", budget: { tokens: 1200, costUsd: 0.006, timeMs: 1500 } },
-    ];
-  }
-  throw new Error(`Unknown chain '${name}' (supported: helpdesk, helpdesk-par)`);
+export async function planChain(name: string, _opts: { text?: string }) {
+  return planChainSpec(loadChain(name));
 }
 
 async function evaluateAgentOnModel(
@@ -56,7 +31,8 @@ async function evaluateAgentOnModel(
     { role: "system", content: system },
     { role: "user", content: JSON.stringify({ input, context: context ?? {}, constraints: constraints ?? {} }) },
   ];
-  const { latency, usagePrompt, usageCompletion, routeFinal } = await runWithFallback(
+  let output = "";
+  const { latency, usagePrompt, usageCompletion, usageVia, routeFinal } = await runWithFallback(
     { primary: [forceModel], backups: [] },
     policy.objectives.p95_latency_ms,
     policy.routing.p95_window_n,
@@ -69,14 +45,13 @@ async function evaluateAgentOnModel(
     policy.strategy.escalate_after_fallbacks,
     { ...(policy.gen || {}), json_mode: true },
     policy.routing.params ?? undefined,
-    async (res, onFirst) => { await streamSSEToVoid(res, onFirst); },
+    async (res, onFirst) => { output = await streamSSEToWriterWithGate(res, onFirst, 0, () => false, () => {}); },
     undefined,
     false
   );
-  const prompt = usagePrompt ?? 300;
-  const completion = usageCompletion ?? 200;
+  const { prompt, completion, source } = resolveUsage(routeFinal, messages, output, { prompt: usagePrompt, completion: usageCompletion, via: usageVia });
   const cost = estimateCost(routeFinal, prompt, completion);
-  return { model: routeFinal, latency_ms: latency, prompt_tokens: prompt, completion_tokens: completion, cost_usd: Number(cost.toFixed(6)) };
+  return { model: routeFinal, latency_ms: latency, prompt_tokens: prompt, completion_tokens: completion, usage_source: source, cost_usd: Number(cost.toFixed(6)) };
 }
 
 export async function replayRetrievers(name: string, opts: { text?: string; alts?: string[] }) {
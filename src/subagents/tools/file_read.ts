@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import path from "node:path";
+import { loadCsv, loadPdf, loadText } from "../../util/files.js";
+import type { SubAgentTool } from "./registry.js";
+
+// Sandboxed reads for sub-agents: only files under FILE_READ_ALLOWLIST directories (comma-separated), after
+// resolving symlinks, and only types the attachment loaders understand.
+
+const DEFAULT_MAX_BYTES = 1_000_000; // file size on disk
+const DEFAULT_MAX_CHARS = 15000;     // text handed back
+const TEXT_EXTS = new Set([".txt", ".md", ".json", ".yaml", ".yml", ".log"]);
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function allowedRoots(): string[] {
+  return (process.env.FILE_READ_ALLOWLIST || "").split(/\s*,\s*/).filter(Boolean).map((d) => path.resolve(d));
+}
+
+function within(root: string, p: string): boolean {
+  const rel = path.relative(root, p);
+  return rel !== ".." && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel);
+}
+
+// Real path of `file` if it lies inside one of `roots`; throws otherwise. Containment is checked on the path as
+// written before anything touches the disk, so a path outside the sandbox gets the same error whether it exists or not.
+export function resolveSandboxed(file: string, roots: string[]): string {
+  if (!roots.length) throw new Error("File reads are disabled (FILE_READ_ALLOWLIST is empty)");
+  const realRoots = roots.flatMap((r) => {
+    try { return [fs.realpathSync(r)]; } catch { return []; }
+  });
+  // Relative paths are tried against each allowed directory
+  const candidates = (path.isAbsolute(file) ? [path.resolve(file)] : roots.map((r) => path.resolve(r, file)))
+    .filter((c) => [...roots, ...realRoots].some((r) => within(r, c)));
+  if (!candidates.length) throw new Error(`Path outside the allowed directories: ${file}`);
+  const found = candidates.find((c) => fs.existsSync(c));
+  if (!found) throw new Error(`File not found: ${file}`);
+  // Symlinks inside the sandbox may still point out of it
+  const real = fs.realpathSync(found);
+  if (!realRoots.some((r) => within(r, real))) throw new Error(`Path outside the allowed directories: ${file}`);
+  if (!fs.statSync(real).isFile()) throw new Error(`Not a file: ${file}`);
+  return real;
+}
+
+export async function readSandboxed(
+  file: string,
+  opts: { roots?: string[]; maxBytes?: number; maxChars?: number; pages?: string; maxRows?: number; cols?: string } = {}
+): Promise<{ path: string; bytes: number; text: string }> {
+  const real = resolveSandboxed(file, opts.roots ?? allowedRoots());
+  const bytes = fs.statSync(real).size;
+  const maxBytes = opts.maxBytes ?? DEFAULT_MAX_BYTES;
+  if (bytes > maxBytes) throw new Error(`File exceeds maxBytes (${bytes} > ${maxBytes})`);
+  const maxChars = opts.maxChars ?? DEFAULT_MAX_CHARS;
+  const ext = path.extname(real).toLowerCase();
+  let text: string;
+  if (ext === ".pdf") text = await loadPdf(real, opts.pages, maxChars);
+  else if (ext === ".csv") text = loadCsv(real, opts.maxRows ?? 50, opts.cols, maxChars);
+  else if (TEXT_EXTS.has(ext)) text = loadText(real, maxChars);
+  else throw new Error(`Unsupported file type ${ext || "(none)"}`);
+  return { path: file, bytes, text };
+}
+
+export const fileReadTool: SubAgentTool = {
+  name: "file_read",
+  description: "Read a local text, Markdown, JSON, YAML, CSV or PDF file from the allowed directories.",
+  parameters: {
+    type: "object",
+    properties: {
+      path: { type: "string" },
+      pages: { type: "string", description: "PDF pages, e.g. \"1-3,5\"" },
+      max_rows: { type: "integer", description: "CSV rows to include (default 50)" },
+      cols: { type: "string", description: "CSV columns, comma-separated" },
+    },
+    required: ["path"],
+  },
+  async run(args) {
+    if (typeof args.path !== "string" || !args.path) throw new Error("file_read needs `path`");
+    return readSandboxed(args.path, {
+      maxBytes: envInt("FILE_READ_MAX_BYTES", DEFAULT_MAX_BYTES),
+      maxChars: envInt("FILE_READ_MAX_CHARS", DEFAULT_MAX_CHARS),
+      pages: typeof args.pages === "string" ? args.pages : undefined,
+      maxRows: typeof args.max_rows === "number" ? args.max_rows : undefined,
+      cols: typeof args.cols === "string" ? args.cols : undefined,
+    });
+  },
+  summarize: (r: any) => ({ path: r.path, bytes: r.bytes, chars: r.text.length }),
+};
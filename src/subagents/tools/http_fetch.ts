@@ -2,6 +2,7 @@ import dns from "node:dns/promises";
 import http from "node:http";
 import https from "node:https";
 import { URL } from "node:url";
+import type { SubAgentTool } from "./registry.js";
 
 export type HttpFetchOpts = {
   method?: "GET" | "HEAD";
@@ -114,3 +115,33 @@ export async function httpFetch(urlStr: string, opts: HttpFetchOpts = {}) {
   });
 }
 
+
+// Registry entry: the model passes an `id` (filled into context.http_fetch.url_template or HTTP_FETCH_URL_TEMPLATE)
+// or a full `url`. At most HTTP_FETCH_MAX (default 3) fetches per sub-agent run.
+export const httpFetchTool: SubAgentTool = {
+  name: "http_fetch",
+  description: "GET a small JSON or text resource from an allowlisted host. Pass `id` to use the configured URL template, or a full `url`.",
+  parameters: {
+    type: "object",
+    properties: { id: { type: "string", description: "record id for the URL template" }, url: { type: "string" } },
+  },
+  async run(args, ctx) {
+    const envMax = parseInt(process.env.HTTP_FETCH_MAX || "3", 10);
+    const cap = Number.isFinite(envMax) && envMax > 0 ? envMax : 3;
+    if (ctx.calls >= cap) throw new Error(`http_fetch limit reached (${cap} per sub-agent)`);
+    const template = ctx.context?.http_fetch?.url_template || process.env.HTTP_FETCH_URL_TEMPLATE;
+    let url = typeof args.url === "string" ? args.url : undefined;
+    if (!url && args.id != null && typeof template === "string" && template.includes("{id}")) {
+      url = template.replaceAll("{id}", encodeURIComponent(String(args.id)));
+    }
+    if (!url) throw new Error("http_fetch needs `url`, or `id` with a URL template configured");
+    const res = await httpFetch(url);
+    let json: any = undefined;
+    if (res.body && (res.headers["content-type"] || "").startsWith("application/json")) {
+      try { json = JSON.parse(res.body); } catch {}
+    }
+    const body = json === undefined && res.body ? (res.body.length > 5000 ? res.body.slice(0, 5000) + "\n...[truncated]" : res.body) : undefined;
+    return { url, status: res.status, ...(json !== undefined ? { json } : {}), ...(body ? { body } : {}) };
+  },
+  summarize: (r: any) => ({ url: r.url, status: r.status }),
+};
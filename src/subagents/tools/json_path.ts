@@ -0,0 +1,213 @@
+import fs from "node:fs";
+import { allowedRoots, resolveSandboxed } from "./file_read.js";
+import type { SubAgentTool } from "./registry.js";
+
+// JSONPath subset for pulling fields out of JSON the model already has (`data`) or an allowlisted file (`file`):
+//   $  .name  ['name']  [0]  [-1]  [0,2]  [1:3]  *  [*]  ..name (recursive)  [?(@.field)]  [?(@.field op literal)]
+// with op one of == != < <= > >= and literal a number, quoted string, true, false or null.
+
+const DEFAULT_MAX_RESULTS = 100;
+const DEFAULT_MAX_BYTES = 100_000;     // serialized matches handed back
+const DEFAULT_MAX_INPUT_BYTES = 1_000_000;
+const DEFAULT_MAX_NODES = 250_000;     // nodes built across all steps of one evaluation
+
+type Selector =
+  | { kind: "keys"; keys: Array<string | number> }
+  | { kind: "wildcard" }
+  | { kind: "slice"; start?: number; end?: number }
+  | { kind: "filter"; field: string[]; op?: string; value?: unknown };
+type Segment = { recursive: boolean; selector: Selector };
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function parseLiteral(raw: string): unknown {
+  const t = raw.trim();
+  if (/^'.*'$/.test(t)) return t.slice(1, -1);
+  if (/^".*"$/.test(t)) return JSON.parse(t);
+  if (t === "true" || t === "false" || t === "null") return JSON.parse(t);
+  const n = Number(t);
+  if (t !== "" && Number.isFinite(n)) return n;
+  throw new Error(`Unsupported literal in filter: ${raw}`);
+}
+
+function parseBracket(body: string): Selector {
+  const b = body.trim();
+  if (b === "*") return { kind: "wildcard" };
+  const filter = /^\?\(\s*@((?:\.[A-Za-z_$][\w$-]*)+)\s*(?:(==|!=|<=|>=|<|>)\s*(.+?))?\s*\)$/.exec(b);
+  if (filter) {
+    return { kind: "filter", field: filter[1].slice(1).split("."), ...(filter[2] ? { op: filter[2], value: parseLiteral(filter[3]) } : {}) };
+  }
+  const slice = /^(-?\d+)?\s*:\s*(-?\d+)?$/.exec(b);
+  if (slice) return { kind: "slice", start: slice[1] != null ? Number(slice[1]) : undefined, end: slice[2] != null ? Number(slice[2]) : undefined };
+  const keys = b.split(",").map((part) => {
+    const p = part.trim();
+    if (/^-?\d+$/.test(p)) return Number(p);
+    if (/^'[^']*'$/.test(p)) return p.slice(1, -1);
+    if (/^"[^"]*"$/.test(p)) return p.slice(1, -1);
+    throw new Error(`Unsupported selector [${body}]`);
+  });
+  return { kind: "keys", keys };
+}
+
+export function parseJsonPath(expr: string): Segment[] {
+  const src = expr.trim();
+  if (!src.startsWith("$")) throw new Error("JSONPath must start with $");
+  const out: Segment[] = [];
+  let i = 1;
+  while (i < src.length) {
+    let recursive = false;
+    if (src.startsWith("..", i)) { recursive = true; i += 2; }
+    else if (src[i] === ".") i += 1;
+    if (src[i] === "[") {
+      // find the matching ], skipping quoted strings
+      let j = i + 1;
+      let quote: string | null = null;
+      for (; j < src.length; j++) {
+        const ch = src[j];
+        if (quote) { if (ch === quote) quote = null; }
+        else if (ch === "'" || ch === '"') quote = ch;
+        else if (ch === "]") break;
+      }
+      if (j >= src.length) throw new Error(`Unclosed [ in ${expr}`);
+      out.push({ recursive, selector: parseBracket(src.slice(i + 1, j)) });
+      i = j + 1;
+      continue;
+    }
+    const m = /^(\*|[A-Za-z_$][\w$-]*)/.exec(src.slice(i));
+    if (!m) throw new Error(`Unexpected '${src[i] ?? ""}' at ${i} in ${expr}`);
+    out.push({ recursive, selector: m[1] === "*" ? { kind: "wildcard" } : { kind: "keys", keys: [m[1]] } });
+    i += m[1].length;
+  }
+  return out;
+}
+
+function children(v: unknown): unknown[] {
+  if (Array.isArray(v)) return v;
+  if (v && typeof v === "object") return Object.values(v);
+  return [];
+}
+
+// Every node an evaluation builds is charged here, so paths like $..*..*..* fail fast instead of exhausting memory
+function nodeBudget(max: number) {
+  let used = 0;
+  return (n: number) => {
+    used += n;
+    if (used > max) throw new Error(`JSONPath visits more than ${max} nodes (JSON_PATH_MAX_NODES)`);
+  };
+}
+
+// `..` over a node set: each object or array is expanded once, even when the set holds it and an ancestor
+function descendants(roots: unknown[], charge: (n: number) => void): unknown[] {
+  const out: unknown[] = [];
+  const seen = new Set<object>();
+  const walk = (v: unknown) => {
+    if (v && typeof v === "object") {
+      if (seen.has(v)) return;
+      seen.add(v);
+    }
+    charge(1);
+    out.push(v);
+    for (const c of children(v)) walk(c);
+  };
+  for (const r of roots) walk(r);
+  return out;
+}
+
+function compare(a: unknown, op: string, b: unknown): boolean {
+  switch (op) {
+    case "==": return a === b;
+    case "!=": return a !== b;
+    default:
+      if (typeof a !== typeof b || (typeof a !== "number" && typeof a !== "string")) return false;
+      if (op === "<") return (a as any) < (b as any);
+      if (op === "<=") return (a as any) <= (b as any);
+      if (op === ">") return (a as any) > (b as any);
+      return (a as any) >= (b as any);
+  }
+}
+
+function select(v: unknown, s: Selector): unknown[] {
+  if (s.kind === "wildcard") return children(v);
+  if (s.kind === "keys") {
+    const out: unknown[] = [];
+    for (const k of s.keys) {
+      if (Array.isArray(v) && typeof k === "number") {
+        const idx = k < 0 ? v.length + k : k;
+        if (idx >= 0 && idx < v.length) out.push(v[idx]);
+      } else if (v && typeof v === "object" && !Array.isArray(v) && Object.prototype.hasOwnProperty.call(v, String(k))) {
+        out.push((v as any)[String(k)]);
+      }
+    }
+    return out;
+  }
+  if (s.kind === "slice") return Array.isArray(v) ? v.slice(s.start, s.end) : [];
+  return children(v).filter((item) => {
+    let cur: any = item;
+    for (const f of s.field) {
+      if (!cur || typeof cur !== "object" || !Object.prototype.hasOwnProperty.call(cur, f)) return false;
+      cur = cur[f];
+    }
+    return s.op ? compare(cur, s.op, s.value) : true;
+  });
+}
+
+export function evaluateJsonPath(data: unknown, expr: string, maxNodes = envInt("JSON_PATH_MAX_NODES", DEFAULT_MAX_NODES)): unknown[] {
+  const charge = nodeBudget(maxNodes);
+  let nodes: unknown[] = [data];
+  for (const seg of parseJsonPath(expr)) {
+    const from = seg.recursive ? descendants(nodes, charge) : nodes;
+    const next: unknown[] = [];
+    for (const n of from) {
+      const picked = select(n, seg.selector);
+      charge(picked.length);
+      for (const p of picked) next.push(p);
+    }
+    nodes = next;
+  }
+  return nodes;
+}
+
+export const jsonPathTool: SubAgentTool = {
+  name: "json_path",
+  description: "Extract values from JSON with a JSONPath expression (e.g. $.orders[?(@.status=='open')].id). Pass the JSON as `data`, or an allowlisted `file`.",
+  parameters: {
+    type: "object",
+    properties: {
+      path: { type: "string", description: "JSONPath starting with $" },
+      data: { description: "JSON value (or a JSON string) to query" },
+      file: { type: "string", description: "JSON file under FILE_READ_ALLOWLIST, instead of data" },
+    },
+    required: ["path"],
+  },
+  async run(args) {
+    if (typeof args.path !== "string") throw new Error("json_path needs `path`");
+    const maxInput = envInt("JSON_PATH_MAX_INPUT_BYTES", DEFAULT_MAX_INPUT_BYTES);
+    let data: unknown = args.data;
+    if (typeof args.file === "string") {
+      const real = resolveSandboxed(args.file, allowedRoots());
+      const size = fs.statSync(real).size;
+      if (size > maxInput) throw new Error(`File exceeds maxBytes (${size} > ${maxInput})`);
+      data = JSON.parse(fs.readFileSync(real, "utf8"));
+    } else if (typeof data === "string") {
+      if (Buffer.byteLength(data) > maxInput) throw new Error(`data exceeds maxBytes (${maxInput})`);
+      try { data = JSON.parse(data); } catch { throw new Error("`data` is a string but not valid JSON"); }
+    }
+    if (data === undefined) throw new Error("json_path needs `data` or `file`");
+    const all = evaluateJsonPath(data, args.path);
+    const maxResults = envInt("JSON_PATH_MAX_RESULTS", DEFAULT_MAX_RESULTS);
+    const maxBytes = envInt("JSON_PATH_MAX_BYTES", DEFAULT_MAX_BYTES);
+    const matches: unknown[] = [];
+    let bytes = 0;
+    for (const m of all) {
+      const size = Buffer.byteLength(JSON.stringify(m) ?? "null");
+      if (matches.length >= maxResults || bytes + size > maxBytes) break;
+      bytes += size;
+      matches.push(m);
+    }
+    return { matches, total: all.length, truncated: matches.length < all.length };
+  },
+  summarize: (r: any) => ({ matches: r.matches.length, truncated: r.truncated }),
+};
@@ -0,0 +1,83 @@
+import type { ToolCall, ToolDefinition } from "../../gateway.js";
+import { fileReadTool } from "./file_read.js";
+import { httpFetchTool } from "./http_fetch.js";
+import { jsonPathTool } from "./json_path.js";
+import { sqlQueryTool } from "./sql_query.js";
+
+// Tools a model may call. `tools:` in `agents.yaml` (sub-agents) or an agent YAML (chat agents) names entries
+// here; the caller offers their definitions to the model and runs whatever it asks for (see runSubAgent, runAgent).
+
+const TOOL_RESULT_MAX_CHARS = 8000;
+
+export type ToolContext = {
+  taskId: string;               // the task, or the session for chat agents
+  agent: string;
+  context: Record<string, any>; // the envelope's context, or an agent's tool_context (e.g. context.http_fetch.url_template)
+  calls: number;                // earlier calls of this tool in the same run
+  signal?: AbortSignal;
+};
+
+export type SubAgentTool = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+  run(args: Record<string, any>, ctx: ToolContext): Promise<unknown>;
+  // Small, non-sensitive facts about a result (counts, sizes) recorded in receipts' tool_results
+  summarize?(result: any): Record<string, unknown>;
+};
+
+const tools = new Map<string, SubAgentTool>();
+
+export function registerTool(tool: SubAgentTool) {
+  if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) throw new Error(`Invalid tool name '${tool.name}' (letters, digits, _ and - only)`);
+  tools.set(tool.name, tool);
+}
+
+export function getTool(name: string): SubAgentTool {
+  const t = tools.get(name);
+  if (!t) throw new Error(`Unknown tool '${name}' (registered: ${[...tools.keys()].join(", ") || "none"})`);
+  return t;
+}
+
+export function listTools(): SubAgentTool[] {
+  return [...tools.values()];
+}
+
+// OpenAI-style definitions for the named tools; unknown names throw
+export function toolDefinitions(names: string[]): ToolDefinition[] {
+  return names.map((n) => {
+    const t = getTool(n);
+    return { type: "function", function: { name: t.name, description: t.description, parameters: t.parameters } };
+  });
+}
+
+// Run one tool call the model asked for. Failures (tool not allowed, bad arguments, the tool throwing) come back
+// as `{ "error": ... }` content for the model instead of throwing.
+export async function executeToolCall(
+  call: ToolCall,
+  allowed: string[],
+  ctx: Omit<ToolContext, "calls">,
+  callsByTool: Map<string, number>
+): Promise<{ content: string; error?: string; summary?: Record<string, unknown> }> {
+  const name = call.function.name;
+  try {
+    if (!allowed.includes(name)) throw new Error(`tool '${name}' is not available to ${ctx.agent}`);
+    const tool = getTool(name);
+    let args: any;
+    try { args = JSON.parse(call.function.arguments || "{}"); } catch { throw new Error("arguments are not valid JSON"); }
+    if (!args || typeof args !== "object" || Array.isArray(args)) throw new Error("arguments must be a JSON object");
+    const calls = callsByTool.get(name) ?? 0;
+    callsByTool.set(name, calls + 1);
+    const result = await tool.run(args, { ...ctx, calls });
+    let summary: Record<string, unknown> | undefined;
+    try { summary = tool.summarize?.(result); } catch {}
+    let content = JSON.stringify(result ?? null);
+    if (content.length > TOOL_RESULT_MAX_CHARS) content = content.slice(0, TOOL_RESULT_MAX_CHARS) + "...[truncated]";
+    return { content, summary };
+  } catch (e: any) {
+    const error = e?.message || String(e);
+    return { content: JSON.stringify({ error }), error };
+  }
+}
+
+for (const t of [httpFetchTool, sqlQueryTool, fileReadTool, jsonPathTool]) registerTool(t);
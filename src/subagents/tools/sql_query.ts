@@ -0,0 +1,66 @@
+import fs from "node:fs";
+import Database from "better-sqlite3";
+import type { SubAgentTool } from "./registry.js";
+
+// Read-only SQL against a configured SQLite file (context.sql_query.db or SQL_QUERY_DB; never the model's choice).
+// The file is opened read-only with query_only on, and only a single statement that returns rows is accepted.
+
+const DEFAULT_MAX_ROWS = 50;
+const DEFAULT_MAX_BYTES = 100_000;
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export type SqlQueryOpts = { maxRows?: number; maxBytes?: number };
+
+export function sqlQuery(file: string, sql: string, params: unknown[] = [], opts: SqlQueryOpts = {}) {
+  if (!fs.existsSync(file)) throw new Error(`SQLite file not found: ${file}`);
+  const maxRows = opts.maxRows ?? DEFAULT_MAX_ROWS;
+  const maxBytes = opts.maxBytes ?? DEFAULT_MAX_BYTES;
+  const db = new Database(file, { readonly: true, fileMustExist: true });
+  try {
+    db.pragma("query_only = ON");
+    let stmt: ReturnType<typeof db.prepare>;
+    try {
+      stmt = db.prepare(sql);
+    } catch (e: any) {
+      throw new Error(`Invalid SQL: ${e?.message || e}`);
+    }
+    if (!stmt.reader || !stmt.readonly) throw new Error("Only read-only queries that return rows are allowed");
+    const rows: unknown[] = [];
+    let bytes = 0;
+    let truncated = false;
+    for (const row of stmt.iterate(...params)) {
+      const size = Buffer.byteLength(JSON.stringify(row));
+      if (rows.length >= maxRows || bytes + size > maxBytes) { truncated = true; break; }
+      bytes += size;
+      rows.push(row);
+    }
+    return { columns: stmt.columns().map((c: { name: string }) => c.name), rows, truncated };
+  } finally {
+    db.close();
+  }
+}
+
+export const sqlQueryTool: SubAgentTool = {
+  name: "sql_query",
+  description: "Run one read-only SQL SELECT against the configured SQLite database. Use `?` placeholders with `params`.",
+  parameters: {
+    type: "object",
+    properties: {
+      sql: { type: "string", description: "a single SELECT (or other read-only) statement" },
+      params: { type: "array", items: { type: ["string", "number", "boolean", "null"] } },
+    },
+    required: ["sql"],
+  },
+  async run(args, ctx) {
+    const file = ctx.context?.sql_query?.db || process.env.SQL_QUERY_DB;
+    if (typeof file !== "string" || !file) throw new Error("sql_query has no database configured (SQL_QUERY_DB)");
+    if (typeof args.sql !== "string" || !args.sql.trim()) throw new Error("sql_query needs `sql`");
+    const params = Array.isArray(args.params) ? args.params.map((p: unknown) => (typeof p === "boolean" ? Number(p) : p)) : [];
+    return sqlQuery(file, args.sql, params, { maxRows: envInt("SQL_QUERY_MAX_ROWS", DEFAULT_MAX_ROWS), maxBytes: envInt("SQL_QUERY_MAX_BYTES", DEFAULT_MAX_BYTES) });
+  },
+  summarize: (r: any) => ({ rows: r.rows.length, truncated: r.truncated }),
+};
@@ -8,8 +8,17 @@ export const AgentSpec = z.object({
   input_schema: JSONSchema.optional(),
   output_schema: JSONSchema.optional(),
   policy: z.string(),
-  tools: z.array(z.string()).optional(),
+  tools: z.array(z.string()).optional(),       // names in the tool registry (src/subagents/tools/registry.ts)
+  max_tool_steps: z.number().int().positive().optional(), // model calls that may request tools (default 4)
   system: z.string().optional(),
+  // Re-prompt with the validation errors when the output does not match output_schema
+  repair: z
+    .object({
+      max_attempts: z.number().int().min(0).default(1),
+      model: z.enum(["same", "backup"]).default("same"), // model that wrote the reply, or the policy's backups
+      policy: z.string().optional(),                     // route repairs through another policy instead
+    })
+    .optional(),
 });
 
 export type AgentSpecT = z.infer<typeof AgentSpec>;
@@ -22,11 +31,68 @@ export type TaskEnvelope<I = any, O = any> = {
   parentId?: string;
   agent: string;
   agentVersion?: string;
-  policy: string;
+  policy: string; // empty: the agent's own policy
   budget: { tokens: number; costUsd: number; timeMs: number };
+  taskBudget?: { tokens: number; costUsd: number; timeMs: number }; // what is left of the task budget; caps `budget`
   input: I;
   context?: Record<string, any>;
   constraints?: Record<string, any>;
   receiptExtras?: Record<string, any>;
   abortSignal?: AbortSignal;
 };
+
+export const Budget = z.object({
+  tokens: z.number().int().positive(),
+  costUsd: z.number().nonnegative(),
+  timeMs: z.number().int().positive(),
+});
+
+export type BudgetT = z.infer<typeof Budget>;
+
+// Condition strings: "<ref> non-empty" | "<ref> empty" | "<stepId> within-budget"
+const Condition = z.union([z.string(), z.array(z.string())]);
+
+const FanOutBranch = z.object({
+  agent: z.string(),
+  budget: Budget,
+  input: z.any().optional(), // defaults to the step input
+  context: z.record(z.any()).optional(),
+  constraints: z.record(z.any()).optional(),
+});
+
+export const ChainStep = z
+  .object({
+    id: z.string(),
+    agent: z.string().optional(),
+    budget: Budget.optional(),
+    parent: z.union([z.string(), z.array(z.string())]).optional(),
+    when: Condition.optional(),
+    input: z.any().optional(),
+    context: z.record(z.any()).optional(),
+    constraints: z.record(z.any()).optional(),
+    default: z.any().optional(), // output used when the step is skipped
+    downgrade: z.string().optional(), // cheaper policy used when the task budget cannot cover the step's budget
+    note: z.string().optional(),
+    fan_out: z
+      .object({ branches: z.array(FanOutBranch).min(1), early_stop: z.boolean().optional() })
+      .optional(),
+    reducer: z
+      .object({ agent: z.string(), budget: Budget, context: z.record(z.any()).optional() })
+      .optional(),
+  })
+  .refine((s) => !!s.agent !== !!s.fan_out, { message: "step needs exactly one of `agent` or `fan_out`" })
+  .refine((s) => !s.agent || !!s.budget, { message: "agent steps need a `budget`" })
+  .refine((s) => !s.reducer || !!s.fan_out, { message: "`reducer` is only valid with `fan_out`" });
+
+export type ChainStepT = z.infer<typeof ChainStep>;
+
+export const ChainSpec = z.object({
+  chain: z.string(),
+  description: z.string().optional(),
+  aliases: z.array(z.string()).default([]),
+  budget: Budget.optional(), // task-level budget every step draws from
+  steps: z.array(ChainStep).min(1),
+  output: z.any().optional(),
+});
+
+export type ChainSpecT = z.infer<typeof ChainSpec>;
@@ -1,51 +1,264 @@
-// Very light JSON Schema validator (subset):
-// - Supports top-level type: object/array/string/number/boolean
-// - Supports object.properties with simple `type`
-// - Supports `required` list (presence only)
-// This is meant for warnings only, not strict validation.
+// JSON Schema (draft 2020-12) validator for agent input/output schemas. Covers the assertion and applicator
+// keywords: type, enum, const, numeric/string/array/object bounds, pattern, format, properties,
+// patternProperties, additionalProperties, propertyNames, dependentRequired/dependentSchemas, prefixItems, items,
+// contains, uniqueItems, allOf/anyOf/oneOf/not, if/then/else, unevaluatedProperties/unevaluatedItems, and $ref to
+// local pointers ("#", "#/$defs/x") or $anchor names. Remote $refs are reported as errors.
+// Errors read "<path>: <message>", with JSONPath-style paths ($, $.records[0].id).
 
 type JSONSchema = any;
 
+type Result = {
+  errors: string[];
+  props: Set<string>; // evaluated property names (for unevaluatedProperties)
+  items: Set<number>; // evaluated array indexes (for unevaluatedItems)
+};
+
 function typeOf(v: any): string {
   if (Array.isArray(v)) return 'array';
   if (v === null) return 'null';
   return typeof v;
 }
 
-export function validateAgainstSchema(schema: JSONSchema | undefined, value: any): { ok: boolean; errors: string[] } {
-  if (!schema) return { ok: true, errors: [] };
-  const errors: string[] = [];
-
-  // Top-level type
-  if (schema.type) {
-    const t = schema.type;
-    const vt = typeOf(value);
-    if (t !== vt && !(Array.isArray(t) && (t as any[]).includes(vt))) {
-      errors.push(`type mismatch: expected ${t}, got ${vt}`);
-      // If top-level type mismatches, further checks will be noisy; return early
-      return { ok: errors.length === 0, errors };
-    }
-  }
-
-  // Object validation
-  if ((schema.type === 'object' || (!schema.type && typeof value === 'object')) && value && !Array.isArray(value)) {
-    const props = schema.properties || {};
-    const required: string[] = schema.required || [];
-    for (const key of required) {
-      if (!(key in value)) errors.push(`missing required property: ${key}`);
-    }
-    for (const [key, ps] of Object.entries<any>(props)) {
-      if (!(key in value)) continue;
-      const vt = typeOf((value as any)[key]);
-      if (ps && ps.type) {
-        const pt = ps.type;
-        if (pt !== vt && !(Array.isArray(pt) && (pt as any[]).includes(vt))) {
-          errors.push(`property '${key}' type mismatch: expected ${pt}, got ${vt}`);
-        }
+function matchesType(t: string, v: any): boolean {
+  if (t === 'integer') return typeof v === 'number' && Number.isInteger(v);
+  if (t === 'number') return typeof v === 'number' && Number.isFinite(v);
+  return typeOf(v) === t;
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) return a.length === b.length && a.every((x, i) => deepEqual(x, b[i]));
+  const ka = Object.keys(a);
+  const kb = Object.keys(b);
+  return ka.length === kb.length && ka.every((k) => Object.prototype.hasOwnProperty.call(b, k) && deepEqual(a[k], b[k]));
+}
+
+const FORMATS: Record<string, (s: string) => boolean> = {
+  'date-time': (s) => /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(s) && !Number.isNaN(Date.parse(s)),
+  date: (s) => /^\d{4}-\d{2}-\d{2}$/.test(s) && !Number.isNaN(Date.parse(`${s}T00:00:00Z`)) && new Date(`${s}T00:00:00Z`).toISOString().startsWith(s),
+  time: (s) => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(s),
+  duration: (s) => /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(s),
+  email: (s) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s),
+  hostname: (s) => s.length <= 253 && s.split('.').every((l) => /^[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/.test(l)),
+  ipv4: (s) => /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/.test(s),
+  ipv6: (s) => s.includes(':') && /^[0-9A-Fa-f:.]+$/.test(s) && (() => { try { new URL(`http://[${s}]`); return true; } catch { return false; } })(),
+  uri: (s) => /^[A-Za-z][A-Za-z0-9+.-]*:/.test(s) && (() => { try { new URL(s); return true; } catch { return false; } })(),
+  'uri-reference': (s) => !/\s/.test(s),
+  uuid: (s) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(s),
+  regex: (s) => { try { new RegExp(s, 'u'); return true; } catch { return false; } },
+  'json-pointer': (s) => s === '' || /^(\/([^~/]|~[01])*)+$/.test(s),
+};
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function resolveRef(root: JSONSchema, ref: string): JSONSchema {
+  if (ref === '#') return root;
+  if (ref.startsWith('#/')) {
+    let cur = root;
+    for (const raw of ref.slice(2).split('/')) {
+      const key = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (cur == null || typeof cur !== 'object' || !(key in cur)) return undefined;
+      cur = cur[key];
+    }
+    return cur;
+  }
+  if (ref.startsWith('#')) {
+    // $anchor
+    const name = ref.slice(1);
+    const seen = new Set<any>();
+    const find = (s: any): any => {
+      if (!s || typeof s !== 'object' || seen.has(s)) return undefined;
+      seen.add(s);
+      if (s.$anchor === name) return s;
+      for (const v of Object.values(s)) { const hit = find(v); if (hit !== undefined) return hit; }
+      return undefined;
+    };
+    return find(root);
+  }
+  return undefined;
+}
+
+function validate(schema: JSONSchema, value: any, path: string, root: JSONSchema, depth: number): Result {
+  const res: Result = { errors: [], props: new Set(), items: new Set() };
+  if (schema === true || schema === undefined) return res;
+  if (schema === false) { res.errors.push(`${path}: no value is allowed here`); return res; }
+  if (typeof schema !== 'object' || schema === null) return res;
+  if (depth > 64) { res.errors.push(`${path}: schema nesting too deep (circular $ref?)`); return res; }
+  const err = (msg: string) => res.errors.push(`${path}: ${msg}`);
+  // Merge a passing subschema's annotations into ours
+  const absorb = (r: Result) => { r.props.forEach((p) => res.props.add(p)); r.items.forEach((i) => res.items.add(i)); };
+  const sub = (s: JSONSchema, v: any, p: string) => validate(s, v, p, root, depth + 1);
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) err(`cannot resolve $ref ${schema.$ref}`);
+    else { const r = sub(target, value, path); res.errors.push(...r.errors); if (!r.errors.length) absorb(r); }
+  }
+
+  const vt = typeOf(value);
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(t, value))) {
+      err(`expected ${types.join(' or ')}, got ${vt === 'number' && types.includes('integer') ? 'non-integer number' : vt}`);
+      return res; // further keyword errors would only repeat the mismatch
+    }
+  }
+  if (schema.enum !== undefined && !(schema.enum as any[]).some((e) => deepEqual(e, value))) {
+    err(`must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) err(`must equal ${JSON.stringify(schema.const)}`);
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) err(`must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) err(`must be <= ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) err(`must be > ${schema.exclusiveMinimum}`);
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) err(`must be < ${schema.exclusiveMaximum}`);
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const q = value / schema.multipleOf;
+      if (Math.abs(q - Math.round(q)) > 1e-9) err(`must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    const len = [...value].length;
+    if (typeof schema.minLength === 'number' && len < schema.minLength) err(`must be at least ${schema.minLength} characters`);
+    if (typeof schema.maxLength === 'number' && len > schema.maxLength) err(`must be at most ${schema.maxLength} characters`);
+    if (typeof schema.pattern === 'string') {
+      let re: RegExp | undefined;
+      try { re = new RegExp(schema.pattern, 'u'); } catch { err(`invalid pattern ${schema.pattern}`); }
+      if (re && !re.test(value)) err(`must match pattern ${schema.pattern}`);
+    }
+    if (typeof schema.format === 'string' && FORMATS[schema.format] && !FORMATS[schema.format](value)) err(`must be a valid ${schema.format}`);
+  }
+
+  if (vt === 'array') {
+    const arr = value as any[];
+    if (typeof schema.minItems === 'number' && arr.length < schema.minItems) err(`must have at least ${schema.minItems} items`);
+    if (typeof schema.maxItems === 'number' && arr.length > schema.maxItems) err(`must have at most ${schema.maxItems} items`);
+    if (schema.uniqueItems === true) {
+      for (let i = 0; i < arr.length; i++) {
+        const j = arr.findIndex((x, k) => k > i && deepEqual(x, arr[i]));
+        if (j !== -1) { err(`items ${i} and ${j} are equal (uniqueItems)`); break; }
       }
     }
+    const prefix: any[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    prefix.forEach((s, i) => {
+      if (i >= arr.length) return;
+      res.errors.push(...sub(s, arr[i], childPath(path, i)).errors);
+      res.items.add(i);
+    });
+    if (schema.items !== undefined) {
+      for (let i = prefix.length; i < arr.length; i++) {
+        res.errors.push(...sub(schema.items, arr[i], childPath(path, i)).errors);
+        res.items.add(i);
+      }
+    }
+    if (schema.contains !== undefined) {
+      const hits = arr.map((x, i) => (sub(schema.contains, x, childPath(path, i)).errors.length ? -1 : i)).filter((i) => i >= 0);
+      hits.forEach((i) => res.items.add(i));
+      const min = typeof schema.minContains === 'number' ? schema.minContains : 1;
+      if (hits.length < min) err(min === 1 ? 'must contain at least one matching item' : `must contain at least ${min} matching items`);
+      if (typeof schema.maxContains === 'number' && hits.length > schema.maxContains) err(`must contain at most ${schema.maxContains} matching items`);
+    }
   }
 
-  return { ok: errors.length === 0, errors };
+  if (vt === 'object') {
+    const obj = value as Record<string, any>;
+    const keys = Object.keys(obj);
+    for (const key of (schema.required as string[] | undefined) ?? []) {
+      if (!Object.prototype.hasOwnProperty.call(obj, key)) err(`missing required property '${key}'`);
+    }
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) err(`must have at least ${schema.minProperties} properties`);
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) err(`must have at most ${schema.maxProperties} properties`);
+    for (const [key, deps] of Object.entries<string[]>(schema.dependentRequired ?? {})) {
+      if (!(key in obj)) continue;
+      for (const d of deps) if (!(d in obj)) err(`property '${d}' is required when '${key}' is present`);
+    }
+    if (schema.propertyNames !== undefined) {
+      for (const k of keys) {
+        const r = sub(schema.propertyNames, k, path);
+        if (r.errors.length) err(`property name '${k}' is invalid (${r.errors.map((e) => e.slice(path.length + 2)).join('; ')})`);
+      }
+    }
+    const props: Record<string, JSONSchema> = schema.properties ?? {};
+    const patterns = Object.entries<JSONSchema>(schema.patternProperties ?? {}).map(([p, s]) => [new RegExp(p, 'u'), s] as const);
+    for (const k of keys) {
+      let matched = false;
+      if (Object.prototype.hasOwnProperty.call(props, k)) {
+        matched = true;
+        res.errors.push(...sub(props[k], obj[k], childPath(path, k)).errors);
+      }
+      for (const [re, s] of patterns) {
+        if (!re.test(k)) continue;
+        matched = true;
+        res.errors.push(...sub(s, obj[k], childPath(path, k)).errors);
+      }
+      if (matched) res.props.add(k);
+      else if (schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) err(`unexpected property '${k}'`);
+        else res.errors.push(...sub(schema.additionalProperties, obj[k], childPath(path, k)).errors);
+        res.props.add(k);
+      }
+    }
+    for (const [key, s] of Object.entries<JSONSchema>(schema.dependentSchemas ?? {})) {
+      if (!(key in obj)) continue;
+      const r = sub(s, value, path);
+      res.errors.push(...r.errors);
+      if (!r.errors.length) absorb(r);
+    }
+  }
+
+  // Combinators: annotations only come from subschemas that passed
+  if (Array.isArray(schema.allOf)) {
+    for (const s of schema.allOf) { const r = sub(s, value, path); res.errors.push(...r.errors); if (!r.errors.length) absorb(r); }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const rs = schema.anyOf.map((s: JSONSchema) => sub(s, value, path));
+    const ok = rs.filter((r: Result) => !r.errors.length);
+    if (!ok.length) err(`must match at least one schema in anyOf (${rs.map((r: Result) => r.errors[0]).join(' | ')})`);
+    ok.forEach(absorb);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const rs = schema.oneOf.map((s: JSONSchema) => sub(s, value, path));
+    const ok = rs.filter((r: Result) => !r.errors.length);
+    if (ok.length !== 1) err(ok.length ? `must match exactly one schema in oneOf (matched ${ok.length})` : `must match exactly one schema in oneOf (${rs.map((r: Result) => r.errors[0]).join(' | ')})`);
+    else absorb(ok[0]);
+  }
+  if (schema.not !== undefined && !sub(schema.not, value, path).errors.length) err('must not match the schema in not');
+  if (schema.if !== undefined) {
+    const cond = sub(schema.if, value, path);
+    const branch = cond.errors.length ? schema.else : schema.then;
+    if (!cond.errors.length) absorb(cond);
+    if (branch !== undefined) { const r = sub(branch, value, path); res.errors.push(...r.errors); if (!r.errors.length) absorb(r); }
+  }
+
+  // unevaluated* see everything the keywords above evaluated
+  if (vt === 'array' && schema.unevaluatedItems !== undefined) {
+    (value as any[]).forEach((x, i) => {
+      if (res.items.has(i)) return;
+      if (schema.unevaluatedItems === false) err(`unexpected item at index ${i}`);
+      else res.errors.push(...sub(schema.unevaluatedItems, x, childPath(path, i)).errors);
+      res.items.add(i);
+    });
+  }
+  if (vt === 'object' && schema.unevaluatedProperties !== undefined) {
+    for (const k of Object.keys(value)) {
+      if (res.props.has(k)) continue;
+      if (schema.unevaluatedProperties === false) err(`unexpected property '${k}'`);
+      else res.errors.push(...sub(schema.unevaluatedProperties, value[k], childPath(path, k)).errors);
+      res.props.add(k);
+    }
+  }
+  return res;
 }
 
+export function validateAgainstSchema(schema: JSONSchema | undefined, value: any): { ok: boolean; errors: string[] } {
+  if (schema === undefined || schema === null) return { ok: true, errors: [] };
+  const errors = validate(schema, value, '$', schema, 0).errors;
+  return { ok: errors.length === 0, errors };
+}
@@ -0,0 +1,28 @@
+// Expand `${VAR}` / `${VAR:-default}` in config strings. Braces inside the default are counted,
+// so `${URL:-https://host/posts/{id}}` keeps `{id}` as part of the default.
+export function expandEnv(s: string): string {
+  let out = "";
+  let i = 0;
+  while (i < s.length) {
+    const head = /^\$\{([A-Z0-9_]+)(:-|\})/.exec(s.slice(i));
+    if (!head) { out += s[i++]; continue; }
+    const name = head[1];
+    let j = i + head[0].length;
+    let def: string | undefined;
+    if (head[2] === ":-") {
+      let depth = 1;
+      const from = j;
+      for (; j < s.length; j++) {
+        if (s[j] === "{") depth++;
+        else if (s[j] === "}" && --depth === 0) break;
+      }
+      if (depth !== 0) { out += s[i++]; continue; } // unbalanced: leave as written
+      def = s.slice(from, j);
+      j++;
+    }
+    const v = process.env[name];
+    out += v != null && v !== "" ? v : def ?? "";
+    i = j;
+  }
+  return out;
+}
@@ -18,17 +18,29 @@ export class PolicyError extends Error {
   }
 }
 
+export class ChainError extends Error {
+  readonly tag = "CHAIN" as const;
+  details?: string[];
+  constructor(message: string, details?: string[]) {
+    super(message);
+    this.name = "ChainError";
+    this.details = details;
+  }
+}
+
 export class QuotaError extends Error {
   readonly tag = "QUOTA" as const;
-  kind: "daily" | "rpm";
+  kind: "daily" | "monthly" | "daily_usd" | "monthly_usd" | "rpm";
   limit?: number;
   when?: string;
-  constructor(kind: "daily" | "rpm", message: string, limit?: number, when?: string) {
+  team?: string; // set when a team's shared budget (tenancy.teams) ran out
+  constructor(kind: QuotaError["kind"], message: string, limit?: number, when?: string, team?: string) {
     super(message);
     this.name = "QuotaError";
     this.kind = kind;
     this.limit = limit;
     this.when = when;
+    this.team = team;
   }
 }
 
@@ -44,13 +56,25 @@ export class GatewayError extends Error {
   }
 }
 
+export type RouterFailureMeta = {
+  reasons?: string[];
+  fallbackCount?: number;
+  latency?: number;
+  nonRetryable?: Array<{ model: string; reason: string; status?: number; message: string }>;
+  preflight?: Record<string, any>;
+  circuitOpen?: string[];
+  hedge?: Record<string, any>;
+};
+
 export class RouterError extends Error {
   readonly tag = "ROUTER" as const;
   attempts: Array<{ model: string; message: string; status?: number }>;
-  constructor(message: string, attempts: Array<{ model: string; message: string; status?: number }>) {
+  meta: RouterFailureMeta;
+  constructor(message: string, attempts: Array<{ model: string; message: string; status?: number }>, meta: RouterFailureMeta = {}) {
     super(message);
     this.name = "RouterError";
     this.attempts = attempts;
+    this.meta = meta;
   }
 }
 
@@ -68,8 +92,13 @@ export function printFriendlyError(err: any): number {
     if (err.details?.length) err.details.forEach((d) => w(` - ${d}`));
     return 65; // EX_DATAERR
   }
+  if (err instanceof ChainError) {
+    w(`ERROR [chain]: ${err.message}`);
+    if (err.details?.length) err.details.forEach((d) => w(` - ${d}`));
+    return 65; // EX_DATAERR
+  }
   if (err instanceof QuotaError) {
-    w(`ERROR [quota/${err.kind}]: ${err.message}`);
+    w(`ERROR [quota/${err.team ? "team/" : ""}${err.kind}]: ${err.message}`);
     if (err.when) w(`resets: ${err.when}`);
     return 75; // EX_TEMPFAIL
   }
@@ -86,6 +115,12 @@ export function printFriendlyError(err: any): number {
         w(` - model=${a.model} err=${a.message}${a.status ? ` (status ${a.status})` : ""}`);
       }
     }
+    if (err.meta?.nonRetryable?.length) {
+      w(`not retried (strategy.retry_on): ${err.meta.nonRetryable.map((n) => n.reason).join(", ")}`);
+    }
+    if (err.meta?.circuitOpen?.length) {
+      w(`skipped (circuit open): ${err.meta.circuitOpen.join(", ")}`);
+    }
     return 69;
   }
   // Fallback
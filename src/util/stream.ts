@@ -1,3 +1,48 @@
+import type { ToolCall } from "../gateway.js";
+import type { UsageCounts } from "./usage.js";
+
+// Metadata the SSE parsers below see besides text: the provider's final `usage` chunk (sent when the request has
+// stream_options.include_usage), the last finish_reason and any tool calls, assembled from their `delta.tool_calls`
+// fragments. Keyed by the Response, so stream handlers keep their (res, onFirstChunk) => text shape and the router
+// reads it back with streamMeta(res) after the handler returns.
+export type StreamMeta = { usage?: UsageCounts; finishReason?: string; toolCalls?: ToolCall[] };
+const metaByResponse = new WeakMap<Response, StreamMeta>();
+
+export function streamMeta(res: Response): StreamMeta | undefined {
+  return metaByResponse.get(res);
+}
+
+// Records metadata from one chunk; true when it carried a tool-call fragment (which counts as a first chunk)
+function noteMeta(res: Response, obj: any): boolean {
+  const finish = obj?.choices?.[0]?.finish_reason;
+  const u = obj?.usage;
+  const calls = obj?.choices?.[0]?.delta?.tool_calls;
+  const hasCalls = Array.isArray(calls) && calls.length > 0;
+  if (!finish && !u && !hasCalls) return false;
+  const meta = metaByResponse.get(res) ?? {};
+  if (finish) meta.finishReason = finish;
+  if (u) {
+    meta.usage = {
+      prompt: typeof u.prompt_tokens === "number" ? u.prompt_tokens : undefined,
+      completion: typeof u.completion_tokens === "number" ? u.completion_tokens : undefined,
+      total: typeof u.total_tokens === "number" ? u.total_tokens : undefined,
+    };
+  }
+  if (hasCalls) {
+    // OpenAI streams a call as fragments sharing an `index`: id and name arrive once, arguments in pieces
+    const assembled = (meta.toolCalls ??= []);
+    for (const d of calls) {
+      const i = typeof d?.index === "number" ? d.index : assembled.length;
+      const call = (assembled[i] ??= { id: `call_${i}`, type: "function", function: { name: "", arguments: "" } });
+      if (d?.id) call.id = d.id;
+      if (d?.function?.name) call.function.name += d.function.name;
+      if (d?.function?.arguments) call.function.arguments += d.function.arguments;
+    }
+  }
+  metaByResponse.set(res, meta);
+  return hasCalls;
+}
+
 export async function streamToStdout(
   res: Response,
   onFirstChunk: () => void
@@ -71,7 +116,9 @@ export async function streamSSEToStdout(
         }
         try {
           const obj = JSON.parse(data);
+          const toolDelta = noteMeta(res, obj);
           const delta = obj?.choices?.[0]?.delta?.content ?? obj?.choices?.[0]?.text ?? "";
+          if (toolDelta && !gotFirst) { gotFirst = true; onFirstChunk(); }
           if (delta) {
             if (!gotFirst) { gotFirst = true; onFirstChunk(); }
             process.stdout.write(delta);
@@ -114,7 +161,9 @@ export async function streamSSEToBufferAndStdout(
         if (data === "[DONE]") { doneFlag = true; break; }
         try {
           const obj = JSON.parse(data);
+          const toolDelta = noteMeta(res, obj);
           const delta = obj?.choices?.[0]?.delta?.content ?? obj?.choices?.[0]?.text ?? "";
+          if (toolDelta && !gotFirst) { gotFirst = true; onFirstChunk(); }
           if (delta) {
             if (!gotFirst) { gotFirst = true; onFirstChunk(); if (tag) process.stdout.write(`[${tag}] `); }
             captured += delta;
@@ -159,7 +208,9 @@ export async function streamSSEToVoid(
         if (data === "[DONE]") { doneFlag = true; break; }
         try {
           const obj = JSON.parse(data);
+          const toolDelta = noteMeta(res, obj);
           const delta = obj?.choices?.[0]?.delta?.content ?? obj?.choices?.[0]?.text ?? "";
+          if (toolDelta && !gotFirst) { gotFirst = true; onFirstChunk(); }
           if (delta && !gotFirst) { gotFirst = true; onFirstChunk(); }
         } catch { /* ignore */ }
       }
@@ -176,6 +227,17 @@ export async function streamSSEToBufferAndStdoutWithGate(
   onFirstChunk: () => void,
   gateMs: number,
   shouldAbort: () => boolean
+): Promise<string> {
+  return streamSSEToWriterWithGate(res, onFirstChunk, gateMs, shouldAbort, (s) => { process.stdout.write(s); });
+}
+
+// Gated SSE parser that hands plain-text deltas to `write` instead of stdout (e.g., an HTTP response).
+export async function streamSSEToWriterWithGate(
+  res: Response,
+  onFirstChunk: () => void,
+  gateMs: number,
+  shouldAbort: () => boolean,
+  write: (text: string) => void
 ): Promise<string> {
   if (!res.body) throw new Error("No body");
   const reader = res.body.getReader();
@@ -189,49 +251,54 @@ export async function streamSSEToBufferAndStdoutWithGate(
   const flush = () => {
     if (!gateTimerFired || shouldAbort()) return;
     if (buffer) {
-      process.stdout.write(buffer);
+      write(buffer);
       total += buffer;
       buffer = "";
     }
   };
-  if (gateMs > 0) {
-    setTimeout(() => {
-      gateTimerFired = true;
-      flush();
-    }, gateMs);
-  }
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    sseBuf += dec.decode(value, { stream: true });
-    // Process SSE events by lines for robustness
-    let idx;
-    while ((idx = sseBuf.indexOf("\n\n")) !== -1) {
-      const event = sseBuf.slice(0, idx);
-      sseBuf = sseBuf.slice(idx + 2);
-      const lines = event.split(/\r?\n/);
-      for (const line of lines) {
-        const m = /^data:\s*(.*)$/.exec(line);
-        if (!m) continue;
-        const data = m[1];
-        if (data === "[DONE]") { doneFlag = true; break; }
-        try {
-          const obj = JSON.parse(data);
-          const delta = obj?.choices?.[0]?.delta?.content ?? obj?.choices?.[0]?.text ?? "";
-          if (delta) {
-            if (!gotFirst) { gotFirst = true; onFirstChunk(); }
-            // Gate: buffer until flush allowed
-            if (!gateTimerFired || shouldAbort()) buffer += delta; else { process.stdout.write(delta); total += delta; }
+  // Cleared when the stream ends or fails, so text gated from a failed attempt is never written later
+  const gateTimer = gateMs > 0 ? setTimeout(() => {
+    gateTimerFired = true;
+    flush();
+  }, gateMs) : undefined;
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      sseBuf += dec.decode(value, { stream: true });
+      // Process SSE events by lines for robustness
+      let idx;
+      while ((idx = sseBuf.indexOf("\n\n")) !== -1) {
+        const event = sseBuf.slice(0, idx);
+        sseBuf = sseBuf.slice(idx + 2);
+        const lines = event.split(/\r?\n/);
+        for (const line of lines) {
+          const m = /^data:\s*(.*)$/.exec(line);
+          if (!m) continue;
+          const data = m[1];
+          if (data === "[DONE]") { doneFlag = true; break; }
+          try {
+            const obj = JSON.parse(data);
+            const toolDelta = noteMeta(res, obj);
+            const delta = obj?.choices?.[0]?.delta?.content ?? obj?.choices?.[0]?.text ?? "";
+            if (toolDelta && !gotFirst) { gotFirst = true; onFirstChunk(); }
+            if (delta) {
+              if (!gotFirst) { gotFirst = true; onFirstChunk(); }
+              // Gate: buffer until flush allowed
+              if (!gateTimerFired || shouldAbort()) buffer += delta; else { write(delta); total += delta; }
+            }
+          } catch {
+            // ignore
           }
-        } catch {
-          // ignore
         }
+        if (doneFlag) break;
       }
       if (doneFlag) break;
     }
-    if (doneFlag) break;
+  } finally {
+    clearTimeout(gateTimer);
   }
   // Final flush if allowed and not aborted
-  if (!shouldAbort() && buffer) { process.stdout.write(buffer); total += buffer; buffer = ""; }
+  if (!shouldAbort() && buffer) { write(buffer); total += buffer; buffer = ""; }
   return total;
 }
@@ -0,0 +1,47 @@
+import { createRequire } from "node:module";
+import type { Tiktoken } from "js-tiktoken/lite";
+
+// Local token counting so usage does not depend on provider headers or a paid probe call.
+// OpenAI families use their exact BPE; other families (Anthropic, Mistral, Llama, mock, ...) have no public
+// tokenizer in JS and are counted with cl100k_base, which usually lands within ~10-20% of their own count.
+
+export type EncodingName = "o200k_base" | "cl100k_base";
+
+const require = createRequire(import.meta.url);
+const cache = new Map<EncodingName, Tiktoken>();
+
+// Provider prefix is optional ("openai/gpt-4o-mini" or "gpt-4o-mini")
+const FAMILIES: Array<{ match: RegExp; encoding: EncodingName }> = [
+  { match: /^(openai\/)?(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/i, encoding: "o200k_base" },
+  { match: /^(openai\/)?(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada)/i, encoding: "cl100k_base" },
+];
+
+export function encodingForModel(model?: string): EncodingName {
+  if (!model) return "cl100k_base";
+  return FAMILIES.find((f) => f.match.test(model))?.encoding ?? "cl100k_base";
+}
+
+// Ranks are large (o200k_base takes ~1s to load), so each encoding is loaded once, on first use
+function encoder(name: EncodingName): Tiktoken {
+  let enc = cache.get(name);
+  if (!enc) {
+    const { Tiktoken } = require("js-tiktoken/lite") as typeof import("js-tiktoken/lite");
+    const ranks = require(`js-tiktoken/ranks/${name}`);
+    enc = new Tiktoken(ranks.default ?? ranks);
+    cache.set(name, enc);
+  }
+  return enc;
+}
+
+export function countTokens(text: string, model?: string): number {
+  if (!text) return 0;
+  // Special-token strings in user text are counted as plain text rather than rejected
+  return encoder(encodingForModel(model)).encode(text, [], []).length;
+}
+
+// Chat framing as documented for OpenAI chat models: 3 tokens per message plus the role, and 3 to prime the reply
+export function countChatTokens(messages: Array<{ role?: string; content: string }>, model?: string): number {
+  let n = 3;
+  for (const m of messages) n += 3 + countTokens(m.role ?? "", model) + countTokens(m.content ?? "", model);
+  return n;
+}
@@ -1,5 +1,6 @@
 export type UsageCounts = { prompt?: number; completion?: number; total?: number };
 import { callGateway, ChatParams } from "../gateway.js";
+import { countChatTokens, countTokens } from "./tokenizer.js";
 
 function parseIntSafe(v: string | null | undefined): number | undefined {
   if (!v) return undefined;
@@ -60,3 +61,47 @@ export async function probeUsageFromJSON(call: Omit<ChatParams, "stream"> & { st
     return null;
   }
 }
+
+// Rough size: ~4 chars per token plus a small per-message overhead (only when the tokenizer is unavailable)
+function roughTokens(messages: Array<{ content: string }>): number {
+  let chars = 0;
+  for (const m of messages) chars += (m.content || "").length;
+  return Math.ceil(chars / 4) + 4 * messages.length;
+}
+
+// Pre-call prompt size, counted with the model family's local tokenizer
+export function estimatePromptTokens(messages: Array<{ role?: string; content: string }>, model?: string): number {
+  try {
+    return countChatTokens(messages, model);
+  } catch {
+    return roughTokens(messages);
+  }
+}
+
+// Where a receipt's token counts came from, best first
+export type UsageSource = "stream" | "header" | "probe" | "tokenized" | "estimated";
+export type ResolvedUsage = { prompt: number; completion: number; source: { prompt: UsageSource; completion: UsageSource } };
+
+// Final usage for a call: what the provider reported (final stream chunk or headers, per `reported.via`), then an opt-in probe, then local tokenization of the prompt and the
+// captured output. `estimated` only when the tokenizer failed or no output text was captured.
+export function resolveUsage(
+  model: string,
+  messages: Array<{ role?: string; content: string }>,
+  output: string | undefined,
+  reported: UsageCounts & { via?: "stream" | "header" },
+  probe?: UsageCounts | null
+): ResolvedUsage {
+  const via = reported.via ?? "header";
+  const pick = (fromProvider: number | undefined, fromProbe: number | undefined, local: () => number | undefined, guess: number): [number, UsageSource] => {
+    if (fromProvider != null) return [fromProvider, via];
+    if (fromProbe != null) return [fromProbe, "probe"];
+    try {
+      const n = local();
+      if (n != null) return [n, "tokenized"];
+    } catch {}
+    return [guess, "estimated"];
+  };
+  const [prompt, promptSource] = pick(reported.prompt, probe?.prompt, () => countChatTokens(messages, model), roughTokens(messages));
+  const [completion, completionSource] = pick(reported.completion, probe?.completion, () => (output == null ? undefined : countTokens(output, model)), 200);
+  return { prompt, completion, source: { prompt: promptSource, completion: completionSource } };
+}